@@ -14,6 +14,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { MediaUrlPreview } from "@/components/ui/MediaUrlPreview";
+import { YouTubeClipPicker } from "@/components/ui/YouTubeClipPicker";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,7 +26,19 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { useApi } from "@/components/contex/ApiProvider";
+import { useFxRate } from "@/hooks/use-fx-rate";
+import { usePricing } from "@/hooks/use-pricing";
 import { useToast } from "@/hooks/use-toast";
+import { isApiError } from "@/lib/api-client";
+import { formatClipTime, parseClipTime, validateClipRange } from "@/lib/clip-time";
+import { usdToIdr } from "@/lib/currency";
+import { validateMediaUrl } from "@/lib/media-providers";
+import { extractStartTime } from "@/lib/media-url";
+import { describeFxRate } from "@/lib/fx-rate";
+import { calculateDisplayDuration, getMinAmount } from "@/lib/pricing";
+import { checkText } from "@/lib/word-filter";
+import type { CreatePaymentRequest, CryptoCurrency } from "@/types/payment";
 // Simple Chevron Icons
 const ChevronDown = ({ className }: { className?: string }) => (
   <svg className={className || "w-4 h-4 text-gray-500"} fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -38,23 +52,6 @@ const ChevronUp = ({ className }: { className?: string }) => (
   </svg>
 );
 
-interface CreatePaymentRequest {
-  donorName: string;
-  donorEmail: string;
-  amount: number;
-  donationType: "gif" | "text";
-  mediaUrl?: string;
-  mediaType?: string;
-  startTime?: number;
-  message?: string;
-  notes?: string;
-  paymentMethod: "bank_transfer" | "gopay" | "qris" | "crypto" | "credit_card";
-  bank?: string;
-  currency?: string;
-  cardTokenId?: string;
-  saveCard?: boolean;
-}
-
 /** Card input for Midtrans getCardToken (tidak dikirim ke backend, hanya untuk dapat token_id) */
 interface CardInputState {
   cardNumber: string;
@@ -64,9 +61,6 @@ interface CardInputState {
   bankOneTimeToken: string;
 }
 
-// USD to IDR conversion rate (configurable)
-const USD_TO_IDR_RATE = 16500;
-
 // Zod schema for form validation
 // Base schema
 const baseCreatePaymentSchema = z.object({
@@ -109,6 +103,22 @@ const baseCreatePaymentSchema = z.object({
 
 // Create final schema with refinements
 const createPaymentSchema = baseCreatePaymentSchema.refine((data) => {
+  // Donor name is shown on stream, so no profanity or links
+  return checkText(data.donorName).clean;
+}, {
+  message: "Nama donatur mengandung kata yang tidak pantas atau link",
+  path: ["donorName"],
+}).refine((data) => {
+  return checkText(data.message).blockedWords.length === 0;
+}, {
+  message: "Pesan donasi mengandung kata yang tidak pantas",
+  path: ["message"],
+}).refine((data) => {
+  return !checkText(data.message).hasUrl;
+}, {
+  message: "Pesan donasi tidak boleh berisi link",
+  path: ["message"],
+}).refine((data) => {
   // If donationType is "gif", mediaUrl is required
   if (data.donationType === "gif") {
     return data.mediaUrl && data.mediaUrl.trim().length > 0;
@@ -117,6 +127,13 @@ const createPaymentSchema = baseCreatePaymentSchema.refine((data) => {
 }, {
   message: "Media URL wajib diisi untuk tipe donasi Media",
   path: ["mediaUrl"],
+}).superRefine((data, ctx) => {
+  // Block links the overlay can't play (short links, unknown hosts) before checkout
+  if (data.donationType !== "gif" || !data.mediaUrl || data.mediaUrl.trim().length === 0) return;
+  const check = validateMediaUrl(data.mediaUrl);
+  if (!check.ok) {
+    ctx.addIssue({ code: "custom", message: check.reason, path: ["mediaUrl"] });
+  }
 }).refine((data) => {
   // If paymentMethod is "bank_transfer", bank is required
   if (data.paymentMethod === "bank_transfer") {
@@ -155,15 +172,6 @@ const createPaymentSchema = baseCreatePaymentSchema.refine((data) => {
 }, {
   message: "CVV wajib 3 atau 4 digit",
   path: ["cardCvv"],
-}).refine((data) => {
-  // For non-crypto payment methods, amount must be >= 1000 (IDR minimum)
-  if (data.paymentMethod !== "crypto") {
-    return data.amount >= 1000;
-  }
-  return true;
-}, {
-  message: "Minimum donasi Rp 1.000",
-  path: ["amount"],
 }).refine((data) => {
   // For non-crypto payment methods, amount must be an integer (IDR)
   if (data.paymentMethod !== "crypto") {
@@ -215,10 +223,13 @@ const getPaymentMethodLogo = (method: string, cryptoCurrency?: string, bankType?
 export default function DonatePage() {
   const router = useRouter();
   const { toast } = useToast();
+  const pricing = usePricing();
+  const fxRate = useFxRate();
   const [loading, setLoading] = useState(false);
   const [showOptional, setShowOptional] = useState(false);
-  const [startTimeMinutes, setStartTimeMinutes] = useState<number>(0);
-  const [cryptoCurrencies, setCryptoCurrencies] = useState<any[]>([]);
+  const [clipStart, setClipStart] = useState<string>(""); // mm:ss
+  const [clipEnd, setClipEnd] = useState<string>(""); // mm:ss, empty plays to the end
+  const [cryptoCurrencies, setCryptoCurrencies] = useState<CryptoCurrency[]>([]);
   const [loadingCurrencies, setLoadingCurrencies] = useState(false);
   const [showCryptoDialog, setShowCryptoDialog] = useState(false);
   const [minAmountUsd, setMinAmountUsd] = useState<number>(1.0);
@@ -246,13 +257,27 @@ export default function DonatePage() {
     cardCvv: "",
     bankOneTimeToken: "",
   });
+  // Live check of the media link, shown under the field and sent as mediaType
+  const mediaCheck =
+    formData.donationType === "gif" && formData.mediaUrl && formData.mediaUrl.trim().length > 0
+      ? validateMediaUrl(formData.mediaUrl)
+      : null;
+  const detectedMediaType = mediaCheck?.ok ? mediaCheck.provider.id : undefined;
+  const supportsClipTime = !!mediaCheck?.ok && mediaCheck.provider.supportsStartTime;
+
+  // Helper function to get the clip range for the request (validated on submit)
+  const getClipTimes = (): { startTime?: number; endTime?: number } => {
+    if (!supportsClipTime) return {};
+    const clip = validateClipRange(clipStart, clipEnd);
+    return "error" in clip ? {} : clip;
+  };
   const [midtransScriptLoaded, setMidtransScriptLoaded] = useState(false);
   const [show3DSModal, setShow3DSModal] = useState(false);
   const [url3DS, setUrl3DS] = useState("");
   const [paymentSuccessAfter3DS, setPaymentSuccessAfter3DS] = useState<string | null>(null);
   const threeDSModalRef = React.useRef<{ close: () => void } | null>(null);
 
-  const apiBaseUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000";
+  const { client } = useApi();
   const midtransClientKey = process.env.NEXT_PUBLIC_MIDTRANS_CLIENT_KEY || "SB-Mid-client-AyXigF7mydBiMeLq";
   const midtransEnv = process.env.NEXT_PUBLIC_MIDTRANS_ENV || "sandbox";
 
@@ -286,16 +311,12 @@ export default function DonatePage() {
     setTestHitMessage(null);
     setTestHitLoading(true);
     try {
-      const res = await fetch(`${apiBaseUrl}/api/test-media-share`, { method: "POST" });
-      const data = await res.json().catch(() => ({}));
-      if (res.ok && data.success) {
-        setTestHitMessage("Tes hit terkirim! Buka /donate/gif untuk lihat media share.");
-        setTimeout(() => setTestHitMessage(null), 4000);
-      } else {
-        setTestHitMessage(data?.error || "Gagal mengirim tes hit");
-      }
-    } catch {
-      setTestHitMessage("Gagal koneksi ke backend");
+      await client.queue.testMediaShare();
+      setTestHitMessage("Tes hit terkirim! Buka /donate/gif untuk lihat media share.");
+      setTimeout(() => setTestHitMessage(null), 4000);
+    } catch (err) {
+      // ApiError without a status never reached the backend
+      setTestHitMessage(isApiError(err) && err.status ? err.message : "Gagal koneksi ke backend");
     } finally {
       setTestHitLoading(false);
     }
@@ -321,21 +342,12 @@ export default function DonatePage() {
     if (formData.paymentMethod === "crypto" && cryptoCurrencies.length === 0) {
       setLoadingCurrencies(true);
       // Fetch all currencies without sourceCurrency parameter
-      fetch(`${apiBaseUrl}/payment/plisio/currencies`)
-        .then((res) => {
-          if (!res.ok) {
-            throw new Error(`HTTP error! status: ${res.status}`);
-          }
-          return res.json();
-        })
-        .then((data) => {
-          if (data.success && data.data) {
-            // Show all currencies (don't filter hidden/maintenance)
-            setCryptoCurrencies(data.data);
-            console.log(`✅ Loaded ${data.data.length} cryptocurrencies`);
-          } else {
-            console.error("Failed to fetch currencies:", data.error);
-          }
+      client.crypto
+        .currencies()
+        .then((currencies) => {
+          // Show all currencies (don't filter hidden/maintenance)
+          setCryptoCurrencies(currencies);
+          console.log(`✅ Loaded ${currencies.length} cryptocurrencies`);
         })
         .catch((err) => {
           console.error("Error fetching currencies:", err);
@@ -344,7 +356,7 @@ export default function DonatePage() {
           setLoadingCurrencies(false);
         });
     }
-  }, [formData.paymentMethod, apiBaseUrl]);
+  }, [formData.paymentMethod, client]);
 
   // Function to scroll to first error field
   const scrollToFirstError = (errors: Record<string, string>) => {
@@ -380,7 +392,7 @@ export default function DonatePage() {
       if (!usdAmount || usdAmount.trim() === "" || usdValue <= 0) {
         const errorMsg = formData.currency 
           ? `Jumlah donasi USD wajib diisi (minimum $${minAmountUsd.toFixed(2)})`
-          : "Jumlah donasi USD wajib diisi (minimum $0.01)";
+          : `Jumlah donasi USD wajib diisi (minimum $${getMinAmount(pricing, "crypto").toFixed(2)})`;
         setFormErrors({ amount: errorMsg });
         toast({
           title: "Validasi Gagal",
@@ -408,9 +420,9 @@ export default function DonatePage() {
         return;
       }
       
-      // Check minimum 0.01 USD for crypto
-      if (usdValue < 0.01) {
-        const errorMsg = "Jumlah donasi minimum adalah $0.01 USD";
+      // Check the configured crypto minimum (USD)
+      if (usdValue < getMinAmount(pricing, "crypto")) {
+        const errorMsg = `Jumlah donasi minimum adalah $${getMinAmount(pricing, "crypto").toFixed(2)} USD`;
         setFormErrors({ amount: errorMsg });
         toast({
           title: "Validasi Gagal",
@@ -422,8 +434,39 @@ export default function DonatePage() {
         }, 100);
         return;
       }
+    } else if (formData.amount < getMinAmount(pricing, formData.paymentMethod)) {
+      // Minimum per payment method comes from the pricing config (IDR)
+      const errorMsg = `Minimum donasi Rp ${getMinAmount(pricing, formData.paymentMethod).toLocaleString("id-ID")}`;
+      setFormErrors({ amount: errorMsg });
+      toast({
+        title: "Validasi Gagal",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        scrollToFirstError({ amount: errorMsg });
+      }, 100);
+      return;
     }
     
+    // Clip start/end only apply to providers that honor them (YouTube)
+    if (supportsClipTime) {
+      const clip = validateClipRange(clipStart, clipEnd);
+      if ("error" in clip) {
+        const errors = { [clip.field]: clip.error };
+        setFormErrors(errors);
+        toast({
+          title: "Validasi Gagal",
+          description: clip.error,
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          scrollToFirstError(errors);
+        }, 100);
+        return;
+      }
+    }
+
     try {
       // Validate form data with Zod
       createPaymentSchema.parse(formData);
@@ -501,7 +544,7 @@ export default function DonatePage() {
           onSuccess: async (response) => {
             try {
               const tokenId = response.token_id;
-              const submitData = {
+              const submitData: CreatePaymentRequest = {
                 donorName: formData.donorName,
                 donorEmail: formData.donorEmail,
                 amount: formData.amount,
@@ -509,26 +552,15 @@ export default function DonatePage() {
                 message: formData.message,
                 notes: formData.notes,
                 paymentMethod: "credit_card" as const,
-                startTime: startTimeMinutes > 0 ? startTimeMinutes * 60 : undefined,
+                ...getClipTimes(),
                 mediaUrl: formData.mediaUrl,
-                mediaType: formData.mediaType,
+                mediaType: detectedMediaType,
                 cardTokenId: tokenId,
                 saveCard: formData.saveCard ?? false,
               };
-              const endpoint = `${apiBaseUrl}/payment/create`;
-              const responseApi = await fetch(endpoint, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(submitData),
-              });
-              const data = await responseApi.json();
-              if (!data.success || !data.data) {
-                toast({ title: "Gagal Membuat Pembayaran", description: data.error || "Unknown error", variant: "destructive" });
-                setLoading(false);
-                return;
-              }
-              const redirectUrl = data.data.redirectUrl;
-              const paymentId = data.data.payment?.id || data.data.id || data.data.orderId;
+              const result = await client.payments.create(submitData);
+              const redirectUrl = result.redirectUrl;
+              const paymentId = result.payment?.id || result.id || result.orderId;
               if (redirectUrl && window.MidtransNew3ds) {
                 window.MidtransNew3ds.authenticate(redirectUrl, {
                   performAuthentication: (url: string) => {
@@ -542,11 +574,7 @@ export default function DonatePage() {
                     const orderId = (response?.order_id as string) || undefined;
                     try {
                       if (orderId && (status === "capture" || status === "settlement")) {
-                        await fetch(`${apiBaseUrl}/payment/confirm-3ds`, {
-                          method: "POST",
-                          headers: { "Content-Type": "application/json" },
-                          body: JSON.stringify(response),
-                        });
+                        await client.payments.confirm3ds(response);
                       }
                     } catch (e) {
                       console.warn("[3DS] confirm-3ds request failed:", e);
@@ -568,11 +596,7 @@ export default function DonatePage() {
                     const orderId = res?.order_id as string | undefined;
                     if (orderId && (status === "capture" || status === "settlement")) {
                       try {
-                        await fetch(`${apiBaseUrl}/payment/confirm-3ds`, {
-                          method: "POST",
-                          headers: { "Content-Type": "application/json" },
-                          body: JSON.stringify(response),
-                        });
+                        await client.payments.confirm3ds(response);
                       } catch (e) {
                         console.warn("[3DS] confirm-3ds (onPending) failed:", e);
                       }
@@ -609,39 +633,28 @@ export default function DonatePage() {
       }
 
       // Non–credit_card flow
-      const submitData: Record<string, unknown> = {
+      const submitData: CreatePaymentRequest = {
         ...formData,
-        startTime: startTimeMinutes > 0 ? startTimeMinutes * 60 : undefined,
+        ...getClipTimes(),
+        mediaType: detectedMediaType,
       };
 
-      const endpoint =
+      const result =
         formData.paymentMethod === "crypto"
-          ? `${apiBaseUrl}/payment/plisio/create`
-          : `${apiBaseUrl}/payment/create`;
-
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(submitData),
-      });
+          ? await client.payments.createCrypto(submitData)
+          : await client.payments.create(submitData);
 
-      const data = await response.json();
-
-      if (data.success && data.data) {
-        if (formData.paymentMethod === "crypto") {
-          const invoiceUrl = data.data.invoiceUrl || data.data.invoice?.invoiceUrl;
-          if (invoiceUrl) {
-            window.location.href = invoiceUrl;
-            return;
-          }
+      if (formData.paymentMethod === "crypto") {
+        const invoiceUrl = result.invoiceUrl || result.invoice?.invoiceUrl;
+        if (invoiceUrl) {
+          window.location.href = invoiceUrl;
+          return;
         }
-
-        const paymentId = data.data.payment?.id || data.data.id || data.data.orderId;
-        if (paymentId) router.push(`/${paymentId}`);
-        else toast({ title: "Error", description: "Payment created but unable to redirect", variant: "destructive" });
-      } else {
-        toast({ title: "Gagal Membuat Pembayaran", description: data.error || "Unknown error", variant: "destructive" });
       }
+
+      const paymentId = result.payment?.id || result.id || result.orderId;
+      if (paymentId) router.push(`/${paymentId}`);
+      else toast({ title: "Error", description: "Payment created but unable to redirect", variant: "destructive" });
     } catch (error: unknown) {
       const errMessage = error instanceof Error ? error.message : String(error);
       const errStack = error instanceof Error ? error.stack : undefined;
@@ -658,6 +671,10 @@ export default function DonatePage() {
     }
   };
 
+  // Live word filter check so the donor is warned before submitting
+  const donorNameFilter = checkText(formData.donorName || "");
+  const messageFilter = checkText(formData.message || "");
+
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
@@ -716,6 +733,14 @@ export default function DonatePage() {
           [name]: value,
         }));
       }
+
+      // Pasted links like youtu.be/...?t=90 carry their own start time
+      if (name === "mediaUrl") {
+        const linkStart = extractStartTime(value);
+        if (linkStart !== null) {
+          setClipStart(formatClipTime(linkStart));
+        }
+      }
     }
   };
   
@@ -723,17 +748,17 @@ export default function DonatePage() {
   const getAmountInIdr = (): number => {
     if (formData.paymentMethod === "crypto") {
       const usdValue = parseFloat(usdAmount) || 0;
-      return Math.round(usdValue * USD_TO_IDR_RATE);
+      return usdToIdr(usdValue, fxRate.rate);
     }
     return formData.amount;
   };
   
-  // Calculate duration in milliseconds based on IDR amount
-  const calculateDuration = (amountIdr: number): number => {
-    // 1000 IDR = 10 seconds, so amount / 1000 * 10 * 1000 ms
-    const durationMs = (amountIdr / 1000) * 10 * 1000;
-    return Math.max(10000, durationMs); // Minimum 10 seconds
-  };
+  // Calculate duration in milliseconds based on IDR amount and media type
+  const calculateDuration = (amountIdr: number): number =>
+    calculateDisplayDuration(pricing, amountIdr, {
+      donationType: formData.donationType,
+      mediaType: detectedMediaType,
+    });
 
   // Format duration from seconds to "X jam X menit X detik"
   const formatDuration = (seconds: number): string => {
@@ -797,6 +822,11 @@ export default function DonatePage() {
                 {formErrors.donorName && (
                   <p className="text-sm text-red-500">{formErrors.donorName}</p>
                 )}
+                {!formErrors.donorName && !donorNameFilter.clean && (
+                  <p className="text-sm text-amber-600">
+                    Nama mengandung kata yang tidak pantas atau link dan akan ditolak
+                  </p>
+                )}
                 <p className="text-sm text-muted-foreground">
                   {formData.donorName.length}/16 karakter
                 </p>
@@ -851,7 +881,9 @@ export default function DonatePage() {
                         </button>
                       ))}
                     </div>
-                    <p className="text-sm text-muted-foreground">Minimum Rp 1.000</p>
+                    <p className="text-sm text-muted-foreground">
+                      Minimum Rp {getMinAmount(pricing, formData.paymentMethod).toLocaleString("id-ID")}
+                    </p>
                   </>
                 )}
                 {formData.paymentMethod === "crypto" && (
@@ -872,6 +904,7 @@ export default function DonatePage() {
                           <span className="font-semibold text-blue-600">
                             Rp {getAmountInIdr().toLocaleString("id-ID")}
                           </span>
+                          <span className="block text-xs text-gray-500">{describeFxRate(fxRate)}</span>
                         </p>
                         <p className="text-gray-600 mt-1">
                           Durasi tampil:{" "}
@@ -937,28 +970,76 @@ export default function DonatePage() {
                       <p className="text-sm text-red-500">{formErrors.mediaUrl}</p>
                     )}
                     <p className="text-sm text-muted-foreground">
-                      Masukkan URL video, gambar, YouTube, TikTok, atau Instagram Reels
+                      Masukkan URL video, gambar, YouTube, TikTok, Instagram, Twitch Clip, atau Streamable
                     </p>
+                    {mediaCheck && !formErrors.mediaUrl && (
+                      mediaCheck.ok && mediaCheck.provider.player === "youtube" ? (
+                        <YouTubeClipPicker
+                          key={mediaCheck.id}
+                          videoId={mediaCheck.id}
+                          label={mediaCheck.provider.label}
+                          startTime={parseClipTime(clipStart)}
+                          endTime={parseClipTime(clipEnd)}
+                          onStartChange={(seconds) => {
+                            setClipStart(formatClipTime(seconds));
+                            if (formErrors.startTime) setFormErrors((p) => ({ ...p, startTime: "" }));
+                          }}
+                          onEndChange={(seconds) => {
+                            setClipEnd(formatClipTime(seconds));
+                            if (formErrors.endTime) setFormErrors((p) => ({ ...p, endTime: "" }));
+                          }}
+                        />
+                      ) : (
+                        <MediaUrlPreview check={mediaCheck} />
+                      )
+                    )}
                   </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="startTime">Start Time (menit, untuk YouTube)</Label>
-                    <Input
-                      id="startTime"
-                      name="startTime"
-                      type="number"
-                      value={startTimeMinutes || ""}
-                      onChange={(e) => {
-                        const minutes = parseInt(e.target.value) || 0;
-                        setStartTimeMinutes(minutes);
-                      }}
-                      min="0"
-                      placeholder="0"
-                    />
-                    <p className="text-sm text-muted-foreground">
-                      Waktu mulai dalam menit (untuk video YouTube, akan dikonversi ke detik saat submit)
-                    </p>
-                  </div>
+                  {supportsClipTime && (
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="startTime">Mulai (mm:ss)</Label>
+                          <Input
+                            id="startTime"
+                            name="startTime"
+                            inputMode="numeric"
+                            value={clipStart}
+                            onChange={(e) => {
+                              setClipStart(e.target.value);
+                              if (formErrors.startTime) setFormErrors((p) => ({ ...p, startTime: "" }));
+                            }}
+                            placeholder="0:00"
+                            className={formErrors.startTime ? "border-red-500 animate-pulse" : ""}
+                          />
+                          {formErrors.startTime && (
+                            <p className="text-sm text-red-500">{formErrors.startTime}</p>
+                          )}
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="endTime">Selesai (mm:ss)</Label>
+                          <Input
+                            id="endTime"
+                            name="endTime"
+                            inputMode="numeric"
+                            value={clipEnd}
+                            onChange={(e) => {
+                              setClipEnd(e.target.value);
+                              if (formErrors.endTime) setFormErrors((p) => ({ ...p, endTime: "" }));
+                            }}
+                            placeholder="Sampai habis"
+                            className={formErrors.endTime ? "border-red-500 animate-pulse" : ""}
+                          />
+                          {formErrors.endTime && (
+                            <p className="text-sm text-red-500">{formErrors.endTime}</p>
+                          )}
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Geser player di atas lalu tekan Jadikan Mulai/Selesai, atau tempel link dengan ?t= untuk mengisi waktu mulai
+                      </p>
+                    </div>
+                  )}
                 </>
               )}
 
@@ -981,6 +1062,13 @@ export default function DonatePage() {
                 {formErrors.message && (
                   <p className="text-sm text-red-500">{formErrors.message}</p>
                 )}
+                {!formErrors.message && !messageFilter.clean && (
+                  <p className="text-sm text-amber-600">
+                    {messageFilter.blockedWords.length > 0
+                      ? `Kata tidak pantas: ${messageFilter.blockedWords.join(", ")}`
+                      : "Link tidak diperbolehkan dalam pesan"}
+                  </p>
+                )}
                 <p className="text-sm text-muted-foreground">
                   {formData.message?.length || 0}/250 karakter
                 </p>
@@ -1546,12 +1634,15 @@ export default function DonatePage() {
                   </span>
                 </div>
                 {formData.paymentMethod === "crypto" && (
-                  <div className="flex justify-between items-center mt-2">
-                    <span className="text-xs text-gray-500">Setara dengan</span>
-                    <span className="text-xs text-gray-500">
-                      Rp {getAmountInIdr().toLocaleString("id-ID")}
-                    </span>
-                  </div>
+                  <>
+                    <div className="flex justify-between items-center mt-2">
+                      <span className="text-xs text-gray-500">Setara dengan</span>
+                      <span className="text-xs text-gray-500">
+                        Rp {getAmountInIdr().toLocaleString("id-ID")}
+                      </span>
+                    </div>
+                    <p className="text-right text-xs text-gray-400 mt-1">{describeFxRate(fxRate)}</p>
+                  </>
                 )}
               </div>
             )}
@@ -0,0 +1,84 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useLeaderboard } from "@/hooks/use-leaderboard";
+import {
+  LEADERBOARD_WINDOWS,
+  LEADERBOARD_WINDOW_LABELS,
+  type LeaderboardWindow,
+} from "@/lib/leaderboard";
+import { formatIdr } from "@/lib/currency";
+
+const LEADERBOARD_SIZE = 10;
+
+export default function LeaderboardPage() {
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("1week");
+  const { entries, loading, error } = useLeaderboard(timeWindow, { limit: LEADERBOARD_SIZE });
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-3xl">Top Donatur</CardTitle>
+            <CardDescription>Terima kasih untuk semua yang sudah mendukung!</CardDescription>
+            <div className="flex flex-wrap gap-2 pt-2">
+              {LEADERBOARD_WINDOWS.map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={option === timeWindow ? "default" : "outline"}
+                  onClick={() => setTimeWindow(option)}
+                >
+                  {LEADERBOARD_WINDOW_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">
+                Error: {error}
+              </div>
+            )}
+
+            {loading && entries.length === 0 ? (
+              <p className="py-8 text-center text-gray-500">Loading...</p>
+            ) : entries.length === 0 ? (
+              <p className="py-8 text-center text-gray-400 text-sm">
+                {timeWindow === "session"
+                  ? "Belum ada donasi sejak halaman ini dibuka"
+                  : "Belum ada donasi pada periode ini"}
+              </p>
+            ) : (
+              <ol className="divide-y divide-gray-100">
+                {entries.map((entry, index) => (
+                  <li key={entry.key} className="flex items-center gap-4 py-3">
+                    <span className={`w-8 text-lg font-bold text-right ${index === 0 ? "text-amber-500" : "text-gray-400"}`}>
+                      #{index + 1}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-gray-900 truncate">{entry.donorName}</p>
+                      <p className="text-xs text-gray-500">
+                        {entry.count} donasi
+                      </p>
+                    </div>
+                    <span className="font-bold text-gray-900 whitespace-nowrap">{formatIdr(entry.total)}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,59 +2,9 @@
 
 import React, { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/router";
-
-interface Payment {
-  id: string;
-  orderId: string;
-  donorName: string;
-  donorEmail?: string;
-  amount: number;
-  totalAmount: number;
-  status: "PENDING" | "SUCCESS" | "FAILED" | "CANCELLED" | "EXPIRED";
-  paymentMethod: string;
-  donationType: "gif" | "text";
-  mediaUrl?: string;
-  mediaType?: string;
-  startTime?: number;
-  message?: string;
-  notes?: string;
-  vaNumber?: string;
-  bankType?: string;
-  qrCodeUrl?: string;
-  redirectUrl?: string;
-  maskedCard?: string;
-  cardType?: string;
-  expiryTime?: string;
-  plisioCurrency?: string;
-  plisioPsysCid?: string;
-  createdAt: string;
-  updatedAt: string;
-  history?: {
-    id: string;
-    type: string;
-    donorName: string;
-    amount: number;
-    message?: string;
-  };
-}
-
-interface WebSocketMessage {
-  type: string;
-  paymentId?: string;
-  orderId?: string;
-  status?: string;
-  vaNumber?: string;
-  bankType?: string;
-  qrCodeUrl?: string;
-  expiryTime?: string;
-  donorName?: string;
-  amount?: number;
-  donationType?: string;
-  message?: string;
-  mediaUrl?: string;
-  mediaType?: string;
-  startTime?: number;
-}
+import { useApi } from "@/components/contex/ApiProvider";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import type { Payment } from "@/types/payment";
 
 export default function PaymentDetailPage() {
   const router = useRouter();
@@ -65,10 +15,8 @@ export default function PaymentDetailPage() {
   const [copied, setCopied] = useState<string | null>(null);
   const [statusChanged, setStatusChanged] = useState(false);
   const [previousStatus, setPreviousStatus] = useState<string | null>(null);
-  const wsRef = React.useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
 
-  const apiBaseUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000";
+  const { client } = useApi();
   const isProduction = process.env.NODE_ENV === "production";
 
   const fetchPayment = useCallback(async () => {
@@ -76,27 +24,16 @@ export default function PaymentDetailPage() {
 
     try {
       setLoading(true);
-      const response = await fetch(`${apiBaseUrl}/payment/${id}`);
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch payment");
-      }
-
-      const data = await response.json();
-      if (data.success) {
-        const paymentData = data.data;
-        setPreviousStatus(paymentData.status);
-        setPayment(paymentData);
-      } else {
-        throw new Error(data.error || "Failed to fetch payment");
-      }
+      const paymentData = await client.payments.get(String(id));
+      setPreviousStatus(paymentData.status);
+      setPayment(paymentData);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
       console.error("Error fetching payment:", err);
     } finally {
       setLoading(false);
     }
-  }, [id, apiBaseUrl]);
+  }, [id, client]);
 
   useEffect(() => {
     fetchPayment();
@@ -109,36 +46,24 @@ export default function PaymentDetailPage() {
     const pollInterval = setInterval(async () => {
       try {
         // Check status from backend (which will check Midtrans API)
-        const response = await fetch(`${apiBaseUrl}/payment/check-status`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ orderId: payment.orderId }),
+        const latest = await client.payments.checkStatus(payment.orderId);
+        setPayment((prev) => {
+          if (!prev) return latest;
+
+          // Check if status changed
+          if (prev.status !== latest.status) {
+            setPreviousStatus(prev.status);
+            setStatusChanged(true);
+            // Reset animation after 1 second
+            setTimeout(() => setStatusChanged(false), 1000);
+          }
+
+          return latest;
         });
 
-        if (response.ok) {
-          const data = await response.json();
-          if (data.success && data.data) {
-            setPayment((prev) => {
-              if (!prev) return data.data;
-              
-              // Check if status changed
-              if (prev.status !== data.data.status) {
-                setPreviousStatus(prev.status);
-                setStatusChanged(true);
-                // Reset animation after 1 second
-                setTimeout(() => setStatusChanged(false), 1000);
-              }
-              
-              return data.data;
-            });
-            
-            // Stop polling if payment is no longer pending
-            if (data.data.status !== "PENDING") {
-              clearInterval(pollInterval);
-            }
-          }
+        // Stop polling if payment is no longer pending
+        if (latest.status !== "PENDING") {
+          clearInterval(pollInterval);
         }
       } catch (error) {
         console.error("Error polling payment status:", error);
@@ -146,143 +71,44 @@ export default function PaymentDetailPage() {
     }, 5000); // Poll every 5 seconds
 
     return () => clearInterval(pollInterval);
-  }, [payment, apiBaseUrl]);
+  }, [payment, client]);
 
   // WebSocket connection for realtime payment status updates
-  useEffect(() => {
-    if (!id || !payment) return;
-
-    const connectWebSocket = () => {
-      const wsProtocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      let wsHost = process.env.NEXT_PUBLIC_WS_HOST || "localhost:5000";
-      // Remove protocol if present (http:// or https://)
-      wsHost = wsHost.replace(/^https?:\/\//, "");
-      const wsUrl = `${wsProtocol}//${wsHost}/ws`;
-
-      try {
-        // Close existing connection if any
-        if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-          console.log("🔄 Closing existing WebSocket connection before reconnecting");
-          wsRef.current.close();
-        }
-
-        const ws = new WebSocket(wsUrl);
-        console.log("🔌 Attempting WebSocket connection for payment status:", wsUrl);
-
-        ws.onopen = () => {
-          console.log("✅ WebSocket connected successfully (payment status)");
-          if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
-            reconnectTimeoutRef.current = null;
-          }
-        };
-
-        ws.onmessage = (event) => {
-          try {
-            const rawData = event.data.toString().trim();
-            if (!rawData) return;
-
-            const messages = rawData.includes('\n') 
-              ? rawData.split('\n').filter((msg: string) => msg.trim())
-              : [rawData];
-            
-            for (const message of messages) {
-              const trimmed = message.trim();
-              if (!trimmed) continue;
-              
-              try {
-                const data: WebSocketMessage = JSON.parse(trimmed);
-
-                // Handle payment status update (match by order ID or payment ID)
-                if (data.type === "payment_status") {
-                  const matchesOrderId = data.orderId && data.orderId === id;
-                  const matchesPaymentId = data.paymentId && payment && payment.id === data.paymentId;
-                  
-                  if (matchesOrderId || matchesPaymentId) {
-                    console.log("📥 Received payment status update via WebSocket:", data);
-                    
-                    setPayment((prev) => {
-                      if (!prev) return prev;
-                      
-                      // Check if status changed
-                      if (prev.status !== data.status) {
-                        setPreviousStatus(prev.status);
-                        setStatusChanged(true);
-                        // Reset animation after 1 second
-                        setTimeout(() => setStatusChanged(false), 1000);
-                      }
-                      
-                      return {
-                        ...prev,
-                        status: data.status as Payment["status"],
-                        vaNumber: data.vaNumber || prev.vaNumber,
-                        bankType: data.bankType || prev.bankType,
-                        qrCodeUrl: data.qrCodeUrl || prev.qrCodeUrl,
-                        expiryTime: data.expiryTime || prev.expiryTime,
-                      };
-                    });
-                  }
-                }
-              } catch {
-                // Skip invalid JSON messages
-                console.warn("Invalid JSON message:", trimmed.substring(0, 100));
-              }
-            }
-          } catch (error) {
-            console.error("Error processing WebSocket message:", error);
-          }
-        };
-
-        ws.onerror = (error) => {
-          console.error("❌ WebSocket error:", error);
-        };
-
-        ws.onclose = (event) => {
-          console.log("🔌 WebSocket closed:", {
-            code: event.code,
-            reason: event.reason,
-            wasClean: event.wasClean,
-          });
-          
-          // Only reconnect if not manually closed and payment is still pending
-          if (event.code !== 1000 && payment?.status === "PENDING") {
-            if (!reconnectTimeoutRef.current) {
-              console.log("🔄 Scheduling WebSocket reconnection in 3 seconds...");
-              reconnectTimeoutRef.current = setTimeout(() => {
-                connectWebSocket();
-              }, 3000);
-            }
+  // Only connect WebSocket if payment is pending
+  useDonationSocket(
+    {
+      payment_status: (data) => {
+        // Handle payment status update (match by order ID or payment ID)
+        const matchesOrderId = data.orderId && data.orderId === id;
+        const matchesPaymentId = data.paymentId && payment && payment.id === data.paymentId;
+        if (!matchesOrderId && !matchesPaymentId) return;
+
+        console.log("📥 Received payment status update via WebSocket:", data);
+
+        setPayment((prev) => {
+          if (!prev) return prev;
+
+          // Check if status changed
+          if (prev.status !== data.status) {
+            setPreviousStatus(prev.status);
+            setStatusChanged(true);
+            // Reset animation after 1 second
+            setTimeout(() => setStatusChanged(false), 1000);
           }
-        };
-
-        wsRef.current = ws;
-      } catch (error) {
-        console.error("❌ WebSocket connection failed:", error);
-        // Retry connection after 3 seconds if payment is pending
-        if (payment?.status === "PENDING" && !reconnectTimeoutRef.current) {
-          reconnectTimeoutRef.current = setTimeout(() => {
-            console.log("🔄 Retrying WebSocket connection...");
-            connectWebSocket();
-          }, 3000);
-        }
-      }
-    };
-
-    // Only connect WebSocket if payment is pending
-    if (payment && payment.status === "PENDING") {
-      connectWebSocket();
-    }
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [id, payment?.status]);
+          return {
+            ...prev,
+            status: data.status,
+            vaNumber: data.vaNumber || prev.vaNumber,
+            bankType: data.bankType || prev.bankType,
+            qrCodeUrl: data.qrCodeUrl || prev.qrCodeUrl,
+            expiryTime: data.expiryTime || prev.expiryTime,
+          };
+        });
+      },
+    },
+    { enabled: !!id && payment?.status === "PENDING" }
+  );
 
   const formatAmount = (amount: number): string => {
     return `Rp${amount.toLocaleString("id-ID")}`;
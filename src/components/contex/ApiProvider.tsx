@@ -1,9 +1,15 @@
-import React, { createContext, useContext } from 'react';
-import { useSession } from 'next-auth/react';
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
+import { signOut, useSession } from 'next-auth/react';
+import { createApiClient, type ApiClient } from '@/lib/api-client';
+import { getRoutePermission, normalizeRole, type Role } from '@/lib/permissions';
 
 interface ApiContextType {
   isAuthenticated: boolean;
   accessToken: string | null;
+  // null when logged out or the account has no admin role
+  role: Role | null;
+  // Backend client that sends accessToken on admin calls
+  client: ApiClient;
 }
 
 const ApiContext = createContext<ApiContextType | undefined>(undefined);
@@ -24,10 +30,31 @@ export const ApiProvider: React.FC<ApiProviderProps> = ({ children }) => {
   const { data: session, status } = useSession();
   const isAuthenticated = status === 'authenticated' && !!session;
   const accessToken = session?.accessToken || null;
+  const role = normalizeRole(session?.userType || session?.user?.role);
+  const client = useMemo(() => createApiClient({ accessToken }), [accessToken]);
+  const sessionError = session?.error;
+
+  // Refresh token was rejected: drop the session, and force a fresh login only
+  // on pages that need one (never on public pages like the OBS overlays)
+  useEffect(() => {
+    if (sessionError !== 'RefreshAccessTokenError') return;
+
+    if (!getRoutePermission(window.location.pathname)) {
+      signOut({ redirect: false });
+      return;
+    }
+
+    const callbackUrl = window.location.pathname + window.location.search;
+    signOut({
+      callbackUrl: `/auth/login?error=SessionExpired&callbackUrl=${encodeURIComponent(callbackUrl)}`,
+    });
+  }, [sessionError]);
 
   const value: ApiContextType = {
     isAuthenticated,
     accessToken,
+    role,
+    client,
   };
 
   return (
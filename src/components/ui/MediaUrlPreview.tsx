@@ -0,0 +1,61 @@
+"use client";
+
+import React from "react";
+import Image from "next/image";
+import type { MediaUrlCheck } from "@/lib/media-providers";
+
+interface MediaUrlPreviewProps {
+  check: MediaUrlCheck;
+}
+
+// Live preview under the donation form's Media URL field: detected type plus a
+// thumbnail or muted embed, or the reason the link can't be played.
+export const MediaUrlPreview: React.FC<MediaUrlPreviewProps> = ({ check }) => {
+  if (!check.ok) {
+    return (
+      <div className="p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">{check.reason}</div>
+    );
+  }
+
+  const { provider, id } = check;
+
+  const renderMedia = () => {
+    if (provider.thumbnailUrl) {
+      return <Image src={provider.thumbnailUrl(id)} alt="Preview media" fill className="object-contain" unoptimized />;
+    }
+
+    if (provider.player === "video") {
+      return (
+        <video
+          src={provider.embedUrl(id)}
+          muted
+          controls
+          playsInline
+          preload="metadata"
+          className="w-full h-full object-contain bg-black"
+        />
+      );
+    }
+
+    return (
+      <iframe
+        src={provider.embedUrl(id, { autoplay: false, muted: true, parent: window.location.hostname })}
+        className="w-full h-full"
+        allow="encrypted-media"
+        style={{ border: "none" }}
+        scrolling="no"
+      />
+    );
+  };
+
+  return (
+    <div className="rounded-md border border-gray-200 overflow-hidden">
+      <div className="relative aspect-video bg-gray-100">{renderMedia()}</div>
+      <div className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+        <span className="text-muted-foreground">Terdeteksi</span>
+        <span className="font-medium">{provider.label}</span>
+      </div>
+      {provider.note && <p className="px-3 pb-2 text-xs text-muted-foreground">{provider.note}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+"use client";
+
+import React from "react";
+import { donationAmountToIdr, formatDonationAmount, formatIdr } from "@/lib/currency";
+import { describeFxRate } from "@/lib/fx-rate";
+import type { FxRate } from "@/types/pricing";
+
+interface OverlayAmountProps {
+  amount: number;
+  paymentMethod?: string;
+  plisioAmount?: string;
+  plisioCurrency?: string;
+  // Crypto amounts only get an IDR equivalent when a rate is known
+  fxRate?: FxRate | null;
+  color: string;
+  mutedClassName: string;
+}
+
+// Amount on the alert overlays: IDR for fiat donations; for crypto the coin
+// amount (USD when Plisio didn't send one) followed by "(≈ Rp… · Kurs …)".
+export const OverlayAmount: React.FC<OverlayAmountProps> = ({
+  amount,
+  paymentMethod,
+  plisioAmount,
+  plisioCurrency,
+  fxRate,
+  color,
+  mutedClassName,
+}) => {
+  const cryptoAmount = plisioAmount ? parseFloat(plisioAmount) : NaN;
+  const formatted = formatDonationAmount(amount, paymentMethod, {
+    amount: Number.isFinite(cryptoAmount) ? cryptoAmount : undefined,
+    currency: plisioCurrency,
+  });
+
+  return (
+    <>
+      <span style={{ color }}>{formatted}</span>
+      {paymentMethod === "crypto" && fxRate && fxRate.rate > 0 && (
+        <>
+          {" "}
+          <span className={mutedClassName}>
+            (≈ {formatIdr(donationAmountToIdr(amount, "crypto", fxRate.rate))} · {describeFxRate(fxRate)})
+          </span>
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,90 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import type { NowPlaying, QueueControlAction } from "@/hooks/use-queue-controls";
+import { formatDonationAmount } from "@/lib/currency";
+
+interface QueueControlPanelProps {
+  nowPlaying: NowPlaying | null;
+  pendingAction: QueueControlAction | null;
+  onSkip: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  // Large touch targets for the phone remote
+  size?: "default" | "lg";
+}
+
+// Now-playing card with skip and pause/resume, shared by history and remote pages.
+export const QueueControlPanel: React.FC<QueueControlPanelProps> = ({
+  nowPlaying,
+  pendingAction,
+  onSkip,
+  onPause,
+  onResume,
+  size = "default",
+}) => {
+  const isLarge = size === "lg";
+  const buttonClass = isLarge ? "flex-1 h-14 text-base" : "";
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Now playing</p>
+        {nowPlaying?.paused && (
+          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-50 text-amber-700">
+            Paused
+          </span>
+        )}
+      </div>
+
+      {nowPlaying ? (
+        <div className="mb-3">
+          <p className={`${isLarge ? "text-lg" : "text-base"} font-semibold text-gray-900 truncate`}>
+            {nowPlaying.donorName} ·{" "}
+            {formatDonationAmount(nowPlaying.amount, nowPlaying.paymentMethod, {
+              amount: nowPlaying.plisioAmount ? parseFloat(nowPlaying.plisioAmount) : undefined,
+              currency: nowPlaying.plisioCurrency,
+            })}
+          </p>
+          {nowPlaying.message && (
+            <p className="text-sm text-gray-600 line-clamp-2">{nowPlaying.message}</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 mb-3">Tidak ada donasi yang sedang tampil</p>
+      )}
+
+      <div className={`flex gap-2 ${isLarge ? "w-full" : ""}`}>
+        {/* Paused state is unknown until a frame arrives, so offer both then */}
+        {(!nowPlaying || !nowPlaying.paused) && (
+          <Button
+            className={buttonClass}
+            variant="outline"
+            onClick={onPause}
+            disabled={pendingAction !== null}
+          >
+            {pendingAction === "pause" ? "Pausing..." : "Pause"}
+          </Button>
+        )}
+        {(!nowPlaying || nowPlaying.paused) && (
+          <Button
+            className={buttonClass}
+            onClick={onResume}
+            disabled={pendingAction !== null}
+          >
+            {pendingAction === "resume" ? "Resuming..." : "Resume"}
+          </Button>
+        )}
+        <Button
+          className={buttonClass}
+          variant="destructive"
+          onClick={onSkip}
+          disabled={pendingAction !== null}
+        >
+          {pendingAction === "skip" ? "Skipping..." : "Skip"}
+        </Button>
+      </div>
+    </div>
+  );
+};
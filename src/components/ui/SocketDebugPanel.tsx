@@ -0,0 +1,40 @@
+"use client";
+
+import React from "react";
+import { useSearchParams } from "next/navigation";
+import { useDonationSocketStats } from "@/hooks/use-donation-socket";
+
+// Frame counters for the overlay WebSocket, shown only with ?debug=1
+// so it never appears in the OBS browser source by accident.
+export const SocketDebugPanel: React.FC = () => {
+  const searchParams = useSearchParams();
+  const enabled = searchParams?.get("debug") === "1";
+  const stats = useDonationSocketStats({ enabled });
+
+  if (!enabled) return null;
+
+  return (
+    <div className="fixed bottom-2 right-2 z-50 w-80 max-h-[50vh] overflow-y-auto rounded-lg bg-black/90 p-3 font-mono text-xs text-zinc-200 shadow-2xl">
+      <div className="mb-2 font-semibold text-white">WebSocket debug</div>
+      <div className="flex gap-4">
+        <span className="text-green-400">accepted {stats.accepted}</span>
+        <span className="text-red-400">rejected {stats.rejected}</span>
+        <span className="text-zinc-400">ignored {stats.ignored}</span>
+      </div>
+
+      {stats.recentRejections.length > 0 && (
+        <ul className="mt-2 space-y-2 border-t border-zinc-700 pt-2">
+          {stats.recentRejections.map((rejection, index) => (
+            <li key={`${rejection.at}-${index}`} className="break-all">
+              <div className="text-zinc-500">
+                {new Date(rejection.at).toLocaleTimeString("id-ID")}
+              </div>
+              <div className="text-red-300">{rejection.reason}</div>
+              <div className="text-zinc-400">{rejection.raw}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { useYouTubePlayer } from "@/hooks/use-youtube-player";
+import { formatClipTime } from "@/lib/clip-time";
+
+interface YouTubeClipPickerProps {
+  videoId: string;
+  label: string;
+  startTime: number | null; // Seconds, null while the input is empty or invalid
+  endTime: number | null;
+  onStartChange: (seconds: number) => void;
+  onEndChange: (seconds: number) => void;
+}
+
+// Preview player for YouTube media share: scrub to a position and mark it as
+// the clip's start or end. Render with `key={videoId}` so a new link remounts.
+export const YouTubeClipPicker: React.FC<YouTubeClipPickerProps> = ({
+  videoId,
+  label,
+  startTime,
+  endTime,
+  onStartChange,
+  onEndChange,
+}) => {
+  const { containerRef, ready, error, duration, currentTime, seekTo, play } = useYouTubePlayer(videoId, {
+    startTime: startTime ?? 0,
+  });
+
+  const clipStart = startTime ?? 0;
+  const clipEnd = endTime ?? duration;
+  const toPercent = (seconds: number) => (duration > 0 ? Math.min(100, (seconds / duration) * 100) : 0);
+
+  return (
+    <div className="rounded-md border border-gray-200 overflow-hidden">
+      <div ref={containerRef} className="relative aspect-video bg-black" />
+      {error && (
+        <div className="m-3 mb-0 p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">{error}</div>
+      )}
+      <div className="px-3 pt-3 space-y-2">
+        <div className="relative h-2 rounded-full bg-gray-200">
+          {/* Selected clip */}
+          <div
+            className="absolute h-full rounded-full bg-red-500"
+            style={{ left: `${toPercent(clipStart)}%`, width: `${Math.max(0, toPercent(clipEnd) - toPercent(clipStart))}%` }}
+          />
+        </div>
+        <input
+          type="range"
+          aria-label="Posisi video"
+          min={0}
+          max={Math.max(1, Math.floor(duration))}
+          step={1}
+          value={Math.floor(currentTime)}
+          onChange={(e) => seekTo(Number(e.target.value))}
+          disabled={!ready}
+          className="w-full accent-red-500"
+        />
+        <div className="flex items-center justify-between text-xs text-muted-foreground tabular-nums">
+          <span>
+            {formatClipTime(currentTime)} / {formatClipTime(duration)}
+          </span>
+          <span>
+            Klip {formatClipTime(clipStart)} - {formatClipTime(clipEnd)}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2 pb-1">
+          <Button type="button" size="sm" variant="outline" disabled={!ready} onClick={() => onStartChange(Math.floor(currentTime))}>
+            Jadikan Mulai
+          </Button>
+          <Button type="button" size="sm" variant="outline" disabled={!ready} onClick={() => onEndChange(Math.ceil(currentTime))}>
+            Jadikan Selesai
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={!ready}
+            onClick={() => {
+              seekTo(clipStart);
+              play();
+            }}
+          >
+            Putar dari Mulai
+          </Button>
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+        <span className="text-muted-foreground">Terdeteksi</span>
+        <span className="font-medium">{label}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useApi } from "@/components/contex/ApiProvider";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import {
+  buildDonationAnalytics,
+  fromHistory,
+  fromHistoryMessage,
+  getRangeBounds,
+  type AnalyticsDonation,
+  type AnalyticsRange,
+} from "@/lib/donation-analytics";
+import { fetchDonationHistory } from "@/lib/donation-history";
+import { resolveUsdToIdrRate } from "@/lib/fx-rate";
+
+/**
+ * Revenue analytics for a date range: pages through /hit/history back to
+ * the start of the range, then adds live `history` socket frames so the
+ * dashboard updates while streaming.
+ */
+export function useDonationAnalytics(range: AnalyticsRange, { enabled = true }: { enabled?: boolean } = {}) {
+  const { client } = useApi();
+  const [donations, setDonations] = useState<AnalyticsDonation[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { start: since } = getRangeBounds(range);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [history, usdToIdrRate] = await Promise.all([
+          fetchDonationHistory(client, { since }),
+          resolveUsdToIdrRate(client),
+        ]);
+        if (cancelled) return;
+        setDonations((prev) => {
+          const loaded = history.map((donation) => fromHistory(donation, usdToIdrRate));
+          const loadedIds = new Set(loaded.map((donation) => donation.id));
+          // Keep live donations that arrived while history was loading
+          return [...loaded, ...prev.filter((donation) => !loadedIds.has(donation.id))];
+        });
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Unknown error");
+        console.error("Error loading analytics history:", err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, since, enabled]);
+
+  useDonationSocket(
+    {
+      history: (data) => {
+        // Same rate source as the history load, not the config fallback
+        resolveUsdToIdrRate(client).then((usdToIdrRate) => {
+          setDonations((prev) =>
+            prev.some((donation) => donation.id === data.id) ? prev : [...prev, fromHistoryMessage(data, usdToIdrRate)]
+          );
+        });
+      },
+    },
+    { enabled }
+  );
+
+  const analytics = useMemo(() => buildDonationAnalytics(donations, range), [donations, range]);
+
+  return { analytics, loading, error };
+}
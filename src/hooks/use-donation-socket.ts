@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  acquireDonationSocket,
+  getSharedDonationSocket,
+  releaseDonationSocket,
+} from "@/lib/donation-socket";
+import type {
+  DonationSocketMessageOf,
+  DonationSocketMessageType,
+  DonationSocketStats,
+  DonationSocketStatus,
+} from "@/types/socket";
+
+export type DonationSocketHandlers = {
+  [K in DonationSocketMessageType]?: (message: DonationSocketMessageOf<K>) => void;
+};
+
+interface UseDonationSocketOptions {
+  // Connect only while true (e.g. payment page connects only while PENDING)
+  enabled?: boolean;
+}
+
+/**
+ * Subscribe the current component to backend /ws messages by type.
+ * Pages declare only the messages they care about; the connection, frame
+ * splitting, reconnect backoff and heartbeat live in lib/donation-socket.
+ */
+export function useDonationSocket(
+  handlers: DonationSocketHandlers,
+  { enabled = true }: UseDonationSocketOptions = {}
+) {
+  // Another component may already have the shared socket open
+  const [status, setStatus] = useState<DonationSocketStatus>(
+    () => getSharedDonationSocket()?.getStatus() ?? "idle"
+  );
+  const handlersRef = useRef(handlers);
+
+  // Keep latest handlers so callbacks always see current state
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const subscribedTypes = (Object.keys(handlers) as DonationSocketMessageType[])
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const socket = acquireDonationSocket();
+    const types = subscribedTypes.split(",").filter(Boolean) as DonationSocketMessageType[];
+    const unsubscribers = types.map((type) =>
+      socket.subscribe(type, (message) => {
+        const handler = handlersRef.current[type] as
+          | ((message: DonationSocketMessageOf<typeof type>) => void)
+          | undefined;
+        handler?.(message);
+      })
+    );
+    // Also reports the current status, e.g. a fresh socket already connecting
+    const unsubscribeStatus = socket.onStatusChange(setStatus);
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      unsubscribeStatus();
+      releaseDonationSocket();
+    };
+  }, [enabled, subscribedTypes]);
+
+  return { status };
+}
+
+const EMPTY_STATS: DonationSocketStats = {
+  accepted: 0,
+  rejected: 0,
+  ignored: 0,
+  recentRejections: [],
+};
+
+/**
+ * Accepted / rejected frame counters of the shared socket, for debug panels.
+ */
+export function useDonationSocketStats({ enabled = true }: UseDonationSocketOptions = {}) {
+  // The socket may have been running before this panel mounted
+  const [stats, setStats] = useState<DonationSocketStats>(
+    () => getSharedDonationSocket()?.getStats() ?? EMPTY_STATS
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const socket = acquireDonationSocket();
+    const unsubscribe = socket.onStatsChange(setStats);
+
+    return () => {
+      unsubscribe();
+      releaseDonationSocket();
+    };
+  }, [enabled]);
+
+  return stats;
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useApi } from "@/components/contex/ApiProvider";
+import { usePricing } from "@/hooks/use-pricing";
+import { configFxRate, loadFxRate } from "@/lib/fx-rate";
+import type { FxRate } from "@/types/pricing";
+
+// Cache hits are free, so poll well inside the TTL to pick up new quotes promptly
+const FX_RATE_POLL_MS = 60 * 1000;
+
+/**
+ * USD→IDR rate for crypto amounts: the backend's live quote, refreshed once
+ * the cached one expires, or the pricing config's rate while there is none.
+ * A failed refresh keeps the previous quote until it goes stale.
+ */
+export function useFxRate(): FxRate {
+  const { client } = useApi();
+  const pricing = usePricing();
+  const [liveRate, setLiveRate] = useState<FxRate | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      loadFxRate(client).then((rate) => {
+        // loadFxRate() already falls back to the last quote that isn't stale
+        if (!cancelled) setLiveRate(rate);
+      });
+    };
+    refresh();
+    const interval = setInterval(refresh, FX_RATE_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [client]);
+
+  return liveRate ?? configFxRate(pricing);
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useApi } from "@/components/contex/ApiProvider";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import { fetchDonationHistory } from "@/lib/donation-history";
+import { resolveUsdToIdrRate } from "@/lib/fx-rate";
+import {
+  buildLeaderboard,
+  fromHistory,
+  fromHistoryMessage,
+  type LeaderboardDonation,
+  type LeaderboardWindow,
+} from "@/lib/leaderboard";
+import { getTimeWindowStart } from "@/lib/time-window";
+
+interface UseLeaderboardOptions {
+  limit: number;
+  enabled?: boolean;
+}
+
+/**
+ * Top donors for a time window: loads past donations from /hit/history once,
+ * then keeps the ranking live from `history` socket frames. The session
+ * window starts when this hook mounts.
+ */
+export function useLeaderboard(
+  timeWindow: LeaderboardWindow,
+  { limit, enabled = true }: UseLeaderboardOptions
+) {
+  const [sessionStart] = useState<number>(() => Date.now());
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [donations, setDonations] = useState<LeaderboardDonation[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { client } = useApi();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const since = getTimeWindowStart(timeWindow, { sessionStart });
+        const [history, usdToIdrRate] = await Promise.all([
+          fetchDonationHistory(client, { since }),
+          resolveUsdToIdrRate(client),
+        ]);
+        if (cancelled) return;
+        setDonations((prev) => {
+          const loaded = history.map((donation) => fromHistory(donation, usdToIdrRate));
+          const loadedIds = new Set(loaded.map((donation) => donation.id));
+          // Keep live donations that arrived while history was loading
+          return [...loaded, ...prev.filter((donation) => !loadedIds.has(donation.id))];
+        });
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Unknown error");
+        console.error("Error loading leaderboard history:", err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, timeWindow, sessionStart, enabled]);
+
+  useDonationSocket(
+    {
+      history: (data) => {
+        // Same rate source as the history load, not the config fallback
+        resolveUsdToIdrRate(client).then((usdToIdrRate) => {
+          setDonations((prev) =>
+            prev.some((donation) => donation.id === data.id)
+              ? prev
+              : [...prev, fromHistoryMessage(data, usdToIdrRate)]
+          );
+        });
+      },
+    },
+    { enabled }
+  );
+
+  // Slide rolling windows forward
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const entries = useMemo(
+    () => buildLeaderboard(donations, timeWindow, { now, sessionStart }).slice(0, limit),
+    [donations, timeWindow, now, sessionStart, limit]
+  );
+
+  return { entries, loading, error };
+}
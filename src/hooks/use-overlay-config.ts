@@ -0,0 +1,16 @@
+"use client";
+
+import { useMemo } from "react";
+import { useSearchParams } from "next/navigation";
+import { parseOverlayConfig, type OverlayKind } from "@/lib/overlay-config";
+
+/**
+ * Overlay config for the current page, read from the URL query.
+ * Re-parses only when the query string changes.
+ */
+export function useOverlayConfig(kind: OverlayKind) {
+  const searchParams = useSearchParams();
+  const query = searchParams?.toString() ?? "";
+
+  return useMemo(() => parseOverlayConfig(kind, new URLSearchParams(query)), [kind, query]);
+}
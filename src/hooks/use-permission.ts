@@ -0,0 +1,13 @@
+"use client";
+
+import { useApi } from "@/components/contex/ApiProvider";
+import { hasPermission, type Permission } from "@/lib/permissions";
+
+/**
+ * Whether the signed-in user's role grants a permission. False while the
+ * session is loading, so gated actions appear once it resolves.
+ */
+export function usePermission(permission: Permission): boolean {
+  const { role } = useApi();
+  return hasPermission(role, permission);
+}
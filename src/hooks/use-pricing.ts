@@ -0,0 +1,27 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useApi } from "@/components/contex/ApiProvider";
+import { DEFAULT_PRICING, loadPricing } from "@/lib/pricing";
+import type { PricingConfig } from "@/types/pricing";
+
+/**
+ * Pricing config from the backend, shared across the page. Returns the
+ * defaults until it loads so durations can be shown right away.
+ */
+export function usePricing(): PricingConfig {
+  const { client } = useApi();
+  const [pricing, setPricing] = useState<PricingConfig>(DEFAULT_PRICING);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPricing(client).then((config) => {
+      if (!cancelled) setPricing(config);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  return pricing;
+}
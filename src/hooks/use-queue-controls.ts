@@ -0,0 +1,113 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useApi } from "@/components/contex/ApiProvider";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+
+export type QueueControlAction = "skip" | "pause" | "resume" | "replay";
+
+export interface NowPlaying {
+  id: string;
+  donorName: string;
+  amount: number; // IDR, or USD cents for crypto
+  paymentMethod?: string;
+  plisioCurrency?: string;
+  plisioAmount?: string;
+  message?: string;
+  paused: boolean;
+}
+
+/**
+ * Admin controls for the donation currently on stream (skip, pause/resume)
+ * and replaying past donations. "Now playing" is tracked from the same
+ * socket frames the overlays receive, so every open remote stays in sync.
+ */
+export function useQueueControls() {
+  const { client, accessToken } = useApi();
+  const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(null);
+  const [pendingAction, setPendingAction] = useState<QueueControlAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useDonationSocket(
+    {
+      donation: (data) => {
+        setNowPlaying({
+          id: data.id,
+          donorName: data.donorName,
+          amount: data.amount,
+          paymentMethod: data.paymentMethod,
+          plisioCurrency: data.plisioCurrency,
+          plisioAmount: data.plisioAmount,
+          message: data.message,
+          paused: false,
+        });
+      },
+      visibility: (data) => {
+        // Server ends a donation with visible:false for its id
+        if (!data.visible) {
+          setNowPlaying((prev) => (prev && (!data.id || prev.id === data.id) ? null : prev));
+        }
+      },
+      control: (data) => {
+        setNowPlaying((prev) => {
+          if (!prev || (data.id && data.id !== prev.id)) return prev;
+          if (data.action === "skip") return null;
+          return { ...prev, paused: data.action === "pause" };
+        });
+      },
+      clear_queue: () => {
+        setNowPlaying(null);
+      },
+    },
+    { enabled: !!accessToken }
+  );
+
+  const sendControl = useCallback(
+    async (action: QueueControlAction, request: () => Promise<void>, successMessage: string) => {
+      try {
+        setPendingAction(action);
+        setError(null);
+        setMessage(null);
+
+        await request();
+
+        setMessage(successMessage);
+        setTimeout(() => {
+          setMessage(null);
+        }, 3000);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+        console.error(`Error sending ${action}:`, err);
+        return false;
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    []
+  );
+
+  const skip = useCallback(
+    () => sendControl("skip", client.queue.skip, "Donasi saat ini dilewati"),
+    [sendControl, client]
+  );
+
+  const pause = useCallback(
+    () => sendControl("pause", client.queue.pause, "Donasi dijeda"),
+    [sendControl, client]
+  );
+
+  const resume = useCallback(
+    () => sendControl("resume", client.queue.resume, "Donasi dilanjutkan"),
+    [sendControl, client]
+  );
+
+  const replay = useCallback(
+    (id: string) =>
+      sendControl("replay", () => client.queue.replay(id), "Donasi dimasukkan ulang ke antrian"),
+    [sendControl, client]
+  );
+
+  return { nowPlaying, pendingAction, error, message, skip, pause, resume, replay };
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Countdown that gates "resend code" buttons so the backend isn't asked for
+ * a new OTP on every click. `startActive` begins counting on mount, for pages
+ * reached right after a code was sent.
+ */
+export function useResendCooldown(seconds: number, { startActive = false }: { startActive?: boolean } = {}) {
+  const [until, setUntil] = useState<number>(() => (startActive ? Date.now() + seconds * 1000 : 0));
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  const remaining = Math.max(0, Math.ceil((until - now) / 1000));
+  const active = remaining > 0;
+
+  useEffect(() => {
+    if (!active) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  const start = useCallback(() => {
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setUntil(startedAt + seconds * 1000);
+  }, [seconds]);
+
+  return { remaining, active, start };
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useApi } from "@/components/contex/ApiProvider";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import { getSubathonRemaining, type SubathonState } from "@/lib/subathon";
+
+export interface SubathonExtension {
+  id: number;
+  addedMs: number;
+  donorName?: string;
+}
+
+interface UseSubathonOptions {
+  enabled?: boolean;
+  // Sample timer that gets extended every few seconds, for the settings preview
+  preview?: boolean;
+}
+
+const PREVIEW_LENGTH_MS = 2 * 60 * 60 * 1000;
+const PREVIEW_EXTENSION_MS = 5 * 60 * 1000;
+
+/**
+ * Current subathon state: loaded from GET /hit/subathon, then kept in sync
+ * from `subathon` socket frames. Ticks every second while running and
+ * exposes the latest extension so overlays can animate it.
+ */
+export function useSubathon({ enabled = true, preview = false }: UseSubathonOptions = {}) {
+  const [state, setState] = useState<SubathonState | null>(null);
+  const [lastExtension, setLastExtension] = useState<SubathonExtension | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  const { client } = useApi();
+  const live = enabled && !preview;
+
+  useEffect(() => {
+    if (!live) return;
+
+    let cancelled = false;
+    const fetchState = async () => {
+      try {
+        const subathon = await client.subathon.get();
+        if (!cancelled) {
+          setState(subathon);
+        }
+      } catch (err) {
+        console.error("Error fetching subathon state:", err);
+      }
+    };
+
+    fetchState();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, live]);
+
+  useDonationSocket(
+    {
+      subathon: (data) => {
+        console.log("⏱️ Subathon update:", { status: data.status, reason: data.reason, addedMs: data.addedMs });
+        setState({
+          status: data.status,
+          startedAt: data.startedAt,
+          endsAt: data.endsAt,
+          remainingMs: data.remainingMs,
+          secondsPer1000: data.secondsPer1000,
+          totalMs: data.totalMs,
+          capMs: data.capMs,
+        });
+        setNow(Date.now());
+        if (data.addedMs && (data.reason === "donation" || data.reason === "manual")) {
+          setLastExtension({ id: Date.now(), addedMs: data.addedMs, donorName: data.donorName });
+        }
+      },
+    },
+    { enabled: live }
+  );
+
+  useEffect(() => {
+    if (!enabled || !preview) return;
+
+    const timeout = setTimeout(() => {
+      const start = Date.now();
+      setState({
+        status: "running",
+        startedAt: new Date(start).toISOString(),
+        endsAt: new Date(start + PREVIEW_LENGTH_MS).toISOString(),
+        remainingMs: PREVIEW_LENGTH_MS,
+        secondsPer1000: 10,
+        totalMs: PREVIEW_LENGTH_MS,
+      });
+    }, 0);
+    const interval = setInterval(() => {
+      setState((prev) =>
+        prev && {
+          ...prev,
+          endsAt: new Date(new Date(prev.endsAt).getTime() + PREVIEW_EXTENSION_MS).toISOString(),
+          totalMs: prev.totalMs + PREVIEW_EXTENSION_MS,
+        }
+      );
+      setLastExtension({ id: Date.now(), addedMs: PREVIEW_EXTENSION_MS, donorName: "Budi" });
+    }, 6000);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [enabled, preview]);
+
+  // Tick while running
+  useEffect(() => {
+    if (state?.status !== "running") return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state?.status]);
+
+  const remainingMs = state ? getSubathonRemaining(state, now) : 0;
+
+  return { state, setState, remainingMs, lastExtension };
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loadYouTubeIframeApi } from "@/lib/youtube-iframe-api";
+
+const POSITION_POLL_MS = 250;
+
+/**
+ * Mounts a YouTube player inside `containerRef` and tracks its duration and
+ * playback position, for picking a clip before donating. Remount (e.g. with
+ * a `key`) to switch videos.
+ */
+export function useYouTubePlayer(videoId: string, { startTime = 0 }: { startTime?: number } = {}) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const playerRef = useRef<YT.Player | null>(null);
+  const [ready, setReady] = useState<boolean>(false);
+  const [duration, setDuration] = useState<number>(0);
+  const [currentTime, setCurrentTime] = useState<number>(startTime);
+  const [error, setError] = useState<string | null>(null);
+  // Only the first start time matters; later changes seek instead
+  const initialStartRef = useRef<number>(startTime);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // The API replaces its target element, so give it one React doesn't own
+    const target = document.createElement("div");
+    container.appendChild(target);
+
+    let cancelled = false;
+    loadYouTubeIframeApi()
+      .then((yt) => {
+        if (cancelled) return;
+        playerRef.current = new yt.Player(target, {
+          videoId,
+          width: "100%",
+          height: "100%",
+          playerVars: {
+            autoplay: 0,
+            controls: 1,
+            rel: 0,
+            modestbranding: 1,
+            playsinline: 1,
+            start: initialStartRef.current,
+          },
+          events: {
+            onReady: (event) => {
+              if (cancelled) return;
+              setDuration(event.target.getDuration());
+              setReady(true);
+            },
+          },
+        });
+      })
+      .catch((err) => {
+        console.error("Error loading YouTube IFrame API:", err);
+        if (!cancelled) setError("Player YouTube gagal dimuat. Waktu mulai/selesai tetap bisa diisi manual.");
+      });
+
+    const interval = setInterval(() => {
+      const player = playerRef.current;
+      if (player && typeof player.getCurrentTime === "function") {
+        setCurrentTime(player.getCurrentTime());
+      }
+    }, POSITION_POLL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      try {
+        playerRef.current?.destroy();
+      } catch (e) {
+        console.warn("Error destroying YouTube player:", e);
+      }
+      playerRef.current = null;
+      container.replaceChildren();
+    };
+  }, [videoId]);
+
+  const seekTo = useCallback((seconds: number) => {
+    playerRef.current?.seekTo(seconds, true);
+    setCurrentTime(seconds);
+  }, []);
+
+  const play = useCallback(() => {
+    playerRef.current?.playVideo();
+  }, []);
+
+  return { containerRef, ready, error, duration, currentTime, seekTo, play };
+}
@@ -0,0 +1,80 @@
+import { z } from "zod";
+
+// Amount-based alert tiers for the text and media overlays. Like goals they
+// travel JSON-encoded in the overlay URL (`tiers` param). The highest tier
+// whose minAmount the donation reaches wins; amounts are compared in IDR.
+
+export const ALERT_ANIMATIONS = ["slide", "fade", "zoom", "bounce", "spin", "pulse"] as const;
+
+export type AlertAnimation = (typeof ALERT_ANIMATIONS)[number];
+
+export const ALERT_ANIMATION_LABELS: Record<AlertAnimation, string> = {
+  slide: "Slide",
+  fade: "Fade",
+  zoom: "Zoom",
+  bounce: "Bounce",
+  spin: "Spin",
+  pulse: "Pulse",
+};
+
+// Entrance animations from tw-animate-css; bounce/pulse keep going while shown
+export const ALERT_ANIMATION_CLASSES: Record<AlertAnimation, string> = {
+  slide: "animate-in fade-in slide-in-from-bottom-8 duration-500",
+  fade: "animate-in fade-in duration-700",
+  zoom: "animate-in fade-in zoom-in-50 duration-500",
+  bounce: "animate-bounce",
+  spin: "animate-in fade-in spin-in-12 zoom-in-75 duration-700",
+  pulse: "animate-pulse",
+};
+
+export const alertTierSchema = z.object({
+  id: z.string().min(1),
+  minAmount: z.number().int().nonnegative(),
+  animation: z.enum(ALERT_ANIMATIONS),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a #RRGGBB color"),
+  // Empty uses the overlay's own sound
+  soundUrl: z.string(),
+  // Seconds on screen for text alerts; 0 uses the overlay duration
+  duration: z.number().int().min(0).max(600),
+  // Optional GIF/image shown with the alert
+  imageUrl: z.string(),
+});
+
+export type AlertTier = z.infer<typeof alertTierSchema>;
+
+const alertTiersSchema = z.array(alertTierSchema).max(6);
+
+export function parseAlertTiers(raw: string): AlertTier[] {
+  if (!raw) return [];
+  try {
+    const result = alertTiersSchema.safeParse(JSON.parse(raw));
+    if (result.success) return result.data;
+    console.warn("Invalid alert tiers:", result.error.issues);
+  } catch (error) {
+    console.warn("Failed to parse alert tiers:", error);
+  }
+  return [];
+}
+
+export function encodeAlertTiers(tiers: AlertTier[]): string {
+  return tiers.length > 0 ? JSON.stringify(tiers) : "";
+}
+
+export function createAlertTier(minAmount: number = 10000): AlertTier {
+  return {
+    id: `tier-${Date.now().toString(36)}`,
+    minAmount,
+    animation: "zoom",
+    color: "#FFB703",
+    soundUrl: "",
+    duration: 0,
+    imageUrl: "",
+  };
+}
+
+export function selectAlertTier(tiers: AlertTier[], amountIdr: number): AlertTier | null {
+  return tiers.reduce<AlertTier | null>((best, tier) => {
+    if (amountIdr < tier.minAmount) return best;
+    return !best || tier.minAmount > best.minAmount ? tier : best;
+  }, null);
+}
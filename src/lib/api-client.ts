@@ -0,0 +1,295 @@
+import type {
+  AuthResponse,
+  GoogleOAuthRequest,
+  LoginRequest,
+  OTPVerifyRequest,
+  OTPVerifyResponse,
+  RefreshTokenRequest,
+  RefreshTokenResponse,
+  RegisterRequest,
+  RegisterResponse,
+  ResendOTPRequest,
+  ResendOTPResponse,
+  ResetPasswordRequest,
+  ResetPasswordResponse,
+  VerifyResetPasswordRequest,
+  VerifyResetPasswordResponse,
+} from "@/types/auth";
+import type { HistoryResponse } from "@/types/donation";
+import type { ModerationItem, ModerationSettings, ModerationStatus } from "@/types/moderation";
+import type {
+  CreatePaymentRequest,
+  CreatePaymentResult,
+  CryptoCurrency,
+  Payment,
+} from "@/types/payment";
+import type { FxRateQuote, PricingConfig } from "@/types/pricing";
+import type { SubathonState } from "@/lib/subathon";
+
+// Typed client for the donation backend. Calls unwrap the `{success, data,
+// error}` envelope and fail with an ApiError, time out via AbortController,
+// and retry idempotent GETs on network/5xx errors. Components get an
+// instance bound to the session token from ApiProvider (useApi().client).
+
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+export type ApiErrorCode =
+  | "network"
+  | "timeout"
+  | "aborted"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "bad_request"
+  | "server"
+  | "invalid_response";
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+
+  constructor(message: string, code: ApiErrorCode, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return this.code === "network" || this.code === "timeout" || this.code === "server";
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface RequestOptions {
+  method?: "GET" | "POST";
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+  // Attach the access token; fails fast with "unauthorized" when there is none
+  auth?: boolean;
+  timeoutMs?: number;
+  // Defaults to 2 for GET and 0 otherwise
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  accessToken?: string | null;
+}
+
+// Helper function to map an HTTP status to an error code
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status >= 500) return "server";
+  return "bad_request";
+}
+
+function buildUrl(baseUrl: string, path: string, query?: RequestOptions["query"]): string {
+  const params = new URLSearchParams();
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const search = params.toString();
+  return `${baseUrl}${path}${search ? `?${search}` : ""}`;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function requestOnce<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener("abort", abortFromCaller);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) throw new ApiError(`Request timed out after ${timeoutMs}ms`, "timeout");
+      if (signal?.aborted) throw new ApiError("Request was cancelled", "aborted");
+      throw new ApiError(
+        error instanceof Error ? `Network error: ${error.message}` : "Network error",
+        "network"
+      );
+    }
+
+    const body = (await response.json().catch(() => null)) as (T & Partial<ApiEnvelope<unknown>>) | null;
+    if (!response.ok) {
+      throw new ApiError(
+        body?.error || `Request failed: ${response.status} ${response.statusText}`,
+        codeForStatus(response.status),
+        response.status
+      );
+    }
+    if (!body) {
+      throw new ApiError("Invalid JSON response from server", "invalid_response", response.status);
+    }
+    if (body.success === false) {
+      throw new ApiError(body.error || "Request failed", "bad_request", response.status);
+    }
+    return body;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", abortFromCaller);
+  }
+}
+
+// Low-level request returning the parsed JSON body (envelope included)
+export async function apiRequest<T>(
+  path: string,
+  options: RequestOptions = {},
+  { baseUrl = API_BASE_URL, accessToken = null }: ApiClientOptions = {}
+): Promise<T> {
+  const method = options.method ?? "GET";
+  const retries = options.retries ?? (method === "GET" ? DEFAULT_GET_RETRIES : 0);
+
+  if (options.auth && !accessToken) {
+    throw new ApiError("You must be logged in. Please login again.", "unauthorized");
+  }
+
+  const headers: Record<string, string> = {};
+  if (options.body !== undefined) headers["Content-Type"] = "application/json";
+  if (options.auth && accessToken) headers["Authorization"] = `Bearer ${accessToken}`;
+
+  const url = buildUrl(baseUrl, path, options.query);
+  const init: RequestInit = {
+    method,
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestOnce<T>(url, init, options.timeoutMs ?? DEFAULT_TIMEOUT_MS, options.signal);
+    } catch (error) {
+      if (!isApiError(error) || !error.retryable || attempt >= retries) throw error;
+      const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+      console.warn(`🔁 ${method} ${path} failed (${error.code}), retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+// Helper function to unwrap `data`, which every enveloped endpoint must return
+function unwrap<T>(envelope: ApiEnvelope<T>): T {
+  if (envelope.data === undefined) {
+    throw new ApiError("Response is missing data", "invalid_response");
+  }
+  return envelope.data;
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const request = <T>(path: string, requestOptions?: RequestOptions) =>
+    apiRequest<T>(path, requestOptions, options);
+  const get = <T>(path: string, requestOptions?: RequestOptions) =>
+    request<ApiEnvelope<T>>(path, requestOptions).then(unwrap);
+  const post = <T>(path: string, body?: unknown, requestOptions?: RequestOptions) =>
+    request<ApiEnvelope<T>>(path, { ...requestOptions, method: "POST", body });
+  const adminPost = (path: string, body?: unknown) =>
+    post<unknown>(path, body, { auth: true }).then(() => undefined);
+  const authPost = <T>(path: string, body: unknown) =>
+    request<T & { success: boolean }>(`/api/v1/auth${path}`, { method: "POST", body });
+
+  return {
+    payments: {
+      create: (input: CreatePaymentRequest) =>
+        post<CreatePaymentResult>("/payment/create", input).then(unwrap),
+      createCrypto: (input: CreatePaymentRequest) =>
+        post<CreatePaymentResult>("/payment/plisio/create", input).then(unwrap),
+      get: (id: string) => get<Payment>(`/payment/${encodeURIComponent(id)}`),
+      checkStatus: (orderId: string) =>
+        post<Payment>("/payment/check-status", { orderId }).then(unwrap),
+      // Forwards the Midtrans 3DS callback payload as-is
+      confirm3ds: (result: unknown) => post<unknown>("/payment/confirm-3ds", result).then(() => undefined),
+    },
+    crypto: {
+      currencies: () => get<CryptoCurrency[]>("/payment/plisio/currencies"),
+    },
+    pricing: {
+      // Public; fields the backend leaves out fall back to DEFAULT_PRICING
+      get: () => get<Partial<PricingConfig>>("/payment/pricing"),
+      // Public; current USD→IDR quote for crypto donations
+      fxRate: () => get<FxRateQuote>("/payment/fx-rate"),
+    },
+    history: {
+      // Public endpoint; admin requests also receive donor emails
+      list: ({ limit, offset }: { limit: number; offset: number }) =>
+        request<HistoryResponse>("/hit/history", {
+          query: { limit, offset },
+          auth: !!options.accessToken,
+        }),
+    },
+    queue: {
+      reset: () => adminPost("/hit/reset"),
+      skip: () => adminPost("/hit/skip"),
+      pause: () => adminPost("/hit/pause"),
+      resume: () => adminPost("/hit/resume"),
+      replay: (id: string) => adminPost(`/hit/replay/${encodeURIComponent(id)}`),
+      // "Tes Hit": dummy 1k YouTube media share
+      testMediaShare: () => post<unknown>("/api/test-media-share").then(() => undefined),
+    },
+    subathon: {
+      // Public so the OBS overlay can read it
+      get: () =>
+        request<ApiEnvelope<SubathonState | null>>("/hit/subathon").then((envelope) => envelope.data ?? null),
+      // start, config, pause, resume, adjust, stop; responds with the new state
+      update: (action: string, body: unknown = {}) =>
+        post<SubathonState | null>(`/hit/subathon/${action}`, body, { auth: true }).then(
+          (envelope) => envelope.data ?? null
+        ),
+    },
+    moderation: {
+      list: (status: ModerationStatus) =>
+        get<ModerationItem[]>("/hit/moderation", { query: { status }, auth: true }),
+      getSettings: () => get<ModerationSettings>("/hit/moderation/settings", { auth: true }),
+      updateSettings: (settings: ModerationSettings) => adminPost("/hit/moderation/settings", settings),
+      approve: (id: string) => adminPost(`/hit/moderation/${encodeURIComponent(id)}/approve`),
+      reject: (id: string, reason: string) =>
+        adminPost(`/hit/moderation/${encodeURIComponent(id)}/reject`, { reason }),
+    },
+    auth: {
+      // Not enveloped: tokens and user sit at the top level
+      login: (input: LoginRequest) => authPost<AuthResponse>("/login", input),
+      refresh: (input: RefreshTokenRequest) => authPost<RefreshTokenResponse>("/refresh", input),
+      // Trades a Google profile for our own tokens, creating the account if needed
+      google: (input: GoogleOAuthRequest) => authPost<AuthResponse>("/google", input),
+      // Sends an OTP to the new account's email
+      register: (input: RegisterRequest) => authPost<RegisterResponse>("/register", input),
+      verifyOtp: (input: OTPVerifyRequest) => authPost<OTPVerifyResponse>("/verify-otp", input),
+      resendOtp: (input: ResendOTPRequest) => authPost<ResendOTPResponse>("/resend-otp", input),
+      // Emails a reset OTP; then resetPassword sets the new password with it
+      requestPasswordReset: (input: ResetPasswordRequest) =>
+        authPost<ResetPasswordResponse>("/reset-password", input),
+      resetPassword: (input: VerifyResetPasswordRequest) =>
+        authPost<VerifyResetPasswordResponse>("/verify-reset-password", input),
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,31 @@
+// Client-side checks shared by the register and password reset forms. The
+// backend validates again; these only give quicker feedback.
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const OTP_LENGTH = 6;
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+
+export function validateNewPassword(password: string, confirmPassword: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (password !== confirmPassword) {
+    return "Passwords do not match";
+  }
+  return null;
+}
+
+// Helper function to keep only digits, capped at the OTP length
+export function sanitizeOtp(value: string): string {
+  return value.replace(/\D/g, "").slice(0, OTP_LENGTH);
+}
+
+// Helper function to build an /auth page URL that keeps the email (and where to go after login)
+export function authPageUrl(path: string, params: Record<string, string | null | undefined>): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) search.set(key, value);
+  });
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
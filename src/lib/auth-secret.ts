@@ -0,0 +1,5 @@
+// Shared by NextAuth and the middleware: both must sign and read session
+// JWTs with the same secret, including the development fallback.
+
+export const AUTH_SECRET =
+  process.env.NEXTAUTH_SECRET || "K1E90c5WRly4i69szH9xjkUF-0rDM-tl3WKA06hMayTBDvuOmjjsj3z_i_f7NIFk";
@@ -0,0 +1,42 @@
+// Start/end times for media-share clips, entered as mm:ss (or h:mm:ss) and
+// sent to the backend in whole seconds.
+
+// Parse "90", "1:30" or "1:02:03" into seconds; null when malformed
+export function parseClipTime(value: string): number | null {
+  const trimmed = value.trim();
+  if (!/^\d+(:\d{1,2}){0,2}$/.test(trimmed)) return null;
+
+  const parts = trimmed.split(":").map((part) => parseInt(part, 10));
+  // Minutes and seconds after the first part must stay below 60
+  if (parts.slice(1).some((part) => part >= 60)) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// Format seconds as m:ss, or h:mm:ss from one hour
+export function formatClipTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+// Validate the form's start/end inputs; empty fields mean "from the beginning"
+// and "until the video or the donation ends"
+export function validateClipRange(
+  startText: string,
+  endText: string
+): { startTime?: number; endTime?: number } | { error: string; field: "startTime" | "endTime" } {
+  const startTime = startText.trim() ? parseClipTime(startText) : 0;
+  if (startTime === null) {
+    return { error: "Format waktu mulai harus mm:ss", field: "startTime" };
+  }
+  const endTime = endText.trim() ? parseClipTime(endText) : null;
+  if (endText.trim() && endTime === null) {
+    return { error: "Format waktu selesai harus mm:ss", field: "endTime" };
+  }
+  if (endTime !== null && endTime <= startTime) {
+    return { error: "Waktu selesai harus setelah waktu mulai", field: "endTime" };
+  }
+  return { startTime: startTime > 0 ? startTime : undefined, endTime: endTime ?? undefined };
+}
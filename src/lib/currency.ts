@@ -0,0 +1,46 @@
+// Currency helpers shared by the donate form and the overlays.
+// Crypto donations carry `amount` in USD cents; everything else is IDR.
+
+// USD to IDR conversion rate (configurable). Last-resort fallback: pages use
+// the live rate from useFxRate() and the pricing config's rate before this
+export const USD_TO_IDR_RATE = Number(process.env.NEXT_PUBLIC_USD_TO_IDR_RATE) || 16500;
+
+export function usdToIdr(usd: number, rate: number = USD_TO_IDR_RATE): number {
+  return Math.round(usd * rate);
+}
+
+// Normalize a donation amount to IDR so crypto and fiat can be summed
+export function donationAmountToIdr(amount: number, paymentMethod?: string, rate?: number): number {
+  if (paymentMethod === "crypto") {
+    return usdToIdr(amount / 100, rate);
+  }
+  return amount;
+}
+
+export function formatIdr(amount: number): string {
+  return `Rp${Math.round(amount).toLocaleString("id-ID")}`;
+}
+
+// Crypto amount as the donor paid it, e.g. "0,00005 BTC"
+export function formatCryptoAmount(amount: number, currency: string): string {
+  return `${amount.toLocaleString("id-ID", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 8,
+  })} ${currency}`;
+}
+
+// Amount as the donor paid it: crypto in its coin, or in USD when the coin
+// amount is unknown; everything else in IDR
+export function formatDonationAmount(
+  amount: number,
+  paymentMethod?: string,
+  crypto?: { amount?: number; currency?: string }
+): string {
+  if (paymentMethod !== "crypto") {
+    return formatIdr(amount);
+  }
+  if (crypto?.amount !== undefined && crypto.currency) {
+    return formatCryptoAmount(crypto.amount, crypto.currency);
+  }
+  return `$${(amount / 100).toFixed(2)}`;
+}
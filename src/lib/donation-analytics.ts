@@ -0,0 +1,192 @@
+import {
+  addDays,
+  addHours,
+  differenceInCalendarDays,
+  endOfDay,
+  format,
+  startOfDay,
+  startOfHour,
+} from "date-fns";
+import { donationAmountToIdr } from "@/lib/currency";
+import type { DonationHistory } from "@/types/donation";
+import type { DonationSocketHistory } from "@/types/socket";
+
+// Revenue analytics for the admin dashboard. Donations are normalized to IDR
+// (crypto arrives in USD cents) and bucketed per hour for ranges of up to two
+// days, per day otherwise. Dates use the browser's local time zone.
+
+export const PAYMENT_METHODS = ["bank_transfer", "gopay", "qris", "crypto", "credit_card"] as const;
+
+export type AnalyticsPaymentMethod = (typeof PAYMENT_METHODS)[number] | "other";
+
+export const PAYMENT_METHOD_LABELS: Record<AnalyticsPaymentMethod, string> = {
+  bank_transfer: "Bank Transfer",
+  gopay: "GoPay",
+  qris: "QRIS",
+  crypto: "Crypto",
+  credit_card: "Credit Card",
+  other: "Lainnya",
+};
+
+export const DONATION_TYPE_LABELS: Record<"gif" | "text", string> = {
+  gif: "Media Share",
+  text: "Text",
+};
+
+export interface AnalyticsDonation {
+  id: string;
+  amountIdr: number;
+  paymentMethod: AnalyticsPaymentMethod;
+  type: "gif" | "text";
+  createdAt: string;
+}
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date; // Inclusive day
+}
+
+export interface AnalyticsBucket {
+  key: string;
+  label: string;
+  total: number; // IDR
+  count: number;
+}
+
+export interface DonationAnalytics {
+  total: number;
+  count: number;
+  average: number;
+  granularity: "hour" | "day";
+  buckets: AnalyticsBucket[];
+  byPaymentMethod: AnalyticsBucket[];
+  byType: AnalyticsBucket[];
+  // Hours of the day (00-23) with the most revenue, best first
+  topHours: AnalyticsBucket[];
+  crypto: { total: number; count: number };
+  fiat: { total: number; count: number };
+}
+
+const HOURLY_MAX_DAYS = 2;
+const TOP_HOURS = 5;
+
+function toPaymentMethod(method?: string): AnalyticsPaymentMethod {
+  return PAYMENT_METHODS.find((known) => known === method) ?? "other";
+}
+
+// Crypto amounts are converted with usdToIdrRate (see lib/fx-rate)
+export function fromHistory(donation: DonationHistory, usdToIdrRate?: number): AnalyticsDonation {
+  return {
+    id: donation.id,
+    amountIdr: donationAmountToIdr(donation.amount, donation.payment?.paymentMethod, usdToIdrRate),
+    paymentMethod: toPaymentMethod(donation.payment?.paymentMethod),
+    type: donation.type,
+    createdAt: donation.createdAt,
+  };
+}
+
+// Socket history frames don't carry the donation type; media means media share
+export function fromHistoryMessage(message: DonationSocketHistory, usdToIdrRate?: number): AnalyticsDonation {
+  return {
+    id: message.id,
+    amountIdr: donationAmountToIdr(message.amount, message.paymentMethod, usdToIdrRate),
+    paymentMethod: toPaymentMethod(message.paymentMethod),
+    type: message.mediaUrl ? "gif" : "text",
+    createdAt: message.createdAt || new Date().toISOString(),
+  };
+}
+
+// Helper function to get the range as timestamps, whole days inclusive
+export function getRangeBounds(range: AnalyticsRange): { start: number; end: number } {
+  return { start: startOfDay(range.from).getTime(), end: endOfDay(range.to).getTime() };
+}
+
+export function isInRange(createdAt: string, range: AnalyticsRange): boolean {
+  const { start, end } = getRangeBounds(range);
+  const time = new Date(createdAt).getTime();
+  return time >= start && time <= end;
+}
+
+// Helper function to add a donation to a keyed bucket, creating it on first use
+function addToBucket(buckets: Map<string, AnalyticsBucket>, key: string, label: string, amountIdr: number) {
+  const bucket = buckets.get(key) ?? { key, label, total: 0, count: 0 };
+  bucket.total += amountIdr;
+  bucket.count += 1;
+  buckets.set(key, bucket);
+}
+
+export function buildDonationAnalytics(
+  donations: AnalyticsDonation[],
+  range: AnalyticsRange
+): DonationAnalytics {
+  const granularity = differenceInCalendarDays(range.to, range.from) < HOURLY_MAX_DAYS ? "hour" : "day";
+  const bucketKey = (date: Date) =>
+    granularity === "hour" ? format(startOfHour(date), "yyyy-MM-dd HH") : format(date, "yyyy-MM-dd");
+
+  // Pre-fill every bucket so empty hours/days still show on the chart
+  const timeline = new Map<string, AnalyticsBucket>();
+  const end = endOfDay(range.to);
+  for (
+    let cursor = startOfDay(range.from);
+    cursor <= end;
+    cursor = granularity === "hour" ? addHours(cursor, 1) : addDays(cursor, 1)
+  ) {
+    const key = bucketKey(cursor);
+    timeline.set(key, {
+      key,
+      label: granularity === "hour" ? format(cursor, "dd/MM HH:00") : format(cursor, "dd/MM"),
+      total: 0,
+      count: 0,
+    });
+  }
+
+  const byPaymentMethod = new Map<string, AnalyticsBucket>();
+  const byType = new Map<string, AnalyticsBucket>();
+  const byHour = new Map<string, AnalyticsBucket>();
+  const crypto = { total: 0, count: 0 };
+  const fiat = { total: 0, count: 0 };
+  let total = 0;
+  let count = 0;
+
+  for (const donation of donations) {
+    if (!isInRange(donation.createdAt, range)) continue;
+
+    const date = new Date(donation.createdAt);
+    total += donation.amountIdr;
+    count += 1;
+
+    const bucket = timeline.get(bucketKey(date));
+    if (bucket) {
+      bucket.total += donation.amountIdr;
+      bucket.count += 1;
+    }
+    addToBucket(
+      byPaymentMethod,
+      donation.paymentMethod,
+      PAYMENT_METHOD_LABELS[donation.paymentMethod],
+      donation.amountIdr
+    );
+    addToBucket(byType, donation.type, DONATION_TYPE_LABELS[donation.type], donation.amountIdr);
+    const hour = format(date, "HH");
+    addToBucket(byHour, hour, `${hour}:00`, donation.amountIdr);
+
+    const share = donation.paymentMethod === "crypto" ? crypto : fiat;
+    share.total += donation.amountIdr;
+    share.count += 1;
+  }
+
+  const byTotal = (a: AnalyticsBucket, b: AnalyticsBucket) => b.total - a.total;
+
+  return {
+    total,
+    count,
+    average: count > 0 ? total / count : 0,
+    granularity,
+    buckets: Array.from(timeline.values()),
+    byPaymentMethod: Array.from(byPaymentMethod.values()).sort(byTotal),
+    byType: Array.from(byType.values()).sort(byTotal),
+    topHours: Array.from(byHour.values()).sort(byTotal).slice(0, TOP_HOURS),
+    crypto,
+    fiat,
+  };
+}
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import type { DonationGoal } from "@/types/donation";
+
+// Goals for the /donate/goal overlay. Like the rest of the overlay config they
+// travel in the overlay URL (`goals` param, JSON-encoded), so OBS needs no
+// backend round-trip to know what to track.
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be YYYY-MM-DD");
+
+export const donationGoalSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1).max(80),
+  targetAmount: z.number().int().positive(),
+  startDate: dateString,
+  endDate: dateString.optional(),
+}) satisfies z.ZodType<DonationGoal>;
+
+const donationGoalsSchema = z.array(donationGoalSchema).max(5);
+
+// Amount a goal counts: already normalized to IDR
+export interface GoalContribution {
+  id: string;
+  amountIdr: number;
+  createdAt: string;
+}
+
+export interface GoalProgress {
+  goal: DonationGoal;
+  total: number;
+  percentage: number; // 0-100, capped
+  reached: boolean;
+}
+
+export function parseDonationGoals(raw: string): DonationGoal[] {
+  if (!raw) return [];
+  try {
+    const result = donationGoalsSchema.safeParse(JSON.parse(raw));
+    if (result.success) return result.data;
+    console.warn("Invalid donation goals:", result.error.issues);
+  } catch (error) {
+    console.warn("Failed to parse donation goals:", error);
+  }
+  return [];
+}
+
+export function encodeDonationGoals(goals: DonationGoal[]): string {
+  return goals.length > 0 ? JSON.stringify(goals) : "";
+}
+
+export function createDonationGoal(): DonationGoal {
+  const today = new Date();
+  const startDate = [
+    today.getFullYear(),
+    String(today.getMonth() + 1).padStart(2, "0"),
+    String(today.getDate()).padStart(2, "0"),
+  ].join("-");
+  return {
+    id: `goal-${Date.now().toString(36)}`,
+    title: "Donation Goal",
+    targetAmount: 1000000,
+    startDate,
+  };
+}
+
+// Helper function to turn the calendar days into a [start, end] timestamp range
+function getGoalWindow(goal: DonationGoal): { start: number; end: number } {
+  const start = new Date(`${goal.startDate}T00:00:00`).getTime();
+  const end = goal.endDate
+    ? new Date(`${goal.endDate}T23:59:59.999`).getTime()
+    : Number.POSITIVE_INFINITY;
+  return { start, end };
+}
+
+// Earliest start date across goals, used to know how far back to load history
+export function getEarliestGoalStart(goals: DonationGoal[]): number | null {
+  if (goals.length === 0) return null;
+  return Math.min(...goals.map((goal) => getGoalWindow(goal).start));
+}
+
+export function isGoalActive(goal: DonationGoal, now: number = Date.now()): boolean {
+  const { start, end } = getGoalWindow(goal);
+  return now >= start && now <= end;
+}
+
+export function getGoalProgress(
+  goal: DonationGoal,
+  contributions: GoalContribution[]
+): GoalProgress {
+  const { start, end } = getGoalWindow(goal);
+  const total = contributions.reduce((sum, contribution) => {
+    const at = new Date(contribution.createdAt).getTime();
+    return at >= start && at <= end ? sum + contribution.amountIdr : sum;
+  }, 0);
+  return {
+    goal,
+    total,
+    percentage: Math.min(100, (total / goal.targetAmount) * 100),
+    reached: total >= goal.targetAmount,
+  };
+}
+
+// Sample goals shown by the overlay in preview mode when none are configured
+export function getPreviewGoals(): DonationGoal[] {
+  const goal = createDonationGoal();
+  return [
+    { ...goal, id: "preview-1", title: "Upgrade mic baru", targetAmount: 500000 },
+    { ...goal, id: "preview-2", title: "Subathon 24 jam", targetAmount: 2000000 },
+  ];
+}
@@ -0,0 +1,40 @@
+import type { ApiClient } from "@/lib/api-client";
+import type { DonationHistory } from "@/types/donation";
+
+// Paged loading of /hit/history for overlays that aggregate past donations
+// (goals, leaderboard). History is returned newest first.
+
+export interface FetchHistoryOptions {
+  // Stop once donations are older than this timestamp; null loads everything
+  since: number | null;
+  pageSize?: number;
+  // Hard cap so an all-time query can't page forever
+  maxPages?: number;
+}
+
+export async function fetchDonationHistory(
+  client: ApiClient,
+  { since, pageSize = 100, maxPages = 20 }: FetchHistoryOptions
+): Promise<DonationHistory[]> {
+  const loaded: DonationHistory[] = [];
+
+  for (let page = 0; page < maxPages; page++) {
+    // /hit/history is public, no auth required
+    const data = await client.history.list({ limit: pageSize, offset: page * pageSize });
+
+    loaded.push(...data.data);
+
+    const oldest = data.data[data.data.length - 1];
+    if (
+      data.data.length < pageSize ||
+      !oldest ||
+      (since !== null && new Date(oldest.createdAt).getTime() < since)
+    ) {
+      break;
+    }
+  }
+
+  return since === null
+    ? loaded
+    : loaded.filter((donation) => new Date(donation.createdAt).getTime() >= since);
+}
@@ -0,0 +1,165 @@
+import type { DonationSocketDonation, DonationSocketMedia } from "@/types/socket";
+
+// Local FIFO for the media-share overlay. The backend sends `donation` and
+// `media` as separate frames sharing one id, so both are merged into a
+// single entry. Finished ids are remembered so late re-sends are dropped.
+
+export interface QueuedDonation {
+  id: string;
+  donation?: DonationSocketDonation;
+  media?: DonationSocketMedia;
+  enqueuedAt: number;
+  // Remaining display time saved while the entry was on screen
+  remainingMs?: number;
+}
+
+// "active": merged into the entry currently on screen, caller should show it
+// "duplicate": already shown, queued or finished - nothing to do
+// (unless the frame is an admin replay)
+export type DonationQueueResult = "queued" | "merged" | "active" | "duplicate";
+
+export interface DonationQueueOptions {
+  storageKey: string;
+  maxFinishedIds?: number;
+}
+
+export interface DonationQueue {
+  restore(): void;
+  enqueue(message: DonationSocketDonation | DonationSocketMedia): DonationQueueResult;
+  next(): QueuedDonation | null;
+  getActive(): QueuedDonation | null;
+  updateActiveRemaining(remainingMs: number): void;
+  finishActive(): void;
+  skip(id: string): void;
+  clear(): void;
+  size(): number;
+  subscribe(listener: (size: number) => void): () => void;
+}
+
+interface PersistedQueue {
+  items: QueuedDonation[];
+  active: QueuedDonation | null;
+  finishedIds: string[];
+}
+
+export function createDonationQueue({
+  storageKey,
+  maxFinishedIds = 100,
+}: DonationQueueOptions): DonationQueue {
+  const listeners = new Set<(size: number) => void>();
+  let items: QueuedDonation[] = [];
+  let active: QueuedDonation | null = null;
+  let finishedIds: string[] = [];
+
+  const persist = () => {
+    if (typeof window === "undefined") return;
+    try {
+      const snapshot: PersistedQueue = { items, active, finishedIds };
+      window.sessionStorage.setItem(storageKey, JSON.stringify(snapshot));
+    } catch (error) {
+      console.warn("Failed to persist donation queue:", error);
+    }
+  };
+
+  const notify = () => {
+    persist();
+    listeners.forEach((listener) => listener(items.length));
+  };
+
+  const markFinished = (id: string) => {
+    finishedIds = [id, ...finishedIds.filter((finishedId) => finishedId !== id)].slice(
+      0,
+      maxFinishedIds
+    );
+  };
+
+  return {
+    restore() {
+      if (typeof window === "undefined") return;
+      try {
+        const stored = window.sessionStorage.getItem(storageKey);
+        if (!stored) return;
+        const snapshot = JSON.parse(stored) as PersistedQueue;
+        items = Array.isArray(snapshot.items) ? snapshot.items : [];
+        finishedIds = Array.isArray(snapshot.finishedIds) ? snapshot.finishedIds : [];
+        // Put the interrupted entry back in front so it resumes first
+        if (snapshot.active && (snapshot.active.remainingMs ?? 1) > 0) {
+          items = [snapshot.active, ...items.filter((item) => item.id !== snapshot.active?.id)];
+        }
+        active = null;
+        console.log("📦 Restored donation queue:", { queued: items.length });
+        notify();
+      } catch (error) {
+        console.warn("Failed to restore donation queue:", error);
+      }
+    },
+    enqueue(message) {
+      if (finishedIds.includes(message.id)) {
+        if (!message.replay) return "duplicate";
+        // Admin replay from history: forget it was shown and queue it again
+        finishedIds = finishedIds.filter((finishedId) => finishedId !== message.id);
+      }
+
+      if (active && active.id === message.id) {
+        if (active[message.type]) return "duplicate";
+        active = { ...active, [message.type]: message };
+        persist();
+        return "active";
+      }
+
+      const index = items.findIndex((item) => item.id === message.id);
+      if (index >= 0) {
+        items[index] = { ...items[index], [message.type]: message };
+        notify();
+        return "merged";
+      }
+
+      items = [...items, { id: message.id, [message.type]: message, enqueuedAt: Date.now() }];
+      notify();
+      return "queued";
+    },
+    next() {
+      if (active) markFinished(active.id);
+      active = items[0] ?? null;
+      items = items.slice(1);
+      notify();
+      return active;
+    },
+    getActive() {
+      return active;
+    },
+    updateActiveRemaining(remainingMs) {
+      if (!active) return;
+      active = { ...active, remainingMs };
+      persist();
+    },
+    finishActive() {
+      if (!active) return;
+      markFinished(active.id);
+      active = null;
+      notify();
+    },
+    // Drop a queued entry and ignore any later frames for it
+    skip(id) {
+      markFinished(id);
+      items = items.filter((item) => item.id !== id);
+      notify();
+    },
+    clear() {
+      if (active) markFinished(active.id);
+      items.forEach((item) => markFinished(item.id));
+      items = [];
+      active = null;
+      notify();
+    },
+    size() {
+      return items.length;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
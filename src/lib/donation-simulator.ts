@@ -0,0 +1,160 @@
+import type {
+  DonationSocketDonation,
+  DonationSocketMedia,
+  DonationSocketMessage,
+  DonationSocketPaymentInfo,
+  DonationSocketText,
+} from "@/types/socket";
+
+// Offline overlay simulator. Frames posted on this BroadcastChannel are fed
+// into every donation socket of the same origin exactly like backend frames
+// (same schema validation and debug counters), so overlays open in other
+// tabs or iframes react without a backend or a real payment.
+
+export const SIMULATOR_CHANNEL = "donation-simulator";
+
+export function sendSimulatedFrames(frames: DonationSocketMessage[]) {
+  if (typeof BroadcastChannel === "undefined") {
+    console.warn("BroadcastChannel is not supported, simulated frames dropped");
+    return;
+  }
+  const channel = new BroadcastChannel(SIMULATOR_CHANNEL);
+  // Newline-separated, like a batched backend payload
+  channel.postMessage(frames.map((frame) => JSON.stringify(frame)).join("\n"));
+  channel.close();
+}
+
+export interface SimulatorMediaPreset {
+  label: string;
+  mediaType?: string;
+  // Relative URLs are resolved against the current origin when sent
+  mediaUrl: string;
+  targetTime?: number;
+  endTime?: number;
+}
+
+export const SIMULATOR_MEDIA_PRESETS: Record<string, SimulatorMediaPreset> = {
+  youtube: {
+    label: "YouTube (mulai detik 30)",
+    mediaUrl: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+    targetTime: 30,
+  },
+  youtubeClip: {
+    label: "YouTube Klip (0:30 - 0:40)",
+    mediaUrl: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+    targetTime: 30,
+    endTime: 40,
+  },
+  tiktok: {
+    label: "TikTok",
+    mediaUrl: "https://www.tiktok.com/@scout2015/video/6718335390845095173",
+  },
+  instagramReel: {
+    label: "Instagram Reel",
+    mediaUrl: "https://www.instagram.com/reel/C5pLmK1vQ2x/",
+  },
+  instagramPost: {
+    label: "Instagram Post",
+    mediaUrl: "https://www.instagram.com/p/C5pLmK1vQ2x/",
+  },
+  image: {
+    label: "Gambar / GIF",
+    mediaType: "image",
+    mediaUrl: "/checklist.gif",
+  },
+  video: {
+    label: "Video MP4",
+    mediaType: "video",
+    mediaUrl: "https://interactive-examples.mdn.mozilla.net/media/cc0-videos/flower.mp4",
+  },
+};
+
+export interface SimulatorPaymentPreset {
+  label: string;
+  payment: DonationSocketPaymentInfo;
+  // Crypto presets carry their own coin amount; `amount` is then USD cents
+  crypto: boolean;
+}
+
+export const SIMULATOR_PAYMENT_PRESETS: Record<string, SimulatorPaymentPreset> = {
+  qris: {
+    label: "QRIS (Midtrans)",
+    payment: { paymentMethod: "qris", paymentType: "midtrans" },
+    crypto: false,
+  },
+  gopay: {
+    label: "GoPay (Midtrans)",
+    payment: { paymentMethod: "gopay", paymentType: "midtrans" },
+    crypto: false,
+  },
+  bankTransfer: {
+    label: "Bank Transfer (Midtrans)",
+    payment: { paymentMethod: "bank_transfer", paymentType: "midtrans" },
+    crypto: false,
+  },
+  btc: {
+    label: "Crypto BTC (Plisio)",
+    payment: { paymentMethod: "crypto", paymentType: "plisio", plisioCurrency: "BTC", plisioAmount: "0.00005" },
+    crypto: true,
+  },
+  eth: {
+    label: "Crypto ETH (Plisio)",
+    payment: { paymentMethod: "crypto", paymentType: "plisio", plisioCurrency: "ETH", plisioAmount: "0.0015" },
+    crypto: true,
+  },
+  usdt: {
+    label: "Crypto USDT (Plisio)",
+    payment: { paymentMethod: "crypto", paymentType: "plisio", plisioCurrency: "USDT", plisioAmount: "5" },
+    crypto: true,
+  },
+};
+
+export type SimulatorTarget = "gif" | "text";
+
+export interface SimulatedDonationInput {
+  donorName: string;
+  amount: number;
+  message?: string;
+  durationMs?: number;
+  payment: DonationSocketPaymentInfo;
+  media?: SimulatorMediaPreset;
+}
+
+// Build the frames the backend sends for one paid donation: a donation/media
+// pair for the media share overlay, or a single text frame for text alerts
+export function buildSimulatedDonation(
+  input: SimulatedDonationInput,
+  target: SimulatorTarget,
+  origin: string
+): { id: string; frames: DonationSocketMessage[] } {
+  const id = `sim-${crypto.randomUUID()}`;
+  const base = {
+    id,
+    donorName: input.donorName,
+    amount: input.amount,
+    message: input.message || undefined,
+    duration: input.durationMs,
+    ...input.payment,
+  };
+
+  if (target === "text") {
+    const text: DonationSocketText = { type: "text", ...base };
+    return { id, frames: [text] };
+  }
+
+  const donation: DonationSocketDonation = { type: "donation", ...base };
+  const frames: DonationSocketMessage[] = [donation];
+  if (input.media) {
+    const media: DonationSocketMedia = {
+      type: "media",
+      id,
+      mediaUrl: new URL(input.media.mediaUrl, origin).toString(),
+      mediaType: input.media.mediaType,
+      targetTime: input.media.targetTime,
+      endTime: input.media.endTime,
+      duration: input.durationMs,
+    };
+    frames.push(media);
+  }
+  return { id, frames };
+}
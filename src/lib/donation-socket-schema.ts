@@ -0,0 +1,201 @@
+import { z } from "zod";
+import type {
+  DonationSocketClearQueue,
+  DonationSocketControl,
+  DonationSocketDonation,
+  DonationSocketHistory,
+  DonationSocketMedia,
+  DonationSocketMessage,
+  DonationSocketModeration,
+  DonationSocketPaymentStatus,
+  DonationSocketSubathon,
+  DonationSocketText,
+  DonationSocketTime,
+  DonationSocketVisibility,
+} from "@/types/socket";
+
+// Zod schemas for every frame of the backend /ws protocol.
+// Unknown keys are stripped; frames that fail validation never reach handlers.
+
+const paymentInfoSchema = z.object({
+  paymentMethod: z.string().optional(),
+  paymentType: z.string().optional(),
+  plisioCurrency: z.string().optional(),
+  plisioAmount: z.string().optional(),
+});
+
+const donationSchema = paymentInfoSchema.extend({
+  type: z.literal("donation"),
+  id: z.string().min(1),
+  donorName: z.string().min(1),
+  amount: z.number().positive(),
+  message: z.string().optional(),
+  duration: z.number().nonnegative().optional(),
+  remainingMs: z.number().optional(),
+  replay: z.boolean().optional(),
+}) satisfies z.ZodType<DonationSocketDonation>;
+
+const mediaSchema = z.object({
+  type: z.literal("media"),
+  id: z.string().min(1),
+  mediaUrl: z.string().url(),
+  mediaType: z.string().optional(),
+  startTime: z.number().nonnegative().optional(),
+  targetTime: z.union([z.string(), z.number()]).optional(),
+  endTime: z.number().nonnegative().optional(),
+  duration: z.number().nonnegative().optional(),
+  remainingMs: z.number().optional(),
+  replay: z.boolean().optional(),
+}) satisfies z.ZodType<DonationSocketMedia>;
+
+const textSchema = paymentInfoSchema.extend({
+  type: z.literal("text"),
+  id: z.string().min(1),
+  donorName: z.string().min(1),
+  amount: z.number().positive(),
+  message: z.string().optional(),
+  duration: z.number().nonnegative().optional(),
+}) satisfies z.ZodType<DonationSocketText>;
+
+const visibilitySchema = z.object({
+  type: z.literal("visibility"),
+  id: z.string().optional(),
+  visible: z.boolean(),
+}) satisfies z.ZodType<DonationSocketVisibility>;
+
+const clearQueueSchema = z.object({
+  type: z.literal("clear_queue"),
+}) satisfies z.ZodType<DonationSocketClearQueue>;
+
+const controlSchema = z.object({
+  type: z.literal("control"),
+  action: z.enum(["skip", "pause", "resume"]),
+  id: z.string().optional(),
+}) satisfies z.ZodType<DonationSocketControl>;
+
+const timeSchema = z.object({
+  type: z.literal("time"),
+  targetTime: z.string().refine((value) => !isNaN(new Date(value).getTime()), {
+    message: "targetTime must be a valid date",
+  }),
+}) satisfies z.ZodType<DonationSocketTime>;
+
+const isoDate = z.string().refine((value) => !isNaN(new Date(value).getTime()), {
+  message: "must be a valid date",
+});
+
+const subathonSchema = z.object({
+  type: z.literal("subathon"),
+  status: z.enum(["running", "paused", "ended"]),
+  startedAt: isoDate,
+  endsAt: isoDate,
+  remainingMs: z.number().nonnegative(),
+  secondsPer1000: z.number().nonnegative(),
+  totalMs: z.number().nonnegative(),
+  capMs: z.number().positive().optional(),
+  addedMs: z.number().optional(),
+  reason: z.enum(["donation", "manual", "start", "pause", "resume", "stop"]).optional(),
+  donorName: z.string().optional(),
+}) satisfies z.ZodType<DonationSocketSubathon>;
+
+const historySchema = paymentInfoSchema.extend({
+  type: z.literal("history"),
+  id: z.string().min(1),
+  donorName: z.string().min(1),
+  amount: z.number().nonnegative(),
+  message: z.string().optional(),
+  mediaUrl: z.string().optional(),
+  mediaType: z.string().optional(),
+  startTime: z.number().nonnegative().optional(),
+  endTime: z.number().nonnegative().optional(),
+  createdAt: z.string().optional(),
+}) satisfies z.ZodType<DonationSocketHistory>;
+
+const paymentStatusSchema = z
+  .object({
+    type: z.literal("payment_status"),
+    paymentId: z.string().optional(),
+    orderId: z.string().optional(),
+    status: z.enum(["PENDING", "SUCCESS", "FAILED", "CANCELLED", "EXPIRED"]),
+    vaNumber: z.string().optional(),
+    bankType: z.string().optional(),
+    qrCodeUrl: z.string().optional(),
+    expiryTime: z.string().optional(),
+    donorName: z.string().optional(),
+    amount: z.number().optional(),
+    donationType: z.string().optional(),
+    message: z.string().optional(),
+    mediaUrl: z.string().optional(),
+    mediaType: z.string().optional(),
+    startTime: z.number().optional(),
+  })
+  .refine((data) => !!data.paymentId || !!data.orderId, {
+    message: "paymentId or orderId is required",
+  }) satisfies z.ZodType<DonationSocketPaymentStatus>;
+
+const moderationSchema = paymentInfoSchema.extend({
+  type: z.literal("moderation"),
+  id: z.string().min(1),
+  status: z.enum(["PENDING", "APPROVED", "REJECTED"]),
+  donorName: z.string().min(1),
+  amount: z.number().nonnegative(),
+  message: z.string().optional(),
+  mediaUrl: z.string().url(),
+  mediaType: z.string().optional(),
+  startTime: z.number().nonnegative().optional(),
+  endTime: z.number().nonnegative().optional(),
+  reason: z.string().optional(),
+  createdAt: z.string().optional(),
+}) satisfies z.ZodType<DonationSocketModeration>;
+
+export const donationSocketMessageSchemas = {
+  donation: donationSchema,
+  media: mediaSchema,
+  text: textSchema,
+  visibility: visibilitySchema,
+  clear_queue: clearQueueSchema,
+  control: controlSchema,
+  time: timeSchema,
+  subathon: subathonSchema,
+  history: historySchema,
+  payment_status: paymentStatusSchema,
+  moderation: moderationSchema,
+} as const;
+
+export type DonationSocketParseResult =
+  | { ok: true; message: DonationSocketMessage }
+  | { ok: false; ignored: boolean; reason: string };
+
+// Go backends may send null for empty optional fields; treat null as missing
+function stripNulls(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null));
+}
+
+// Validate one decoded JSON frame. Frames with a type we don't know are
+// "ignored" (e.g. pong), everything else that fails is "rejected".
+export function parseDonationSocketMessage(data: unknown): DonationSocketParseResult {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { ok: false, ignored: false, reason: "Frame is not a JSON object" };
+  }
+
+  const frame = stripNulls(data as Record<string, unknown>);
+  if (typeof frame.type !== "string") {
+    return { ok: false, ignored: false, reason: "Missing message type" };
+  }
+
+  const schema =
+    donationSocketMessageSchemas[frame.type as keyof typeof donationSocketMessageSchemas];
+  if (!schema) {
+    return { ok: false, ignored: true, reason: `Unknown message type "${frame.type}"` };
+  }
+
+  const result = schema.safeParse(frame);
+  if (!result.success) {
+    const reason = result.error.issues
+      .map((issue) => `${issue.path.join(".") || frame.type}: ${issue.message}`)
+      .join("; ");
+    return { ok: false, ignored: false, reason };
+  }
+
+  return { ok: true, message: result.data as DonationSocketMessage };
+}
@@ -0,0 +1,417 @@
+import { parseDonationSocketMessage } from "@/lib/donation-socket-schema";
+import { SIMULATOR_CHANNEL } from "@/lib/donation-simulator";
+import type {
+  DonationSocketMessage,
+  DonationSocketMessageOf,
+  DonationSocketMessageType,
+  DonationSocketRejection,
+  DonationSocketStats,
+  DonationSocketStatus,
+} from "@/types/socket";
+
+// How many rejected frames are kept for the debug panel
+const MAX_RECENT_REJECTIONS = 20;
+
+export interface DonationSocketOptions {
+  url?: string;
+  initialReconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  reconnectFactor?: number;
+  // 0..1 - portion of each backoff delay that is randomized
+  reconnectJitter?: number;
+  heartbeatIntervalMs?: number;
+  // Socket is considered dead when nothing arrives for this long. Only
+  // enforced once the backend has answered a ping with a pong, so a backend
+  // that ignores pings doesn't get a quiet overlay reconnected
+  heartbeatTimeoutMs?: number;
+}
+
+type MessageHandler<T extends DonationSocketMessageType> = (
+  message: DonationSocketMessageOf<T>
+) => void;
+type StatusListener = (status: DonationSocketStatus) => void;
+type StatsListener = (stats: DonationSocketStats) => void;
+
+export interface DonationSocket {
+  subscribe<T extends DonationSocketMessageType>(type: T, handler: MessageHandler<T>): () => void;
+  // Status and stats listeners get the current value right away, so a
+  // subscriber never misses a change made before it subscribed
+  onStatusChange(listener: StatusListener): () => void;
+  getStatus(): DonationSocketStatus;
+  onStatsChange(listener: StatsListener): () => void;
+  getStats(): DonationSocketStats;
+  connect(): void;
+  close(): void;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<DonationSocketOptions, "url">> = {
+  initialReconnectDelayMs: 1000,
+  maxReconnectDelayMs: 30000,
+  reconnectFactor: 2,
+  reconnectJitter: 0.5,
+  heartbeatIntervalMs: 25000,
+  heartbeatTimeoutMs: 70000,
+};
+
+// Build ws(s)://host/ws from NEXT_PUBLIC_WS_HOST
+export function getDonationSocketUrl(): string {
+  const wsProtocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  let wsHost = process.env.NEXT_PUBLIC_WS_HOST || "localhost:5000";
+  // Remove protocol if present (http:// or https://)
+  wsHost = wsHost.replace(/^https?:\/\//, "");
+  return `${wsProtocol}//${wsHost}/ws`;
+}
+
+// Mock backend (NEXT_PUBLIC_MOCK_BACKEND=1) streams frames as server-sent events
+export function isMockSocket(): boolean {
+  return process.env.NEXT_PUBLIC_MOCK_BACKEND === "1";
+}
+
+export function getMockStreamUrl(): string {
+  return `${window.location.origin}/api/mock/ws`;
+}
+
+// Exponential backoff with jitter: attempt 0 -> ~initial, capped at max
+export function getReconnectDelay(
+  attempt: number,
+  options: Pick<
+    Required<DonationSocketOptions>,
+    "initialReconnectDelayMs" | "maxReconnectDelayMs" | "reconnectFactor" | "reconnectJitter"
+  >
+): number {
+  const base = Math.min(
+    options.maxReconnectDelayMs,
+    options.initialReconnectDelayMs * Math.pow(options.reconnectFactor, attempt)
+  );
+  const jitter = Math.min(1, Math.max(0, options.reconnectJitter));
+  return Math.round(base * (1 - jitter) + Math.random() * base * jitter);
+}
+
+export interface ParsedSocketPayload {
+  messages: DonationSocketMessage[];
+  rejections: DonationSocketRejection[];
+  ignored: number;
+  pong: boolean; // Payload answered a heartbeat ping
+}
+
+// Split a raw WebSocket payload into frames (backend may batch with newlines)
+// and validate each one against the protocol schemas
+export function parseSocketPayload(rawData: string): ParsedSocketPayload {
+  const parsed: ParsedSocketPayload = { messages: [], rejections: [], ignored: 0, pong: false };
+  const trimmedData = rawData.trim();
+  if (!trimmedData) return parsed;
+
+  const frames = trimmedData.includes("\n")
+    ? trimmedData.split("\n").filter((frame) => frame.trim())
+    : [trimmedData];
+
+  for (const frame of frames) {
+    const trimmed = frame.trim();
+    if (!trimmed) continue;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      parsed.rejections.push({ at: Date.now(), reason: "Invalid JSON", raw: trimmed.substring(0, 200) });
+      continue;
+    }
+
+    const result = parseDonationSocketMessage(data);
+    if (result.ok) {
+      parsed.messages.push(result.message);
+    } else if (result.ignored) {
+      parsed.ignored += 1;
+      if ((data as { type?: unknown }).type === "pong") parsed.pong = true;
+    } else {
+      parsed.rejections.push({ at: Date.now(), reason: result.reason, raw: trimmed.substring(0, 200) });
+    }
+  }
+  return parsed;
+}
+
+export function createDonationSocket(options: DonationSocketOptions = {}): DonationSocket {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const handlers = new Map<DonationSocketMessageType, Set<(message: DonationSocketMessage) => void>>();
+  const statusListeners = new Set<StatusListener>();
+  const statsListeners = new Set<StatsListener>();
+
+  let ws: WebSocket | null = null;
+  let simulator: BroadcastChannel | null = null;
+  let mockStream: EventSource | null = null;
+  let status: DonationSocketStatus = "idle";
+  let attempt = 0;
+  let manuallyClosed = false;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  let lastMessageAt = 0;
+  // Set once the backend answers a ping on the current connection
+  let heartbeatConfirmed = false;
+  let stats: DonationSocketStats = { accepted: 0, rejected: 0, ignored: 0, recentRejections: [] };
+
+  const setStatus = (next: DonationSocketStatus) => {
+    if (status === next) return;
+    status = next;
+    statusListeners.forEach((listener) => listener(next));
+  };
+
+  const recordStats = (parsed: ParsedSocketPayload) => {
+    if (!parsed.messages.length && !parsed.rejections.length && !parsed.ignored) return;
+
+    for (const rejection of parsed.rejections) {
+      console.warn("🚫 Rejected WebSocket frame:", rejection.reason, rejection.raw.substring(0, 100));
+    }
+    stats = {
+      accepted: stats.accepted + parsed.messages.length,
+      rejected: stats.rejected + parsed.rejections.length,
+      ignored: stats.ignored + parsed.ignored,
+      recentRejections: parsed.rejections.length
+        ? [...parsed.rejections.reverse(), ...stats.recentRejections].slice(0, MAX_RECENT_REJECTIONS)
+        : stats.recentRejections,
+    };
+    statsListeners.forEach((listener) => listener(stats));
+  };
+
+  const dispatch = (message: DonationSocketMessage) => {
+    const typeHandlers = handlers.get(message.type);
+    if (!typeHandlers) return;
+    typeHandlers.forEach((handler) => {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error("Error processing WebSocket message:", error);
+      }
+    });
+  };
+
+  // Frames from the simulator page go through the same parsing as backend frames
+  const openSimulator = () => {
+    if (simulator || typeof BroadcastChannel === "undefined") return;
+    simulator = new BroadcastChannel(SIMULATOR_CHANNEL);
+    simulator.onmessage = (event) => {
+      if (typeof event.data !== "string") return;
+      console.log("🧪 Simulated frames received");
+      const parsed = parseSocketPayload(event.data);
+      recordStats(parsed);
+      parsed.messages.forEach(dispatch);
+    };
+  };
+
+  const closeSimulator = () => {
+    simulator?.close();
+    simulator = null;
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatInterval) {
+      clearInterval(heartbeatInterval);
+      heartbeatInterval = null;
+    }
+  };
+
+  const startHeartbeat = (socket: WebSocket) => {
+    stopHeartbeat();
+    lastMessageAt = Date.now();
+    heartbeatConfirmed = false;
+    heartbeatInterval = setInterval(() => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+
+      if (heartbeatConfirmed && Date.now() - lastMessageAt > config.heartbeatTimeoutMs) {
+        console.warn("💔 WebSocket heartbeat timed out, forcing reconnect");
+        // Non-1000 code so onclose schedules a reconnect
+        socket.close(4000, "heartbeat timeout");
+        return;
+      }
+
+      try {
+        socket.send(JSON.stringify({ type: "ping" }));
+      } catch (error) {
+        console.warn("Failed to send WebSocket ping:", error);
+      }
+    }, config.heartbeatIntervalMs);
+  };
+
+  const scheduleReconnect = () => {
+    if (manuallyClosed || reconnectTimeout) return;
+    const delay = getReconnectDelay(attempt, config);
+    attempt += 1;
+    setStatus("reconnecting");
+    console.log(`🔄 Scheduling WebSocket reconnection in ${delay}ms (attempt ${attempt})...`);
+    reconnectTimeout = setTimeout(() => {
+      reconnectTimeout = null;
+      open();
+    }, delay);
+  };
+
+  // EventSource reconnects by itself, so no backoff or heartbeat here
+  const openMockStream = () => {
+    const streamUrl = config.url || getMockStreamUrl();
+    const source = new EventSource(streamUrl);
+    mockStream = source;
+    setStatus("connecting");
+    console.log("🧪 Connecting to mock backend stream:", streamUrl);
+
+    source.onopen = () => {
+      console.log("✅ Mock backend stream connected");
+      setStatus("open");
+    };
+
+    source.onmessage = (event) => {
+      const parsed = parseSocketPayload(event.data);
+      recordStats(parsed);
+      parsed.messages.forEach(dispatch);
+    };
+
+    source.onerror = () => {
+      setStatus(source.readyState === EventSource.CLOSED ? "closed" : "reconnecting");
+    };
+  };
+
+  const open = () => {
+    const wsUrl = config.url || getDonationSocketUrl();
+
+    try {
+      // Close existing connection if any
+      if (ws && ws.readyState === WebSocket.OPEN) {
+        console.log("🔄 Closing existing WebSocket connection before reconnecting");
+        ws.close();
+      }
+
+      const socket = new WebSocket(wsUrl);
+      ws = socket;
+      setStatus(attempt === 0 ? "connecting" : "reconnecting");
+      console.log("🔌 Attempting WebSocket connection to:", wsUrl);
+
+      socket.onopen = () => {
+        console.log("✅ WebSocket connected successfully");
+        attempt = 0;
+        setStatus("open");
+        startHeartbeat(socket);
+      };
+
+      socket.onmessage = (event) => {
+        lastMessageAt = Date.now();
+        const parsed = parseSocketPayload(event.data.toString());
+        if (parsed.pong && !heartbeatConfirmed) {
+          console.log("💓 WebSocket heartbeat confirmed by backend");
+          heartbeatConfirmed = true;
+        }
+        recordStats(parsed);
+        parsed.messages.forEach(dispatch);
+      };
+
+      socket.onerror = (error) => {
+        console.error("❌ WebSocket error:", error);
+      };
+
+      socket.onclose = (event) => {
+        console.log("🔌 WebSocket closed:", {
+          code: event.code,
+          reason: event.reason,
+          wasClean: event.wasClean,
+        });
+        if (ws !== socket) return;
+        stopHeartbeat();
+        ws = null;
+
+        // Only reconnect if not manually closed
+        if (manuallyClosed || event.code === 1000) {
+          setStatus("closed");
+          return;
+        }
+        scheduleReconnect();
+      };
+    } catch (error) {
+      console.error("❌ WebSocket connection failed:", error);
+      scheduleReconnect();
+    }
+  };
+
+  return {
+    subscribe(type, handler) {
+      let typeHandlers = handlers.get(type);
+      if (!typeHandlers) {
+        typeHandlers = new Set();
+        handlers.set(type, typeHandlers);
+      }
+      const wrapped = handler as (message: DonationSocketMessage) => void;
+      typeHandlers.add(wrapped);
+      return () => {
+        typeHandlers.delete(wrapped);
+      };
+    },
+    onStatusChange(listener) {
+      statusListeners.add(listener);
+      listener(status);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+    getStatus() {
+      return status;
+    },
+    onStatsChange(listener) {
+      statsListeners.add(listener);
+      listener(stats);
+      return () => {
+        statsListeners.delete(listener);
+      };
+    },
+    getStats() {
+      return stats;
+    },
+    connect() {
+      openSimulator();
+      if (ws || reconnectTimeout || mockStream) return;
+      manuallyClosed = false;
+      attempt = 0;
+      if (isMockSocket()) {
+        openMockStream();
+        return;
+      }
+      open();
+    },
+    close() {
+      manuallyClosed = true;
+      closeSimulator();
+      mockStream?.close();
+      mockStream = null;
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+        reconnectTimeout = null;
+      }
+      stopHeartbeat();
+      if (ws) {
+        const socket = ws;
+        ws = null;
+        socket.close(1000);
+      }
+      setStatus("closed");
+    },
+  };
+}
+
+// One shared connection per page, reference counted by useDonationSocket
+let sharedSocket: DonationSocket | null = null;
+let sharedRefs = 0;
+
+export function acquireDonationSocket(): DonationSocket {
+  if (!sharedSocket) {
+    sharedSocket = createDonationSocket();
+  }
+  sharedRefs += 1;
+  sharedSocket.connect();
+  return sharedSocket;
+}
+
+// The shared socket without connecting it, or null before anything acquired it
+export function getSharedDonationSocket(): DonationSocket | null {
+  return sharedSocket;
+}
+
+export function releaseDonationSocket() {
+  sharedRefs = Math.max(0, sharedRefs - 1);
+  if (sharedRefs === 0 && sharedSocket) {
+    sharedSocket.close();
+  }
+}
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import type { ApiClient } from "@/lib/api-client";
+import { loadPricing } from "@/lib/pricing";
+import type { FxRate, PricingConfig } from "@/types/pricing";
+
+// USD→IDR rate for crypto donations. Crypto amounts are entered in USD; the
+// donate form's IDR preview and the overlays convert them with the backend's
+// live quote (/payment/fx-rate), cached for FX_RATE_TTL_MS. Without a quote
+// the pricing config's usdToIdrRate (itself defaulting to USD_TO_IDR_RATE)
+// applies.
+
+export const FX_RATE_TTL_MS = 5 * 60 * 1000;
+// When a refresh fails, the last quote is still used until it is this old
+export const FX_RATE_MAX_AGE_MS = 30 * 60 * 1000;
+
+const fxRateResponseSchema = z.object({
+  rate: z.number().positive(),
+  updatedAt: z.string().optional(),
+});
+
+let cachedRate: { value: FxRate; fetchedAt: number } | null = null;
+let fxRatePromise: Promise<FxRate | null> | null = null;
+
+// Helper function to get the last quote unless it is too old to trust
+function getLastGoodRate(): FxRate | null {
+  return cachedRate && Date.now() - cachedRate.fetchedAt < FX_RATE_MAX_AGE_MS ? cachedRate.value : null;
+}
+
+// Resolves to null when the backend has no usable quote (and the last one is
+// stale); callers fall back to configFxRate()
+export function loadFxRate(client: ApiClient): Promise<FxRate | null> {
+  if (cachedRate && Date.now() - cachedRate.fetchedAt < FX_RATE_TTL_MS) {
+    return Promise.resolve(cachedRate.value);
+  }
+  if (!fxRatePromise) {
+    fxRatePromise = client.pricing
+      .fxRate()
+      .then((raw) => {
+        const result = fxRateResponseSchema.safeParse(raw);
+        if (!result.success) {
+          console.warn("⚠️ Invalid FX rate, keeping the last quote:", result.error.issues);
+          return getLastGoodRate();
+        }
+        const value: FxRate = {
+          rate: result.data.rate,
+          source: "live",
+          updatedAt: result.data.updatedAt ?? new Date().toISOString(),
+        };
+        cachedRate = { value, fetchedAt: Date.now() };
+        return value;
+      })
+      .catch((error) => {
+        console.warn("⚠️ Failed to load FX rate, keeping the last quote:", error);
+        return getLastGoodRate();
+      })
+      .finally(() => {
+        fxRatePromise = null;
+      });
+  }
+  return fxRatePromise;
+}
+
+// Rate for converting amounts once, e.g. a page of donation history, rather
+// than tracking it like useFxRate()
+export async function resolveUsdToIdrRate(client: ApiClient): Promise<number> {
+  const liveRate = await loadFxRate(client);
+  return liveRate ? liveRate.rate : (await loadPricing(client)).usdToIdrRate;
+}
+
+export function configFxRate(pricing: PricingConfig): FxRate {
+  return { rate: pricing.usdToIdrRate, source: "config" };
+}
+
+// Shown next to converted amounts, e.g. "Kurs Rp16.500/USD per 14.05"
+export function describeFxRate(fxRate: FxRate): string {
+  const rate = `Rp${Math.round(fxRate.rate).toLocaleString("id-ID")}/USD`;
+  if (fxRate.source === "config" || !fxRate.updatedAt) {
+    return `Kurs tetap ${rate}`;
+  }
+  const time = new Date(fxRate.updatedAt).toLocaleTimeString("id-ID", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `Kurs ${rate} per ${time}`;
+}
@@ -0,0 +1,101 @@
+import { donationAmountToIdr } from "@/lib/currency";
+import { isWithinTimeWindow, type TimeWindow, type TimeWindowOptions } from "@/lib/time-window";
+import type { DonationHistory } from "@/types/donation";
+import type { DonationSocketHistory } from "@/types/socket";
+
+// Top donors aggregated per donor over a time window. Donors are matched by
+// email when the backend provides one, otherwise by normalized name, so
+// "Budi", "budi " and "BUDI" count as the same person.
+
+export type LeaderboardWindow = Extract<TimeWindow, "session" | "1day" | "1week" | "1month" | "all">;
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ["session", "1day", "1week", "1month", "all"];
+
+export const LEADERBOARD_WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  session: "Sesi Ini",
+  "1day": "Hari Ini",
+  "1week": "Minggu Ini",
+  "1month": "Bulan Ini",
+  all: "Sepanjang Masa",
+};
+
+export interface LeaderboardDonation {
+  id: string;
+  donorName: string;
+  donorEmail?: string;
+  amountIdr: number;
+  createdAt: string;
+}
+
+export interface LeaderboardEntry {
+  key: string;
+  donorName: string; // Name used on the donor's latest donation
+  total: number; // IDR
+  count: number;
+  lastDonatedAt: string;
+}
+
+export function normalizeDonorKey(donorName: string, donorEmail?: string): string {
+  const email = donorEmail?.trim().toLowerCase();
+  if (email) return `email:${email}`;
+  return `name:${donorName.trim().toLowerCase().replace(/\s+/g, " ")}`;
+}
+
+// Crypto amounts are converted with usdToIdrRate (see lib/fx-rate)
+export function fromHistory(donation: DonationHistory, usdToIdrRate?: number): LeaderboardDonation {
+  return {
+    id: donation.id,
+    donorName: donation.donorName,
+    donorEmail: donation.donorEmail,
+    amountIdr: donationAmountToIdr(donation.amount, donation.payment?.paymentMethod, usdToIdrRate),
+    createdAt: donation.createdAt,
+  };
+}
+
+export function fromHistoryMessage(message: DonationSocketHistory, usdToIdrRate?: number): LeaderboardDonation {
+  return {
+    id: message.id,
+    donorName: message.donorName,
+    amountIdr: donationAmountToIdr(message.amount, message.paymentMethod, usdToIdrRate),
+    createdAt: message.createdAt || new Date().toISOString(),
+  };
+}
+
+export function buildLeaderboard(
+  donations: LeaderboardDonation[],
+  timeWindow: LeaderboardWindow,
+  options: TimeWindowOptions = {}
+): LeaderboardEntry[] {
+  const entries = new Map<string, LeaderboardEntry>();
+
+  for (const donation of donations) {
+    if (!isWithinTimeWindow(donation.createdAt, timeWindow, options)) continue;
+
+    const key = normalizeDonorKey(donation.donorName, donation.donorEmail);
+    const entry = entries.get(key);
+    if (!entry) {
+      entries.set(key, {
+        key,
+        donorName: donation.donorName.trim(),
+        total: donation.amountIdr,
+        count: 1,
+        lastDonatedAt: donation.createdAt,
+      });
+      continue;
+    }
+
+    entry.total += donation.amountIdr;
+    entry.count += 1;
+    if (new Date(donation.createdAt).getTime() > new Date(entry.lastDonatedAt).getTime()) {
+      entry.lastDonatedAt = donation.createdAt;
+      entry.donorName = donation.donorName.trim();
+    }
+  }
+
+  // Ties go to whoever reached the total first
+  return Array.from(entries.values()).sort(
+    (a, b) =>
+      b.total - a.total ||
+      new Date(a.lastDonatedAt).getTime() - new Date(b.lastDonatedAt).getTime()
+  );
+}
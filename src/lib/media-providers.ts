@@ -0,0 +1,279 @@
+import {
+  extractInstagramId,
+  extractTikTokId,
+  extractYouTubeId,
+  isInstagramUrl,
+  isTikTokUrl,
+  isYouTubeUrl,
+} from "@/lib/media-url";
+
+// Registry of media-share sources. The donation form, the history page and the
+// gif overlay all resolve links through here, so a link is playable on stream
+// exactly when the form accepts it. The provider id is what the form sends as
+// `mediaType`. Register extra sources with registerMediaProvider().
+
+// How the overlay mounts the media
+export type MediaPlayer = "youtube" | "tiktok" | "iframe" | "video" | "image";
+
+// "player": the embed's JS API reports the end (YouTube), "media-element": the
+// <video> ended event, "timer": the donation duration is the only signal
+export type MediaEndDetection = "player" | "media-element" | "timer";
+
+export interface MediaEmbedOptions {
+  autoplay?: boolean;
+  muted?: boolean;
+  controls?: boolean;
+  startTime?: number; // Seconds, ignored unless supportsStartTime
+  endTime?: number; // Seconds, ignored unless supportsStartTime
+  parent?: string; // Embedding page hostname, required by Twitch
+}
+
+export interface MediaProvider {
+  id: string;
+  label: string;
+  player: MediaPlayer;
+  // Cheap host/path check; extractId decides whether the link is playable
+  matches: (url: URL) => boolean;
+  extractId: (url: URL) => string | null;
+  embedUrl: (id: string, options?: MediaEmbedOptions) => string;
+  thumbnailUrl?: (id: string) => string;
+  // Start/end times (clip selection) are honored by the embed
+  supportsStartTime: boolean;
+  endDetection: MediaEndDetection;
+  // Direct files: trust a matching `mediaType` when the URL has no extension
+  direct?: boolean;
+  // Shown when matches() passes but extractId() fails
+  invalidMessage: string;
+  note?: string;
+}
+
+export interface ResolvedMedia {
+  provider: MediaProvider;
+  id: string;
+  url: string;
+}
+
+export type MediaUrlCheck = ({ ok: true } & ResolvedMedia) | { ok: false; reason: string };
+
+const IMAGE_EXTENSIONS = ["gif", "png", "jpg", "jpeg", "webp"];
+const VIDEO_EXTENSIONS = ["mp4", "webm", "mov"];
+
+// Helper function to get the lowercase file extension of a URL path
+function getFileExtension(url: URL): string {
+  const match = url.pathname.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match ? match[1] : "";
+}
+
+// Helper function to get the first path segment after a prefix, e.g. /shorts/{id}
+function getPathSegmentAfter(url: URL, prefix: string): string | null {
+  const segments = url.pathname.split("/").filter(Boolean);
+  const index = segments.indexOf(prefix);
+  return index >= 0 && segments[index + 1] ? segments[index + 1] : null;
+}
+
+// Helper function to check the hostname, including subdomains
+function isHost(url: URL, host: string): boolean {
+  return url.hostname === host || url.hostname.endsWith(`.${host}`);
+}
+
+function youtubeEmbedUrl(
+  id: string,
+  { autoplay, muted, controls = true, startTime, endTime }: MediaEmbedOptions = {}
+): string {
+  const end = endTime ? `&end=${endTime}` : "";
+  return `https://www.youtube.com/embed/${id}?autoplay=${autoplay ? 1 : 0}&mute=${muted ? 1 : 0}&controls=${controls ? 1 : 0}&rel=0&modestbranding=1&playsinline=1&start=${startTime || 0}${end}&enablejsapi=1`;
+}
+
+function youtubeThumbnailUrl(id: string): string {
+  return `https://i.ytimg.com/vi/${id}/hqdefault.jpg`;
+}
+
+function instagramEmbedUrl(type: "reel" | "p") {
+  return (id: string, { autoplay }: MediaEmbedOptions = {}) =>
+    `https://www.instagram.com/${type}/${id}/embed/${autoplay ? "?autoplay=1&playsinline=1" : ""}`;
+}
+
+const providers: MediaProvider[] = [
+  {
+    id: "youtube_shorts",
+    label: "YouTube Shorts",
+    player: "youtube",
+    matches: (url) => isYouTubeUrl(url.href) && url.pathname.startsWith("/shorts/"),
+    extractId: (url) => getPathSegmentAfter(url, "shorts"),
+    embedUrl: youtubeEmbedUrl,
+    thumbnailUrl: youtubeThumbnailUrl,
+    supportsStartTime: true,
+    endDetection: "player",
+    invalidMessage: "Link YouTube Shorts tidak dikenali (youtube.com/shorts/...)",
+  },
+  {
+    id: "youtube",
+    label: "YouTube",
+    player: "youtube",
+    matches: (url) => isYouTubeUrl(url.href),
+    extractId: (url) => extractYouTubeId(url.href),
+    embedUrl: youtubeEmbedUrl,
+    thumbnailUrl: youtubeThumbnailUrl,
+    supportsStartTime: true,
+    endDetection: "player",
+    invalidMessage: "Link YouTube tidak dikenali. Gunakan link video (youtube.com/watch?v=... atau youtu.be/...)",
+  },
+  {
+    id: "tiktok",
+    label: "TikTok",
+    player: "tiktok",
+    matches: (url) => isTikTokUrl(url.href),
+    // Short links (vm.tiktok.com, tiktok.com/t/...) only resolve via redirect,
+    // the embed needs the numeric video ID
+    extractId: (url) => {
+      const id = extractTikTokId(url.href);
+      return id && /^\d+$/.test(id) ? id : null;
+    },
+    embedUrl: (id, { autoplay, muted }: MediaEmbedOptions = {}) =>
+      `https://www.tiktok.com/embed/v2/${id}?autoplay=${autoplay ? 1 : 0}&muted=${muted ? 1 : 0}`,
+    supportsStartTime: false,
+    endDetection: "timer",
+    invalidMessage: "Link pendek TikTok tidak didukung. Buka videonya dan salin link lengkap (tiktok.com/@user/video/...)",
+  },
+  {
+    id: "instagram_reel",
+    label: "Instagram Reel",
+    player: "iframe",
+    matches: (url) => isInstagramUrl(url.href) && extractInstagramId(url.href)?.type === "reel",
+    extractId: (url) => extractInstagramId(url.href)?.id ?? null,
+    embedUrl: instagramEmbedUrl("reel"),
+    supportsStartTime: false,
+    endDetection: "timer",
+    invalidMessage: "Link Instagram Reel tidak dikenali (instagram.com/reel/...)",
+    note: "Reel dari akun private tidak bisa diputar",
+  },
+  {
+    id: "instagram_post",
+    label: "Instagram Post",
+    player: "iframe",
+    matches: (url) => isInstagramUrl(url.href),
+    extractId: (url) => {
+      const instagramData = extractInstagramId(url.href);
+      return instagramData?.type === "post" ? instagramData.id : null;
+    },
+    embedUrl: instagramEmbedUrl("p"),
+    supportsStartTime: false,
+    endDetection: "timer",
+    invalidMessage: "Link Instagram harus berupa reel atau post (instagram.com/reel/... atau instagram.com/p/...)",
+    note: "Post dari akun private tidak bisa diputar",
+  },
+  {
+    id: "twitch_clip",
+    label: "Twitch Clip",
+    player: "iframe",
+    matches: (url) => isHost(url, "clips.twitch.tv") || (isHost(url, "twitch.tv") && url.pathname.includes("/clip/")),
+    extractId: (url) =>
+      isHost(url, "clips.twitch.tv") ? url.pathname.split("/").filter(Boolean)[0] ?? null : getPathSegmentAfter(url, "clip"),
+    embedUrl: (id, { autoplay, muted, parent }: MediaEmbedOptions = {}) =>
+      `https://clips.twitch.tv/embed?clip=${encodeURIComponent(id)}&parent=${parent || "localhost"}&autoplay=${!!autoplay}&muted=${!!muted}`,
+    supportsStartTime: false,
+    endDetection: "timer",
+    invalidMessage: "Link Twitch harus berupa clip (clips.twitch.tv/... atau twitch.tv/<channel>/clip/...)",
+  },
+  {
+    id: "streamable",
+    label: "Streamable",
+    player: "iframe",
+    matches: (url) => isHost(url, "streamable.com"),
+    extractId: (url) => {
+      const segments = url.pathname.split("/").filter(Boolean);
+      const id = segments[0] === "e" ? segments[1] : segments[0];
+      return id && /^[a-z0-9]+$/i.test(id) ? id : null;
+    },
+    embedUrl: (id, { autoplay, muted }: MediaEmbedOptions = {}) =>
+      `https://streamable.com/e/${id}?autoplay=${autoplay ? 1 : 0}&muted=${muted ? 1 : 0}`,
+    supportsStartTime: false,
+    endDetection: "timer",
+    invalidMessage: "Link Streamable tidak dikenali (streamable.com/...)",
+  },
+  {
+    id: "image",
+    label: "Gambar",
+    player: "image",
+    matches: (url) => IMAGE_EXTENSIONS.includes(getFileExtension(url)),
+    extractId: (url) => url.href,
+    embedUrl: (id) => id,
+    thumbnailUrl: (id) => id,
+    supportsStartTime: false,
+    endDetection: "timer",
+    direct: true,
+    invalidMessage: "Link gambar tidak valid",
+  },
+  {
+    id: "video",
+    label: "Video",
+    player: "video",
+    matches: (url) => VIDEO_EXTENSIONS.includes(getFileExtension(url)),
+    extractId: (url) => url.href,
+    embedUrl: (id) => id,
+    supportsStartTime: false,
+    endDetection: "media-element",
+    direct: true,
+    invalidMessage: "Link video tidak valid",
+  },
+];
+
+// Custom providers are checked before the built-in ones; re-registering an
+// id replaces it
+export function registerMediaProvider(provider: MediaProvider): void {
+  const existing = providers.findIndex((known) => known.id === provider.id);
+  if (existing >= 0) providers.splice(existing, 1);
+  providers.unshift(provider);
+}
+
+export function getMediaProvider(id?: string | null): MediaProvider | null {
+  return providers.find((provider) => provider.id === id) ?? null;
+}
+
+// Helper function to parse an absolute http(s) URL
+function parseMediaUrl(rawUrl: string): URL | null {
+  try {
+    const url = new URL(rawUrl.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to pick the provider for a URL, falling back to a direct-file
+// mediaType hint for extension-less links (e.g. CDN URLs)
+function findProvider(url: URL, mediaType?: string): MediaProvider | null {
+  const matched = providers.find((provider) => provider.matches(url));
+  if (matched) return matched;
+  const hinted = getMediaProvider(mediaType);
+  return hinted?.direct ? hinted : null;
+}
+
+// Resolve a media-share link to its provider and ID, or null when it can't play
+export function resolveMedia(rawUrl: string, mediaType?: string): ResolvedMedia | null {
+  const url = parseMediaUrl(rawUrl);
+  if (!url) return null;
+  const provider = findProvider(url, mediaType);
+  const id = provider?.extractId(url);
+  return provider && id ? { provider, id, url: url.href } : null;
+}
+
+// Same resolution as resolveMedia, with a reason the donor can act on
+export function validateMediaUrl(rawUrl: string): MediaUrlCheck {
+  const url = parseMediaUrl(rawUrl);
+  if (!url) {
+    return { ok: false, reason: "Format URL tidak valid (harus diawali http:// atau https://)" };
+  }
+  const provider = findProvider(url);
+  if (!provider) {
+    return {
+      ok: false,
+      reason: "Link tidak didukung. Gunakan YouTube, TikTok, Instagram, Twitch Clip, Streamable, atau link langsung ke file gambar/video",
+    };
+  }
+  const id = provider.extractId(url);
+  if (!id) {
+    return { ok: false, reason: provider.invalidMessage };
+  }
+  return { ok: true, provider, id, url: url.href };
+}
@@ -0,0 +1,93 @@
+// URL helpers for media-share donations (YouTube, Instagram, TikTok).
+// Used by the provider registry in media-providers.ts.
+
+// Helper function to extract YouTube video ID
+export function extractYouTubeId(url: string): string | null {
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
+    /youtube\.com\/watch\?.*v=([^&\n?#]+)/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match && match[1]) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+// Helper function to extract Instagram Reel ID and type
+export function extractInstagramId(url: string): { id: string; type: "reel" | "post" } | null {
+  const reelPattern = /instagram\.com\/reel\/([^\/\?]+)/;
+  const postPattern = /instagram\.com\/p\/([^\/\?]+)/;
+  
+  const reelMatch = url.match(reelPattern);
+  if (reelMatch && reelMatch[1]) {
+    return { id: reelMatch[1], type: "reel" };
+  }
+  
+  const postMatch = url.match(postPattern);
+  if (postMatch && postMatch[1]) {
+    return { id: postMatch[1], type: "post" };
+  }
+
+  return null;
+}
+
+// Helper function to extract TikTok video ID from URL
+export function extractTikTokId(url: string): string | null {
+  // TikTok URL formats:
+  // https://www.tiktok.com/@username/video/VIDEO_ID?query=params
+  // https://vm.tiktok.com/CODE
+  // https://tiktok.com/@username/video/VIDEO_ID
+  const patterns = [
+    /tiktok\.com\/@[^\/\?]+\/video\/(\d+)/,  // Match @username/video/ID with optional query params
+    /tiktok\.com\/.*\/video\/(\d+)/,         // Match any path with /video/ID
+    /vm\.tiktok\.com\/([^\/\?]+)/,           // Match vm.tiktok.com short links
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match && match[1]) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+// Helper function to check if URL is YouTube
+export function isYouTubeUrl(url: string): boolean {
+  return /youtube\.com|youtu\.be/.test(url);
+}
+
+// Helper function to check if URL is Instagram
+export function isInstagramUrl(url: string): boolean {
+  return /instagram\.com/.test(url);
+}
+
+// Helper function to check if URL is TikTok
+export function isTikTokUrl(url: string): boolean {
+  return /tiktok\.com/.test(url);
+}
+
+// Helper function to read the start time of a pasted link (?t=, ?start= or
+// #t=) in seconds. Accepts "90", "90s" and "1h2m3s" forms.
+export function extractStartTime(url: string): number | null {
+  const match = url.match(/[?&#](?:t|start)=([0-9hms]+)/);
+  if (!match) return null;
+
+  const value = match[1];
+  if (/^\d+s?$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  const parts = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!parts || !(parts[1] || parts[2] || parts[3])) return null;
+  return (
+    parseInt(parts[1] || "0", 10) * 3600 +
+    parseInt(parts[2] || "0", 10) * 60 +
+    parseInt(parts[3] || "0", 10)
+  );
+}
@@ -0,0 +1,541 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { donationAmountToIdr } from "@/lib/currency";
+import mockPricing from "@/lib/mock-pricing.json";
+import { ROLES } from "@/lib/permissions";
+import { calculateDisplayDuration, parsePricingConfig } from "@/lib/pricing";
+import { calculateSubathonExtension, DEFAULT_SECONDS_PER_1000, type SubathonState } from "@/lib/subathon";
+import type { DonationHistory } from "@/types/donation";
+import type { ModerationItem, ModerationSettings, ModerationStatus } from "@/types/moderation";
+import type { FxRateQuote } from "@/types/pricing";
+import type {
+  DonationSocketMessage,
+  DonationSocketPaymentStatus,
+  DonationSocketSubathon,
+} from "@/types/socket";
+
+// In-memory stand-in for the donation backend, served from /api/mock/* when
+// NEXT_PUBLIC_MOCK_BACKEND=1. Point NEXT_PUBLIC_API_URL at /api/mock and the
+// donate -> pay -> overlay flow runs without the real backend. State lives on
+// globalThis so dev-server hot reloads keep payments and connected overlays.
+
+export type MockPaymentStatus = DonationSocketPaymentStatus["status"];
+
+export interface MockPayment {
+  id: string;
+  orderId: string;
+  donorName: string;
+  donorEmail?: string;
+  amount: number; // IDR, or USD cents for crypto
+  totalAmount: number;
+  status: MockPaymentStatus;
+  paymentMethod: string;
+  donationType: "gif" | "text";
+  mediaUrl?: string;
+  mediaType?: string;
+  startTime?: number;
+  endTime?: number;
+  message?: string;
+  notes?: string;
+  vaNumber?: string;
+  bankType?: string;
+  redirectUrl?: string;
+  expiryTime?: string;
+  plisioCurrency?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type MockStreamClient = (payload: string) => void;
+
+// Held media donation plus the record it becomes once approved
+interface MockModerationEntry {
+  item: ModerationItem;
+  donation: DonationHistory;
+}
+
+interface MockStore {
+  payments: Map<string, MockPayment>;
+  history: DonationHistory[];
+  clients: Set<MockStreamClient>;
+  fxRate?: FxRateQuote;
+  subathon: SubathonState | null;
+  moderation: MockModerationEntry[];
+  moderationSettings: ModerationSettings;
+}
+
+const globalForMock = globalThis as typeof globalThis & { __donateMockStore?: MockStore };
+
+export function getMockStore(): MockStore {
+  if (!globalForMock.__donateMockStore) {
+    globalForMock.__donateMockStore = {
+      payments: new Map(),
+      history: [],
+      clients: new Set(),
+      subathon: null,
+      moderation: [],
+      moderationSettings: { enabled: false },
+    };
+  }
+  return globalForMock.__donateMockStore;
+}
+
+export function isMockBackendEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_MOCK_BACKEND === "1";
+}
+
+// Pending payments settle on their own after this long; 0 waits for /payment/webhook
+export function getMockAutoPayMs(): number {
+  const value = Number(process.env.MOCK_AUTO_PAY_MS ?? 8000);
+  return isNaN(value) || value < 0 ? 8000 : value;
+}
+
+// Short-lived mock access tokens so the refresh flow gets exercised (seconds)
+export const MOCK_TOKEN_EXPIRES_IN = 15 * 60;
+
+// Every emailed mock OTP (registration and password reset) is this code
+export const MOCK_OTP_CODE = "123456";
+
+// Token response for a mock account; the role comes from the email prefix
+// (owner@, admin@, moderator@, viewer@), anything else is a plain user
+export function createMockAuthResponse(email: string, fullName?: string) {
+  const userType = ROLES.find((role) => email.toLowerCase().startsWith(role)) ?? "user";
+  return {
+    success: true,
+    access_token: `mock-access-${crypto.randomUUID()}`,
+    refresh_token: `mock-refresh-${crypto.randomUUID()}`,
+    expires_in: MOCK_TOKEN_EXPIRES_IN,
+    user: {
+      id: `mock-${userType}`,
+      email,
+      full_name: fullName || `Mock ${userType.charAt(0).toUpperCase()}${userType.slice(1)}`,
+      is_verified: true,
+      user_type: userType,
+      login_type: "email",
+      created_at: new Date().toISOString(),
+    },
+  };
+}
+
+type MockHandler = (req: NextApiRequest, res: NextApiResponse) => void | Promise<void>;
+
+// Helper function to guard a mock route: 404 unless opted in, 405 on other methods
+export function mockRoute(methods: string[], handler: MockHandler): MockHandler {
+  return async (req, res) => {
+    if (!isMockBackendEnabled()) {
+      res.status(404).json({ success: false, error: "Mock backend is disabled" });
+      return;
+    }
+    if (!methods.includes(req.method || "GET")) {
+      res.setHeader("Allow", methods.join(", "));
+      res.status(405).json({ success: false, error: `Method ${req.method} not allowed` });
+      return;
+    }
+    await handler(req, res);
+  };
+}
+
+// Helper function to guard an admin mock route; any bearer token is accepted
+export function mockAdminRoute(methods: string[], handler: MockHandler): MockHandler {
+  return mockRoute(methods, (req, res) => {
+    if (!req.headers.authorization) {
+      res.status(401).json({ success: false, error: "Unauthorized" });
+      return;
+    }
+    return handler(req, res);
+  });
+}
+
+// Send frames to every connected overlay, batched like the real /ws
+export function emitMockFrames(frames: DonationSocketMessage[]) {
+  const payload = frames.map((frame) => JSON.stringify(frame)).join("\n");
+  getMockStore().clients.forEach((send) => send(payload));
+}
+
+// Same rules the overlays apply, from the file /payment/pricing serves
+const pricing = parsePricingConfig(mockPricing);
+
+// A new quote every minute, drifting up to 1% around mock-pricing.json's rate
+const MOCK_FX_RATE_INTERVAL_MS = 60 * 1000;
+
+export function getMockFxRate(): FxRateQuote {
+  const store = getMockStore();
+  if (!store.fxRate || Date.now() - Date.parse(store.fxRate.updatedAt) >= MOCK_FX_RATE_INTERVAL_MS) {
+    const drift = 1 + (Math.random() * 2 - 1) * 0.01;
+    store.fxRate = { rate: Math.round(pricing.usdToIdrRate * drift), updatedAt: new Date().toISOString() };
+  }
+  return store.fxRate;
+}
+
+// Helper function to convert a stored donation to IDR at the current mock quote
+function getMockAmountIdr(donation: DonationHistory): number {
+  return donationAmountToIdr(donation.amount, donation.payment?.paymentMethod, getMockFxRate().rate);
+}
+
+function calculateMockDuration(donation: DonationHistory): number {
+  return calculateDisplayDuration(pricing, getMockAmountIdr(donation), {
+    donationType: donation.type,
+    mediaType: donation.mediaType,
+  });
+}
+
+function randomDigits(length: number): string {
+  return Array.from({ length }, () => Math.floor(Math.random() * 10)).join("");
+}
+
+export interface MockPaymentInput {
+  donorName: string;
+  donorEmail?: string;
+  amount: number;
+  donationType: "gif" | "text";
+  paymentMethod: string;
+  bank?: string;
+  currency?: string;
+  mediaUrl?: string;
+  mediaType?: string;
+  startTime?: number;
+  endTime?: number;
+  message?: string;
+  notes?: string;
+}
+
+export function createMockPayment(input: MockPaymentInput): MockPayment {
+  const now = new Date();
+  const id = crypto.randomUUID();
+  const payment: MockPayment = {
+    id,
+    orderId: `MOCK-${now.getTime()}-${randomDigits(4)}`,
+    donorName: input.donorName,
+    donorEmail: input.donorEmail || undefined,
+    amount: input.amount,
+    totalAmount: input.amount,
+    status: "PENDING",
+    paymentMethod: input.paymentMethod,
+    donationType: input.donationType,
+    mediaUrl: input.mediaUrl || undefined,
+    mediaType: input.mediaType || undefined,
+    startTime: input.startTime,
+    endTime: input.endTime,
+    message: input.message,
+    notes: input.notes || undefined,
+    vaNumber: input.paymentMethod === "bank_transfer" ? `8808${randomDigits(12)}` : undefined,
+    bankType: input.paymentMethod === "bank_transfer" ? input.bank : undefined,
+    expiryTime: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+    plisioCurrency: input.paymentMethod === "crypto" ? input.currency || "BTC" : undefined,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  getMockStore().payments.set(id, payment);
+  console.log("🧪 Mock payment created:", { id, orderId: payment.orderId, amount: payment.amount });
+
+  const autoPayMs = getMockAutoPayMs();
+  if (autoPayMs > 0) {
+    setTimeout(() => {
+      const current = getMockStore().payments.get(id);
+      if (current?.status === "PENDING") setMockPaymentStatus(current, "SUCCESS");
+    }, autoPayMs);
+  }
+  return payment;
+}
+
+export function findMockPayment(idOrOrderId: string): MockPayment | undefined {
+  const { payments } = getMockStore();
+  return (
+    payments.get(idOrOrderId) ||
+    Array.from(payments.values()).find((payment) => payment.orderId === idOrOrderId)
+  );
+}
+
+// Apply a payment status change like a payment gateway webhook would
+export function setMockPaymentStatus(payment: MockPayment, status: MockPaymentStatus): MockPayment {
+  if (payment.status === status) return payment;
+
+  payment.status = status;
+  payment.updatedAt = new Date().toISOString();
+  console.log("🧪 Mock payment status:", { orderId: payment.orderId, status });
+
+  const frames: DonationSocketMessage[] = [
+    {
+      type: "payment_status",
+      paymentId: payment.id,
+      orderId: payment.orderId,
+      status,
+      donorName: payment.donorName,
+      amount: payment.amount,
+      donationType: payment.donationType,
+      message: payment.message,
+      mediaUrl: payment.mediaUrl,
+      mediaType: payment.mediaType,
+      startTime: payment.startTime,
+    },
+  ];
+  if (status === "SUCCESS") {
+    frames.push(...recordMockDonation(payment));
+  }
+  emitMockFrames(frames);
+  return payment;
+}
+
+// Paid donation: held for review when it is a media share and moderation is
+// on, otherwise stored in history and sent to the overlays
+function recordMockDonation(payment: MockPayment): DonationSocketMessage[] {
+  const donation: DonationHistory = {
+    id: payment.id,
+    type: payment.donationType,
+    mediaUrl: payment.mediaUrl,
+    mediaType: payment.mediaType,
+    startTime: payment.startTime,
+    endTime: payment.endTime,
+    donorName: payment.donorName,
+    donorEmail: payment.donorEmail,
+    amount: payment.amount,
+    message: payment.message,
+    createdAt: payment.updatedAt,
+    payment: {
+      paymentMethod: payment.paymentMethod,
+      paymentType: payment.paymentMethod === "crypto" ? "plisio" : "midtrans",
+      plisioCurrency: payment.plisioCurrency,
+    },
+  };
+
+  const store = getMockStore();
+  if (donation.type === "gif" && donation.mediaUrl && store.moderationSettings.enabled) {
+    const item: ModerationItem = {
+      id: donation.id,
+      status: "PENDING",
+      donorName: donation.donorName,
+      amount: donation.amount,
+      message: donation.message,
+      mediaUrl: donation.mediaUrl,
+      mediaType: donation.mediaType,
+      startTime: donation.startTime,
+      endTime: donation.endTime,
+      createdAt: donation.createdAt,
+      payment: donation.payment,
+    };
+    store.moderation.unshift({ item, donation });
+    console.log("🧪 Mock media donation held for review:", item.id);
+    return [toModerationFrame(item)];
+  }
+  return publishMockDonation(donation);
+}
+
+// Store the donation in history and build its history, overlay and subathon frames
+function publishMockDonation(donation: DonationHistory): DonationSocketMessage[] {
+  getMockStore().history.unshift(donation);
+
+  const frames: DonationSocketMessage[] = [
+    {
+      type: "history",
+      id: donation.id,
+      donorName: donation.donorName,
+      amount: donation.amount,
+      message: donation.message,
+      mediaUrl: donation.mediaUrl,
+      mediaType: donation.mediaType,
+      startTime: donation.startTime,
+      endTime: donation.endTime,
+      createdAt: donation.createdAt,
+      ...getMockPaymentInfo(donation),
+    },
+    ...buildMockOverlayFrames(donation),
+  ];
+
+  const { subathon } = getMockStore();
+  if (subathon && subathon.status !== "ended") {
+    const addedMs = calculateSubathonExtension(getMockAmountIdr(donation), subathon.secondsPer1000);
+    const frame = extendMockSubathon(subathon, addedMs, "donation");
+    if (frame) frames.push({ ...frame, donorName: donation.donorName });
+  }
+  return frames;
+}
+
+// Helper function to pick the socket payment fields of a stored donation
+function getMockPaymentInfo(donation: DonationHistory) {
+  return {
+    paymentMethod: donation.payment?.paymentMethod,
+    paymentType: donation.payment?.paymentType,
+    plisioCurrency: donation.payment?.plisioCurrency,
+  };
+}
+
+// Overlay frames for a donation: donation + media for media shares, else text
+function buildMockOverlayFrames(donation: DonationHistory, replay?: boolean): DonationSocketMessage[] {
+  const duration = calculateMockDuration(donation);
+  const frame = {
+    id: donation.id,
+    donorName: donation.donorName,
+    amount: donation.amount,
+    message: donation.message,
+    duration,
+    ...getMockPaymentInfo(donation),
+  };
+
+  if (donation.type === "gif" && donation.mediaUrl) {
+    return [
+      { type: "donation", ...frame, replay },
+      {
+        type: "media",
+        id: donation.id,
+        mediaUrl: donation.mediaUrl,
+        mediaType: donation.mediaType,
+        targetTime: donation.startTime,
+        endTime: donation.endTime,
+        duration,
+        replay,
+      },
+    ];
+  }
+  return [{ type: "text", ...frame }];
+}
+
+// Re-send a donation from history to the overlays; false when the id is unknown
+export function replayMockDonation(id: string): boolean {
+  const donation = getMockStore().history.find((entry) => entry.id === id);
+  if (!donation) return false;
+
+  console.log("🧪 Mock replay:", id);
+  emitMockFrames(buildMockOverlayFrames(donation, true));
+  return true;
+}
+
+function toModerationFrame(item: ModerationItem): DonationSocketMessage {
+  return {
+    type: "moderation",
+    id: item.id,
+    status: item.status,
+    donorName: item.donorName,
+    amount: item.amount,
+    message: item.message,
+    mediaUrl: item.mediaUrl,
+    mediaType: item.mediaType,
+    startTime: item.startTime,
+    endTime: item.endTime,
+    reason: item.reason,
+    createdAt: item.createdAt,
+    paymentMethod: item.payment?.paymentMethod,
+    plisioCurrency: item.payment?.plisioCurrency,
+  };
+}
+
+export function listMockModeration(status: ModerationStatus): ModerationItem[] {
+  return getMockStore()
+    .moderation.filter((entry) => entry.item.status === status)
+    .map((entry) => entry.item);
+}
+
+// Approve (and play) or reject a held donation; undefined when it is not pending
+export function reviewMockModeration(
+  id: string,
+  status: Exclude<ModerationStatus, "PENDING">,
+  reason?: string
+): ModerationItem | undefined {
+  const entry = getMockStore().moderation.find(({ item }) => item.id === id);
+  if (!entry || entry.item.status !== "PENDING") return undefined;
+
+  entry.item.status = status;
+  entry.item.reason = reason;
+  console.log("🧪 Mock moderation:", { id, status });
+
+  const frames = [toModerationFrame(entry.item)];
+  if (status === "APPROVED") {
+    frames.push(...publishMockDonation(entry.donation));
+  }
+  emitMockFrames(frames);
+  return entry.item;
+}
+
+export type MockSubathonAction = "start" | "config" | "pause" | "resume" | "adjust" | "stop";
+
+// Helper function to read an optional cap in seconds; null or empty clears it
+function parseMockCap(capSeconds: unknown): number | undefined {
+  const value = Number(capSeconds);
+  return capSeconds !== null && capSeconds !== undefined && value > 0 ? value * 1000 : undefined;
+}
+
+// Apply a subathon admin action the way the backend does and broadcast the
+// new state. Throws with a message for the 400 response on invalid input.
+export function updateMockSubathon(action: MockSubathonAction, body: Record<string, unknown>): SubathonState {
+  const store = getMockStore();
+  const now = Date.now();
+
+  if (action === "start") {
+    const initialMs = Number(body.initialSeconds) * 1000;
+    if (!(initialMs > 0)) throw new Error("initialSeconds must be greater than 0");
+    store.subathon = {
+      status: "running",
+      startedAt: new Date(now).toISOString(),
+      endsAt: new Date(now + initialMs).toISOString(),
+      remainingMs: initialMs,
+      secondsPer1000: Number(body.secondsPer1000) >= 0 ? Number(body.secondsPer1000) : DEFAULT_SECONDS_PER_1000,
+      totalMs: initialMs,
+      capMs: parseMockCap(body.capSeconds),
+    };
+    emitMockFrames([{ type: "subathon", ...store.subathon, reason: "start" }]);
+    return store.subathon;
+  }
+
+  const state = store.subathon;
+  if (!state || state.status === "ended") throw new Error("No subathon is running");
+
+  const remainingMs =
+    state.status === "running" ? Math.max(0, new Date(state.endsAt).getTime() - now) : state.remainingMs;
+
+  switch (action) {
+    case "config":
+      if (!(Number(body.secondsPer1000) >= 0)) throw new Error("secondsPer1000 must be 0 or more");
+      state.secondsPer1000 = Number(body.secondsPer1000);
+      state.capMs = parseMockCap(body.capSeconds);
+      emitMockFrames([{ type: "subathon", ...state }]);
+      break;
+    case "pause":
+      if (state.status !== "running") throw new Error("Subathon is not running");
+      state.status = "paused";
+      state.remainingMs = remainingMs;
+      emitMockFrames([{ type: "subathon", ...state, reason: "pause" }]);
+      break;
+    case "resume":
+      if (state.status !== "paused") throw new Error("Subathon is not paused");
+      state.status = "running";
+      state.endsAt = new Date(now + state.remainingMs).toISOString();
+      emitMockFrames([{ type: "subathon", ...state, reason: "resume" }]);
+      break;
+    case "adjust": {
+      const addedMs = Number(body.seconds) * 1000;
+      if (!addedMs) throw new Error("seconds must be a non-zero number");
+      const frame = extendMockSubathon(state, addedMs, "manual");
+      if (frame) emitMockFrames([frame]);
+      break;
+    }
+    case "stop":
+      state.status = "ended";
+      state.remainingMs = 0;
+      state.endsAt = new Date(now).toISOString();
+      emitMockFrames([{ type: "subathon", ...state, reason: "stop" }]);
+      break;
+  }
+  return state;
+}
+
+// Helper function to add (or remove) time, dropping whatever goes past the cap;
+// returns the frame to broadcast, or null when nothing changed
+function extendMockSubathon(
+  state: SubathonState,
+  addedMs: number,
+  reason: "donation" | "manual"
+): DonationSocketSubathon | null {
+  const now = Date.now();
+  const remainingMs =
+    state.status === "running" ? Math.max(0, new Date(state.endsAt).getTime() - now) : state.remainingMs;
+  const cappedMs = addedMs > 0 && state.capMs !== undefined ? Math.min(addedMs, state.capMs - state.totalMs) : addedMs;
+  // Manual minus can't take more than what is left
+  const appliedMs = Math.max(cappedMs, -remainingMs);
+  // Cap already reached, or nothing left to take away
+  if (addedMs > 0 ? appliedMs <= 0 : appliedMs === 0) return null;
+
+  state.totalMs += appliedMs;
+  state.remainingMs = remainingMs + appliedMs;
+  if (state.status === "running") {
+    state.endsAt = new Date(now + state.remainingMs).toISOString();
+  }
+  return { type: "subathon", ...state, addedMs: appliedMs, reason };
+}
@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { LEADERBOARD_WINDOWS } from "@/lib/leaderboard";
+import type { WordFilterOptions } from "@/lib/word-filter";
+
+// Per-channel look of the OBS overlays (/donate/gif, /donate/text, /donate/time,
+// /donate/goal, /donate/leaderboard).
+// Everything lives in the overlay URL so each streamer can keep their own
+// browser source without a backend round-trip.
+
+export type OverlayKind = "gif" | "text" | "time" | "goal" | "leaderboard";
+
+const booleanParam = z.preprocess(
+  (value) => (typeof value === "string" ? value === "1" || value === "true" : value),
+  z.boolean()
+);
+
+export const overlayConfigSchema = z.object({
+  theme: z.enum(["dark", "light", "transparent"]),
+  accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a #RRGGBB color"),
+  fontFamily: z.enum(["sans", "serif", "mono"]),
+  // Where the donation card sits on screen
+  anchor: z.enum(["top", "center", "bottom"]),
+  fontScale: z.coerce.number().min(0.5).max(3),
+  // Empty string disables the alert sound
+  soundUrl: z.string(),
+  volume: z.coerce.number().min(0).max(1),
+  // Donations below this IDR amount are not shown
+  minAmount: z.coerce.number().int().nonnegative(),
+  messageLength: z.coerce.number().int().min(0).max(1000),
+  queueBadge: booleanParam,
+  // Mask profanity and strip links in donor names and messages
+  wordFilter: booleanParam,
+  // Comma-separated extra words to mask
+  blockedWords: z.string(),
+  // Text-to-speech for the text overlay
+  tts: booleanParam,
+  ttsLang: z.string().regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/, "Must be a BCP 47 language tag"),
+  // Empty picks the first installed voice for ttsLang
+  ttsVoice: z.string(),
+  ttsRate: z.coerce.number().min(0.5).max(2),
+  ttsPitch: z.coerce.number().min(0).max(2),
+  // Donations below this IDR amount are shown but not read aloud
+  ttsMinAmount: z.coerce.number().int().nonnegative(),
+  // Countdown to a backend targetTime, or a subathon timer extended by donations
+  timerMode: z.enum(["countdown", "subathon"]),
+  // JSON-encoded goal list for the goal overlay (see lib/donation-goals)
+  goals: z.string(),
+  // JSON-encoded alert tiers for the gif and text overlays (see lib/alert-tiers)
+  tiers: z.string(),
+  // Leaderboard overlay: time window, how many donors, seconds per donor (0 shows the full list)
+  leaderboardWindow: z.enum(LEADERBOARD_WINDOWS),
+  leaderboardSize: z.coerce.number().int().min(1).max(20),
+  leaderboardRotate: z.coerce.number().int().min(0).max(60),
+  // Shows sample content; used by the settings page preview
+  preview: booleanParam,
+});
+
+export type OverlayConfig = z.infer<typeof overlayConfigSchema>;
+export type OverlayConfigKey = keyof OverlayConfig;
+
+const BASE_DEFAULTS: OverlayConfig = {
+  theme: "dark",
+  accentColor: "#FFB703",
+  fontFamily: "sans",
+  anchor: "top",
+  fontScale: 1,
+  soundUrl: "/bgm.mp3",
+  volume: 1,
+  minAmount: 0,
+  messageLength: 250,
+  queueBadge: false,
+  wordFilter: true,
+  blockedWords: "",
+  tts: false,
+  ttsLang: "id-ID",
+  ttsVoice: "",
+  ttsRate: 1,
+  ttsPitch: 1,
+  ttsMinAmount: 0,
+  timerMode: "countdown",
+  goals: "",
+  tiers: "",
+  leaderboardWindow: "session",
+  leaderboardSize: 5,
+  leaderboardRotate: 0,
+  preview: false,
+};
+
+// Matches the behaviour each overlay had before it was configurable
+export const OVERLAY_DEFAULTS: Record<OverlayKind, OverlayConfig> = {
+  gif: { ...BASE_DEFAULTS, anchor: "bottom", messageLength: 160 },
+  text: BASE_DEFAULTS,
+  time: { ...BASE_DEFAULTS, theme: "light", accentColor: "#F97316", anchor: "center" },
+  goal: { ...BASE_DEFAULTS, theme: "transparent", accentColor: "#22C55E" },
+  leaderboard: { ...BASE_DEFAULTS, theme: "transparent" },
+};
+
+const CONFIG_KEYS = Object.keys(BASE_DEFAULTS) as OverlayConfigKey[];
+
+// Read config from URL params. Invalid values fall back to the default for
+// that field only, so one typo doesn't reset the whole overlay.
+export function parseOverlayConfig(
+  kind: OverlayKind,
+  params: URLSearchParams | null
+): OverlayConfig {
+  const defaults = OVERLAY_DEFAULTS[kind];
+  if (!params) return defaults;
+
+  const config: Record<string, unknown> = { ...defaults };
+  for (const key of CONFIG_KEYS) {
+    const raw = params.get(key);
+    if (raw === null) continue;
+
+    const result = overlayConfigSchema.shape[key].safeParse(raw);
+    if (result.success) {
+      config[key] = result.data;
+    } else {
+      console.warn(`Invalid overlay config "${key}":`, raw);
+    }
+  }
+  return config as OverlayConfig;
+}
+
+// Only values that differ from the defaults go into the URL
+export function encodeOverlayConfig(kind: OverlayKind, config: OverlayConfig): string {
+  const defaults = OVERLAY_DEFAULTS[kind];
+  const params = new URLSearchParams();
+  for (const key of CONFIG_KEYS) {
+    if (config[key] === defaults[key]) continue;
+    const value = config[key];
+    params.set(key, typeof value === "boolean" ? (value ? "1" : "0") : String(value));
+  }
+  return params.toString();
+}
+
+export function buildOverlayUrl(origin: string, kind: OverlayKind, config: OverlayConfig): string {
+  const query = encodeOverlayConfig(kind, config);
+  return `${origin}/donate/${kind}${query ? `?${query}` : ""}`;
+}
+
+export interface OverlayThemeClasses {
+  page: string;
+  card: string;
+  text: string;
+  muted: string;
+}
+
+export function getOverlayThemeClasses(theme: OverlayConfig["theme"]): OverlayThemeClasses {
+  switch (theme) {
+    case "light":
+      return {
+        page: "bg-zinc-50",
+        card: "bg-white/90 backdrop-blur-sm",
+        text: "text-zinc-900",
+        muted: "text-zinc-600",
+      };
+    case "transparent":
+      return {
+        page: "bg-transparent",
+        card: "bg-transparent [text-shadow:0_2px_6px_rgba(0,0,0,0.9)]",
+        text: "text-white",
+        muted: "text-zinc-100",
+      };
+    default:
+      return {
+        page: "bg-black",
+        card: "bg-black/80 backdrop-blur-sm",
+        text: "text-white",
+        muted: "text-zinc-300",
+      };
+  }
+}
+
+export const OVERLAY_FONT_CLASSES: Record<OverlayConfig["fontFamily"], string> = {
+  sans: "font-sans",
+  serif: "font-serif",
+  mono: "font-mono",
+};
+
+export const OVERLAY_ANCHOR_CLASSES: Record<OverlayConfig["anchor"], string> = {
+  top: "justify-start",
+  center: "justify-center",
+  bottom: "justify-end",
+};
+
+// Sample donation shown by overlays in preview mode
+export const OVERLAY_PREVIEW_DONATION = {
+  donorName: "Budi",
+  amount: 25000,
+  message: "Semangat streamingnya! Ini contoh pesan donasi.",
+};
+
+// Word filter options for the overlay config (blockedWords is comma-separated)
+export function getOverlayWordFilter(config: OverlayConfig): WordFilterOptions {
+  return {
+    customWords: config.blockedWords
+      .split(",")
+      .map((word) => word.trim())
+      .filter(Boolean),
+  };
+}
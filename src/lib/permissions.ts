@@ -0,0 +1,55 @@
+// Role/permission model for the admin pages. The backend sends the role as
+// `user_type`; src/middleware.ts checks ROUTE_PERMISSIONS before a page loads and
+// pages use usePermission() to hide actions the role can't perform. The
+// backend still authorizes every admin call on its own.
+
+export const ROLES = ["owner", "admin", "moderator", "viewer"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  "history:view",
+  "analytics:view", // revenue dashboard
+  "donor:email",
+  "queue:clear",
+  "queue:control", // skip, pause/resume and replay
+  "moderation:review",
+  "settings:edit", // overlay settings
+  "subathon:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: PERMISSIONS,
+  moderator: ["history:view", "queue:control", "moderation:review"],
+  viewer: ["history:view"],
+};
+
+// Most specific prefix wins, so nested routes can be listed separately
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  "/donate/history": "history:view",
+  "/donate/dashboard": "analytics:view",
+  "/donate/settings": "settings:edit",
+  "/donate/moderation": "moderation:review",
+  "/donate/remote": "queue:control",
+  "/donate/subathon": "subathon:manage",
+};
+
+// Unknown user types (e.g. plain "user" accounts) get no admin access
+export function normalizeRole(userType?: string | null): Role | null {
+  const role = userType?.toLowerCase();
+  return ROLES.find((known) => known === role) ?? null;
+}
+
+export function hasPermission(role: Role | null, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function getRoutePermission(pathname: string): Permission | null {
+  const route = Object.keys(ROUTE_PERMISSIONS)
+    .filter((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  return route ? ROUTE_PERMISSIONS[route] : null;
+}
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import type { ApiClient } from "@/lib/api-client";
+import { USD_TO_IDR_RATE } from "@/lib/currency";
+import type { PaymentMethod } from "@/types/payment";
+import type { PricingConfig } from "@/types/pricing";
+
+// Single source for how long a donation stays on screen and how much it must
+// be. The donate form's "durasi tampil" preview and both overlays read the
+// backend's /payment/pricing; the mock backend serves mock-pricing.json.
+// Until it loads (or when it fails) the old hard-coded rules apply.
+
+export const DEFAULT_PRICING: PricingConfig = {
+  // Rp1.000 = 10 detik, minimum 10 detik
+  secondsPerThousand: { gif: 10, text: 10 },
+  minDurationSeconds: 10,
+  minAmount: {
+    bank_transfer: 1000,
+    gopay: 1000,
+    qris: 1000,
+    credit_card: 1000,
+    crypto: 0.01,
+  },
+  usdToIdrRate: USD_TO_IDR_RATE,
+};
+
+// Every field is optional so the backend can override only what it needs
+const pricingResponseSchema = z.object({
+  secondsPerThousand: z.record(z.string(), z.number().positive()).optional(),
+  minDurationSeconds: z.number().nonnegative().optional(),
+  maxDurationSeconds: z.number().positive().nullish(),
+  minAmount: z.record(z.string(), z.number().nonnegative()).optional(),
+  usdToIdrRate: z.number().positive().optional(),
+});
+
+export function parsePricingConfig(raw: unknown): PricingConfig {
+  const result = pricingResponseSchema.safeParse(raw);
+  if (!result.success) {
+    console.warn("⚠️ Invalid pricing config, using defaults:", result.error.issues);
+    return DEFAULT_PRICING;
+  }
+  const parsed = result.data;
+  return {
+    secondsPerThousand: { ...DEFAULT_PRICING.secondsPerThousand, ...parsed.secondsPerThousand },
+    minDurationSeconds: parsed.minDurationSeconds ?? DEFAULT_PRICING.minDurationSeconds,
+    maxDurationSeconds: parsed.maxDurationSeconds ?? undefined,
+    minAmount: { ...DEFAULT_PRICING.minAmount, ...parsed.minAmount },
+    usdToIdrRate: parsed.usdToIdrRate ?? DEFAULT_PRICING.usdToIdrRate,
+  };
+}
+
+let pricingPromise: Promise<PricingConfig> | null = null;
+
+// Fetched once per page load and shared by every caller
+export function loadPricing(client: ApiClient): Promise<PricingConfig> {
+  if (!pricingPromise) {
+    pricingPromise = client.pricing
+      .get()
+      .then(parsePricingConfig)
+      .catch((error) => {
+        console.warn("⚠️ Failed to load pricing config, using defaults:", error);
+        // Let the next caller try again
+        pricingPromise = null;
+        return DEFAULT_PRICING;
+      });
+  }
+  return pricingPromise;
+}
+
+// Helper function to pick the rate for a media type, then the donation type
+function secondsPerThousandFor(pricing: PricingConfig, donationType: "gif" | "text", mediaType?: string): number {
+  const rates = pricing.secondsPerThousand;
+  return (mediaType && rates[mediaType]) || rates[donationType] || DEFAULT_PRICING.secondsPerThousand[donationType];
+}
+
+// Display duration in milliseconds for an IDR amount, clamped to the
+// configured minimum/maximum
+export function calculateDisplayDuration(
+  pricing: PricingConfig,
+  amountIdr: number,
+  { donationType = "gif", mediaType }: { donationType?: "gif" | "text"; mediaType?: string } = {}
+): number {
+  const minMs = pricing.minDurationSeconds * 1000;
+  if (isNaN(amountIdr) || amountIdr <= 0) {
+    return minMs;
+  }
+
+  const durationMs = (amountIdr / 1000) * secondsPerThousandFor(pricing, donationType, mediaType) * 1000;
+  const maxMs = pricing.maxDurationSeconds ? pricing.maxDurationSeconds * 1000 : Infinity;
+  return Math.min(maxMs, Math.max(minMs, durationMs));
+}
+
+export function getMinAmount(pricing: PricingConfig, paymentMethod: PaymentMethod): number {
+  return pricing.minAmount[paymentMethod];
+}
@@ -0,0 +1,53 @@
+import type { DonationSocketSubathon } from "@/types/socket";
+
+// Helpers for the subathon timer. The backend owns the clock; the client only
+// needs the same rate rule to preview extensions and to tick between frames.
+
+export type SubathonState = Omit<DonationSocketSubathon, "type" | "addedMs" | "reason" | "donorName">;
+
+export interface DurationParts {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+// Same rule as the donate form: Rp1.000 = 10 detik
+export const DEFAULT_SECONDS_PER_1000 = 10;
+
+export function calculateSubathonExtension(amountIdr: number, secondsPer1000: number): number {
+  return Math.max(0, Math.floor((amountIdr / 1000) * secondsPer1000 * 1000));
+}
+
+// Remaining time at `now`; running timers count down from endsAt
+export function getSubathonRemaining(state: SubathonState, now: number = Date.now()): number {
+  if (state.status === "ended") return 0;
+  if (state.status === "paused") return state.remainingMs;
+  return Math.max(0, new Date(state.endsAt).getTime() - now);
+}
+
+export function isSubathonCapped(state: SubathonState): boolean {
+  return state.capMs !== undefined && state.totalMs >= state.capMs;
+}
+
+export function splitDuration(ms: number): DurationParts {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return {
+    days: Math.floor(totalSeconds / 86400),
+    hours: Math.floor((totalSeconds % 86400) / 3600),
+    minutes: Math.floor((totalSeconds % 3600) / 60),
+    seconds: totalSeconds % 60,
+  };
+}
+
+// "+5 menit", "+1 jam 30 menit", "-45 detik"
+export function formatExtension(ms: number): string {
+  const sign = ms < 0 ? "-" : "+";
+  const { days, hours, minutes, seconds } = splitDuration(Math.abs(ms));
+  const parts: string[] = [];
+  if (days > 0) parts.push(`${days} hari`);
+  if (hours > 0) parts.push(`${hours} jam`);
+  if (minutes > 0) parts.push(`${minutes} menit`);
+  if (seconds > 0 || parts.length === 0) parts.push(`${seconds} detik`);
+  return `${sign}${parts.join(" ")}`;
+}
@@ -0,0 +1,51 @@
+// Rolling time windows shared by the history filter and the leaderboard.
+// Every window except "session" and "all" counts back from now.
+
+export type TimeWindow = "all" | "session" | "1min" | "1hour" | "1day" | "1week" | "1month";
+
+const TIME_WINDOW_DURATIONS: Partial<Record<TimeWindow, number>> = {
+  "1min": 1 * 60 * 1000,
+  "1hour": 1 * 60 * 60 * 1000,
+  "1day": 24 * 60 * 60 * 1000,
+  "1week": 7 * 24 * 60 * 60 * 1000,
+  "1month": 30 * 24 * 60 * 60 * 1000,
+};
+
+export const TIME_WINDOW_LABELS: Record<TimeWindow, string> = {
+  all: "All Time",
+  session: "This Session",
+  "1min": "1 Minute Ago",
+  "1hour": "1 Hour Ago",
+  "1day": "1 Day Ago",
+  "1week": "1 Week Ago",
+  "1month": "1 Month Ago",
+};
+
+export function isTimeWindow(value: string): value is TimeWindow {
+  return value in TIME_WINDOW_LABELS;
+}
+
+export interface TimeWindowOptions {
+  now?: number;
+  // When the current session (page load / stream start) began
+  sessionStart?: number;
+}
+
+// Earliest timestamp inside the window, or null when the window is unbounded
+export function getTimeWindowStart(
+  window: TimeWindow,
+  { now = Date.now(), sessionStart }: TimeWindowOptions = {}
+): number | null {
+  if (window === "all") return null;
+  if (window === "session") return sessionStart ?? now;
+  return now - (TIME_WINDOW_DURATIONS[window] ?? 0);
+}
+
+export function isWithinTimeWindow(
+  createdAt: string,
+  window: TimeWindow,
+  options: TimeWindowOptions = {}
+): boolean {
+  const start = getTimeWindowStart(window, options);
+  return start === null || new Date(createdAt).getTime() >= start;
+}
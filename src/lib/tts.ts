@@ -0,0 +1,99 @@
+// Text-to-speech for donation alerts using the browser Web Speech API.
+// OBS browser sources (CEF) ship the same API, but the available voices
+// depend on the machine running OBS.
+
+export interface SpeechOptions {
+  lang: string;
+  // Voice name from speechSynthesis.getVoices(); empty picks the first voice for `lang`
+  voiceName?: string;
+  rate: number;
+  pitch: number;
+  volume?: number;
+}
+
+export interface DonationSpeechInput {
+  donorName: string;
+  amount: number;
+  message?: string;
+  // Crypto donations are read in their own currency, e.g. "0.001 BTC"
+  cryptoAmount?: string;
+  cryptoCurrency?: string;
+}
+
+// Rough speaking speed at rate 1.0, used to stretch the display timer
+const CHARS_PER_SECOND = 12;
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+// Voices load asynchronously in Chrome; wait for voiceschanged (max 2s)
+export function getSpeechVoices(): Promise<SpeechSynthesisVoice[]> {
+  if (!isSpeechSupported()) return Promise.resolve([]);
+
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      window.speechSynthesis.removeEventListener("voiceschanged", onVoicesChanged);
+      resolve(window.speechSynthesis.getVoices());
+    }, 2000);
+    const onVoicesChanged = () => {
+      clearTimeout(timeout);
+      window.speechSynthesis.removeEventListener("voiceschanged", onVoicesChanged);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener("voiceschanged", onVoicesChanged);
+  });
+}
+
+export function buildDonationSpeech(input: DonationSpeechInput, lang: string): string {
+  const isIndonesian = lang.toLowerCase().startsWith("id");
+  const amountText =
+    input.cryptoAmount && input.cryptoCurrency
+      ? `${input.cryptoAmount} ${input.cryptoCurrency}`
+      : `${input.amount.toLocaleString(isIndonesian ? "id-ID" : "en-US")} rupiah`;
+  const intro = isIndonesian
+    ? `${input.donorName} memberikan ${amountText}.`
+    : `${input.donorName} donated ${amountText}.`;
+  const message = input.message?.trim();
+  return message ? `${intro} ${message}` : intro;
+}
+
+export function estimateSpeechDuration(text: string, rate: number): number {
+  const safeRate = rate > 0 ? rate : 1;
+  return Math.ceil((text.length / (CHARS_PER_SECOND * safeRate)) * 1000);
+}
+
+// Resolves when speech finishes or fails; never rejects so callers can ignore it
+export async function speak(text: string, options: SpeechOptions): Promise<void> {
+  if (!isSpeechSupported() || !text.trim()) return;
+
+  const voices = await getSpeechVoices();
+  const voice =
+    voices.find((v) => options.voiceName && v.name === options.voiceName) ||
+    voices.find((v) => v.lang.replace("_", "-").toLowerCase() === options.lang.toLowerCase()) ||
+    voices.find((v) => v.lang.toLowerCase().startsWith(options.lang.split("-")[0].toLowerCase()));
+
+  return new Promise((resolve) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = voice?.lang || options.lang;
+    if (voice) utterance.voice = voice;
+    utterance.rate = options.rate;
+    utterance.pitch = options.pitch;
+    utterance.volume = options.volume ?? 1;
+    utterance.onend = () => resolve();
+    utterance.onerror = (event) => {
+      console.warn("🔇 Speech synthesis error:", event.error);
+      resolve();
+    };
+    window.speechSynthesis.speak(utterance);
+  });
+}
+
+export function cancelSpeech() {
+  if (isSpeechSupported()) {
+    window.speechSynthesis.cancel();
+  }
+}
@@ -0,0 +1,168 @@
+// Profanity and link filter for donor names and messages.
+// Used by the donate form (reject early) and by the overlays (mask before render).
+
+export type WordFilterLanguage = "id" | "en";
+
+export interface WordFilterOptions {
+  languages?: WordFilterLanguage[];
+  // Extra words on top of the built-in lists
+  customWords?: string[];
+  maskChar?: string;
+  stripUrls?: boolean;
+}
+
+export interface WordFilterResult {
+  blockedWords: string[];
+  hasUrl: boolean;
+  clean: boolean;
+}
+
+export const WORD_LISTS: Record<WordFilterLanguage, string[]> = {
+  id: [
+    "anjing",
+    "anjir",
+    "asu",
+    "babi",
+    "bajingan",
+    "bangsat",
+    "bego",
+    "brengsek",
+    "goblok",
+    "idiot",
+    "jancok",
+    "jancuk",
+    "kampret",
+    "keparat",
+    "kontol",
+    "lonte",
+    "memek",
+    "ngentot",
+    "pantek",
+    "pelacur",
+    "pepek",
+    "perek",
+    "sinting",
+    "tai",
+    "tolol",
+  ],
+  en: [
+    "asshole",
+    "bastard",
+    "bitch",
+    "bullshit",
+    "cock",
+    "cunt",
+    "dick",
+    "faggot",
+    "fuck",
+    "motherfuck",
+    "nigga",
+    "nigger",
+    "pussy",
+    "retard",
+    "shit",
+    "slut",
+    "whore",
+  ],
+};
+
+// Endings that still count as the blocked word ("fucking", "anjingnya")
+const ALLOWED_SUFFIXES = ["s", "es", "ed", "er", "ers", "ing", "in", "nya", "lah", "an", "kan"];
+
+// Shorter words only match exactly, so "asus" isn't "asu" + "s"
+const MIN_SUFFIX_STEM_LENGTH = 4;
+
+const LEET_MAP: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "8": "b",
+  "@": "a",
+  "$": "s",
+  "!": "i",
+};
+
+// Tokens may contain leet symbols; "!" only counts inside a word ("sh!t", not "hai!")
+const TOKEN_PATTERN = /[\p{L}\p{N}@$]+(?:!+[\p{L}\p{N}@$]+)*/gu;
+
+// Bare domains need a lowercase TLD that ends the word, so a missing space
+// after a period ("bang.Coba", "bagus.Mewah") isn't read as a domain
+const URL_PATTERN =
+  /\b(?:[hH][tT][tT][pP][sS]?:\/\/|[wW]{3}\.)\S+|\b[a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)*\.(?:com|net|org|id|io|co|me|gg|tv|xyz|ly|link|site|online|info|biz)(?![a-zA-Z0-9-])(?:\/\S*)?/g;
+
+// Custom words from env apply everywhere the filter runs
+const ENV_BLOCKED_WORDS = (process.env.NEXT_PUBLIC_BLOCKED_WORDS || "")
+  .split(",")
+  .map((word) => word.trim())
+  .filter(Boolean);
+
+// Lowercase, undo leetspeak, drop separators and collapse repeats ("f.u.u.u.c.k" -> "fuck")
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .split("")
+    .map((char) => LEET_MAP[char] ?? char)
+    .join("")
+    .replace(/[^\p{L}]/gu, "")
+    .replace(/(\p{L})\1+/gu, "$1");
+}
+
+// Helper function to build the normalized blocklist for one filter call
+function buildBlocklist(options: WordFilterOptions): string[] {
+  const languages = options.languages ?? ["id", "en"];
+  const words = [
+    ...languages.flatMap((language) => WORD_LISTS[language]),
+    ...ENV_BLOCKED_WORDS,
+    ...(options.customWords ?? []),
+  ];
+  return Array.from(new Set(words.map(normalizeWord).filter(Boolean)));
+}
+
+function matchesBlocklist(token: string, blocklist: string[]): boolean {
+  // Plain numbers aren't leetspeak ("741" is not "tai")
+  if (/^\p{N}+$/u.test(token)) return false;
+  const normalized = normalizeWord(token);
+  if (!normalized) return false;
+  return blocklist.some((word) => {
+    if (normalized === word) return true;
+    if (word.length < MIN_SUFFIX_STEM_LENGTH || !normalized.startsWith(word)) return false;
+    const suffix = normalized.slice(word.length);
+    return ALLOWED_SUFFIXES.some((allowed) => normalizeWord(allowed) === suffix);
+  });
+}
+
+export function containsUrl(text: string): boolean {
+  URL_PATTERN.lastIndex = 0;
+  return URL_PATTERN.test(text);
+}
+
+export function stripUrls(text: string): string {
+  return text.replace(URL_PATTERN, "").replace(/\s{2,}/g, " ").trim();
+}
+
+export function findBlockedWords(text: string, options: WordFilterOptions = {}): string[] {
+  const blocklist = buildBlocklist(options);
+  const found = (text.match(TOKEN_PATTERN) ?? []).filter((token) =>
+    matchesBlocklist(token, blocklist)
+  );
+  return Array.from(new Set(found));
+}
+
+export function checkText(text: string, options: WordFilterOptions = {}): WordFilterResult {
+  const blockedWords = findBlockedWords(text, options);
+  const hasUrl = containsUrl(text);
+  return { blockedWords, hasUrl, clean: blockedWords.length === 0 && !hasUrl };
+}
+
+// Replace blocked words with mask characters and (optionally) remove links
+export function maskText(text: string, options: WordFilterOptions = {}): string {
+  const blocklist = buildBlocklist(options);
+  const maskChar = options.maskChar ?? "*";
+  const source = options.stripUrls === false ? text : stripUrls(text);
+  return source.replace(TOKEN_PATTERN, (token) =>
+    matchesBlocklist(token, blocklist) ? maskChar.repeat(token.length) : token
+  );
+}
@@ -0,0 +1,51 @@
+// Loads the YouTube IFrame API script once per page. Used by the gif overlay
+// and the donation form's clip picker. A failed or stalled load rejects and
+// is retried by the next call.
+
+const IFRAME_API_SRC = "https://www.youtube.com/iframe_api";
+const LOAD_TIMEOUT_MS = 15000;
+
+let apiPromise: Promise<typeof YT> | null = null;
+
+export function loadYouTubeIframeApi(): Promise<typeof YT> {
+  if (window.YT && window.YT.Player) {
+    return Promise.resolve(window.YT);
+  }
+  if (!apiPromise) {
+    apiPromise = new Promise((resolve, reject) => {
+      // Keep any handler another script registered
+      const previousReady = window.onYouTubeIframeAPIReady;
+      let script = document.querySelector<HTMLScriptElement>(`script[src="${IFRAME_API_SRC}"]`);
+
+      const fail = (error: Error) => {
+        clearTimeout(timeout);
+        window.onYouTubeIframeAPIReady = previousReady;
+        // Drop the failed script so the next call adds a fresh one
+        script?.remove();
+        apiPromise = null;
+        reject(error);
+      };
+      const timeout = setTimeout(
+        () => fail(new Error(`YouTube IFrame API did not load within ${LOAD_TIMEOUT_MS}ms`)),
+        LOAD_TIMEOUT_MS
+      );
+
+      window.onYouTubeIframeAPIReady = () => {
+        clearTimeout(timeout);
+        previousReady?.();
+        resolve(window.YT);
+      };
+
+      if (!script) {
+        script = document.createElement("script");
+        script.src = IFRAME_API_SRC;
+        script.async = true;
+        document.body.appendChild(script);
+      }
+      script.addEventListener("error", () => fail(new Error("Failed to load the YouTube IFrame API script")), {
+        once: true,
+      });
+    });
+  }
+  return apiPromise;
+}
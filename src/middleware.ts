@@ -1,40 +1,44 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { getToken } from "next-auth/jwt";
+import { AUTH_SECRET } from "@/lib/auth-secret";
+import { getRoutePermission, hasPermission, normalizeRole } from "@/lib/permissions";
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  // Routes that require authentication (admin routes)
-  // Only /donate/history requires authentication
-  const protectedRoutes = ["/donate/history"];
-  const isProtectedRoute = protectedRoutes.some((route) =>
-    pathname.startsWith(route)
-  );
+  // Routes that require authentication (admin routes), see ROUTE_PERMISSIONS
+  const requiredPermission = getRoutePermission(pathname);
 
   // Routes that should redirect if already authenticated
-  const authRoutes = ["/auth/login"];
+  const authRoutes = [
+    "/auth/login",
+    "/auth/register",
+    "/auth/verify-otp",
+    "/auth/forgot-password",
+    "/auth/reset-password",
+  ];
   const isAuthRoute = authRoutes.some((route) => pathname.startsWith(route));
 
   // Check protected routes
-  if (isProtectedRoute) {
+  if (requiredPermission) {
     const token = await getToken({
       req: request,
-      secret: process.env.NEXTAUTH_SECRET,
+      secret: AUTH_SECRET,
     });
 
-    // If no session, redirect to login with callback URL
-    if (!token) {
+    // If no session (or its refresh token was rejected), redirect to login with callback URL
+    if (!token || token.error) {
       const loginUrl = new URL("/auth/login", request.url);
       // Only encode once - pathname is already a valid path
       loginUrl.searchParams.set("callbackUrl", pathname);
       return NextResponse.redirect(loginUrl);
     }
 
-    // Check if user is admin
-    const userType = token.userType || token.role;
-    if (userType !== "admin") {
-      // Redirect non-admin to home page
+    // Check the user's role grants this route
+    const role = normalizeRole(token.userType || (token.role as string | undefined));
+    if (!hasPermission(role, requiredPermission)) {
+      // Redirect users without access to home page
       return NextResponse.redirect(new URL("/", request.url));
     }
   }
@@ -43,11 +47,11 @@ export async function middleware(request: NextRequest) {
   if (isAuthRoute) {
     const token = await getToken({
       req: request,
-      secret: process.env.NEXTAUTH_SECRET,
+      secret: AUTH_SECRET,
     });
 
     // If already logged in, redirect to donate/history
-    if (token) {
+    if (token && !token.error) {
       return NextResponse.redirect(new URL("/donate/history", request.url));
     }
   }
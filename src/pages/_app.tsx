@@ -24,7 +24,8 @@ export default function App({
   return (
     <div className={cn(geistSans.variable, geistMono.variable)}>
       <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
-        <SessionProvider session={session}>
+        {/* Poll the session so access tokens are refreshed during long streams */}
+        <SessionProvider session={session} refetchInterval={5 * 60}>
           <ApiProvider>
             <Component {...pageProps} />
             <Toaster />
@@ -1,29 +1,100 @@
-import NextAuth, { NextAuthOptions } from "next-auth";
+import NextAuth, { NextAuthOptions, type User } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
+import GoogleProvider from "next-auth/providers/google";
 import type { JWT } from "next-auth/jwt";
+import { createApiClient } from "@/lib/api-client";
+import { AUTH_SECRET } from "@/lib/auth-secret";
+import type { OTPVerifyResponse, RefreshTokenResponse } from "@/types/auth";
 
-// Get backend API URL from environment variable
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000";
-
-// Interface for backend login response
-interface BackendLoginResponse {
-  success: boolean;
-  access_token: string;
-  refresh_token: string;
-  user: {
-    id: string;
-    email: string;
-    full_name: string;
-    is_verified: boolean;
-    user_type: string;
-    login_type: string;
+// Server-side client: no session token yet at login
+const api = createApiClient();
+
+// Fallback when the backend doesn't send expires_in (seconds)
+const DEFAULT_EXPIRES_IN = 7 * 24 * 60 * 60;
+// Refresh a bit early so in-flight admin calls don't hit an expired token
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// How long a finished refresh is reused for requests that still carry the old
+// refresh token (sent before the browser stored the rotated cookie)
+const REFRESH_REUSE_MS = 30 * 1000;
+
+// In-flight and recently finished refreshes, keyed by refresh token
+const refreshRequests = new Map<string, Promise<RefreshTokenResponse>>();
+
+// Helper function to turn the backend's expires_in into a timestamp
+function getAccessTokenExpires(expiresIn?: number): number {
+  return Date.now() + (expiresIn || DEFAULT_EXPIRES_IN) * 1000;
+}
+
+// Google sign-in is only offered when its OAuth client is configured
+const googleProviders =
+  process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET
+    ? [
+        GoogleProvider({
+          clientId: process.env.GOOGLE_CLIENT_ID,
+          clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+        }),
+      ]
+    : [];
+
+// Helper function to map a backend token response to the NextAuth user
+function toAuthUser(data: OTPVerifyResponse): User {
+  return {
+    id: data.user.id,
+    email: data.user.email,
+    name: data.user.full_name,
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    userType: data.user.user_type,
+    isVerified: data.user.is_verified,
+    expiresIn: data.expires_in,
   };
 }
 
-// Interface for backend error response
-interface BackendErrorResponse {
-  success: false;
-  error: string;
+// Helper function to call /refresh once per refresh token: parallel requests
+// with the same expired session share the call instead of each rotating the
+// token and invalidating the others
+function refreshTokenOnce(refreshToken: string): Promise<RefreshTokenResponse> {
+  const pending = refreshRequests.get(refreshToken);
+  if (pending) {
+    return pending;
+  }
+
+  const request = api.auth.refresh({ refresh_token: refreshToken });
+  refreshRequests.set(refreshToken, request);
+  request.then(
+    () => {
+      setTimeout(() => refreshRequests.delete(refreshToken), REFRESH_REUSE_MS);
+    },
+    () => {
+      refreshRequests.delete(refreshToken);
+    }
+  );
+  return request;
+}
+
+// Exchange the refresh token for a new token pair. On failure the token is
+// flagged so the client can send the user back to the login page.
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    if (!token.refreshToken) {
+      throw new Error("No refresh token");
+    }
+
+    const data = await refreshTokenOnce(token.refreshToken);
+    console.log("🔑 Access token refreshed");
+    return {
+      ...token,
+      accessToken: data.access_token,
+      // Keep the old refresh token if the backend didn't rotate it
+      refreshToken: data.refresh_token || token.refreshToken,
+      accessTokenExpires: getAccessTokenExpires(data.expires_in),
+      error: undefined,
+    };
+  } catch (error) {
+    console.error("Error refreshing access token:", error);
+    return { ...token, error: "RefreshAccessTokenError" };
+  }
 }
 
 export const authOptions: NextAuthOptions = {
@@ -40,36 +111,20 @@ export const authOptions: NextAuthOptions = {
         }
 
         try {
-          // Call backend login API
-          const response = await fetch(`${API_BASE_URL}/api/v1/auth/login`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              email: credentials.email,
-              password: credentials.password,
-            }),
+          // Call backend login API (errors carry the backend message)
+          const data = await api.auth.login({
+            email: credentials.email,
+            password: credentials.password,
           });
 
-          const data: BackendLoginResponse | BackendErrorResponse = await response.json();
-
-          if (!response.ok || !data.success) {
-            const errorMessage = "error" in data ? data.error : "Invalid email or password";
-            throw new Error(errorMessage);
+          // Unverified accounts finish signing in on /auth/verify-otp
+          if (data.requires_verification) {
+            throw new Error("EmailNotVerified");
           }
 
           // Return user object with token
-          if ("user" in data && data.user) {
-            return {
-              id: data.user.id,
-              email: data.user.email,
-              name: data.user.full_name,
-              accessToken: data.access_token,
-              refreshToken: data.refresh_token,
-              userType: data.user.user_type,
-              isVerified: data.user.is_verified,
-            };
+          if (data.user) {
+            return toAuthUser(data);
           }
 
           throw new Error("Invalid response from server");
@@ -83,8 +138,68 @@ export const authOptions: NextAuthOptions = {
         }
       },
     }),
+    // Signs in straight after registration by verifying the emailed OTP
+    CredentialsProvider({
+      id: "otp",
+      name: "Email OTP",
+      credentials: {
+        email: { label: "Email", type: "email" },
+        otp_code: { label: "OTP", type: "text" },
+      },
+      async authorize(credentials) {
+        if (!credentials?.email || !credentials?.otp_code) {
+          throw new Error("Email and OTP code are required");
+        }
+
+        try {
+          const data = await api.auth.verifyOtp({
+            email: credentials.email,
+            otp_code: credentials.otp_code,
+          });
+          if (data.user) {
+            return toAuthUser(data);
+          }
+
+          throw new Error("Invalid response from server");
+        } catch (error) {
+          console.error("OTP verification error:", error);
+          if (error instanceof Error) {
+            throw error;
+          }
+          throw new Error("Failed to verify OTP. Please try again.");
+        }
+      },
+    }),
+    ...googleProviders,
   ],
   callbacks: {
+    async signIn({ user, account }) {
+      if (account?.provider !== "google") {
+        return true;
+      }
+
+      // Exchange the Google profile for backend tokens; the jwt callback
+      // then stores them exactly like a credentials login
+      try {
+        if (!user.email) {
+          throw new Error("Google account has no email");
+        }
+        const data = await api.auth.google({
+          email: user.email,
+          full_name: user.name || user.email,
+          profile_photo: user.image || "",
+          google_id: account.providerAccountId,
+        });
+        if (!data.user) {
+          throw new Error("Invalid response from server");
+        }
+        Object.assign(user, toAuthUser(data));
+        return true;
+      } catch (error) {
+        console.error("Google sign-in error:", error);
+        return false;
+      }
+    },
     async jwt({ token, user, account }) {
       // Initial sign in
       if (account && user) {
@@ -92,17 +207,23 @@ export const authOptions: NextAuthOptions = {
         token.refreshToken = (user as any).refreshToken;
         token.userType = (user as any).userType;
         token.isVerified = (user as any).isVerified;
-        token.accessTokenExpires = Date.now() + 7 * 24 * 60 * 60 * 1000; // 7 days
+        token.accessTokenExpires = getAccessTokenExpires(user.expiresIn);
+        token.error = undefined;
+        return token;
       }
 
       // Return previous token if the access token has not expired yet
-      if (Date.now() < (token.accessTokenExpires as number)) {
+      if (Date.now() < (token.accessTokenExpires ?? 0) - REFRESH_MARGIN_MS) {
+        return token;
+      }
+
+      // Refresh failed before; don't retry with a rejected refresh token
+      if (token.error) {
         return token;
       }
 
-      // Access token has expired, try to update it (optional: implement refresh logic)
-      // For now, we'll let the token expire and user needs to re-login
-      return token;
+      // Access token has expired, rotate it with the refresh token
+      return refreshAccessToken(token);
     },
     async session({ session, token }) {
       // Send properties to the client
@@ -111,6 +232,7 @@ export const authOptions: NextAuthOptions = {
         (session as any).refreshToken = token.refreshToken;
         (session as any).userType = token.userType;
         (session as any).isVerified = token.isVerified;
+        session.error = token.error;
         if (session.user) {
           session.user.id = token.sub || "";
         }
@@ -126,7 +248,7 @@ export const authOptions: NextAuthOptions = {
     strategy: "jwt",
     maxAge: 7 * 24 * 60 * 60, // 7 days
   },
-  secret: process.env.NEXTAUTH_SECRET || "K1E90c5WRly4i69szH9xjkUF-0rDM-tl3WKA06hMayTBDvuOmjjsj3z_i_f7NIFk",
+  secret: AUTH_SECRET,
   debug: process.env.NODE_ENV === "development",
 };
 
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createMockPayment, mockRoute, setMockPaymentStatus } from "@/lib/mock-backend";
+
+// POST /api/test-media-share - the "Tes Hit" button: a paid 1k YouTube media share
+function handler(_req: NextApiRequest, res: NextApiResponse) {
+  const payment = createMockPayment({
+    donorName: "Tes Hit",
+    amount: 1000,
+    donationType: "gif",
+    paymentMethod: "qris",
+    mediaUrl: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+    message: "Tes media share",
+  });
+  setMockPaymentStatus(payment, "SUCCESS");
+  res.status(200).json({ success: true, data: payment });
+}
+
+export default mockRoute(["POST"], handler);
@@ -0,0 +1,16 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createMockAuthResponse, mockRoute } from "@/lib/mock-backend";
+
+// POST /api/v1/auth/google - trusts the profile NextAuth got from Google
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { email, full_name, google_id } = req.body ?? {};
+  if (!email || !google_id) {
+    res.status(400).json({ success: false, error: "Email and Google ID are required" });
+    return;
+  }
+
+  const data = createMockAuthResponse(String(email), full_name ? String(full_name) : undefined);
+  res.status(200).json({ ...data, user: { ...data.user, login_type: "google" } });
+}
+
+export default mockRoute(["POST"], handler);
@@ -0,0 +1,15 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createMockAuthResponse, mockRoute } from "@/lib/mock-backend";
+
+// POST /api/v1/auth/login - any password works; the email prefix picks the role
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { email, password } = req.body ?? {};
+  if (!email || !password) {
+    res.status(400).json({ success: false, error: "Email and password are required" });
+    return;
+  }
+
+  res.status(200).json(createMockAuthResponse(String(email)));
+}
+
+export default mockRoute(["POST"], handler);
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { MOCK_TOKEN_EXPIRES_IN, mockRoute } from "@/lib/mock-backend";
+
+// POST /api/v1/auth/refresh - rotates any mock refresh token
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { refresh_token } = req.body ?? {};
+  if (typeof refresh_token !== "string" || !refresh_token.startsWith("mock-refresh-")) {
+    res.status(401).json({ success: false, error: "Invalid refresh token" });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    access_token: `mock-access-${crypto.randomUUID()}`,
+    refresh_token: `mock-refresh-${crypto.randomUUID()}`,
+    expires_in: MOCK_TOKEN_EXPIRES_IN,
+  });
+}
+
+export default mockRoute(["POST"], handler);
@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { MOCK_OTP_CODE, createMockAuthResponse, mockRoute } from "@/lib/mock-backend";
+
+// POST /api/v1/auth/register - nothing is stored; verify with the fixed mock OTP
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { full_name, email, password } = req.body ?? {};
+  if (!full_name || !email || !password) {
+    res.status(400).json({ success: false, error: "Full name, email and password are required" });
+    return;
+  }
+
+  const { user } = createMockAuthResponse(String(email), String(full_name));
+  res.status(201).json({
+    success: true,
+    message: `Mock OTP sent to ${email}: ${MOCK_OTP_CODE}`,
+    user: { ...user, is_verified: false },
+    requires_verification: true,
+  });
+}
+
+export default mockRoute(["POST"], handler);
@@ -0,0 +1,15 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { MOCK_OTP_CODE, mockRoute } from "@/lib/mock-backend";
+
+// POST /api/v1/auth/reset-password - "emails" the fixed mock reset code
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { email } = req.body ?? {};
+  if (!email) {
+    res.status(400).json({ success: false, error: "Email is required" });
+    return;
+  }
+
+  res.status(200).json({ success: true, message: `Mock reset code sent to ${email}: ${MOCK_OTP_CODE}` });
+}
+
+export default mockRoute(["POST"], handler);
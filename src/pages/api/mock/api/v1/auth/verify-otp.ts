@@ -0,0 +1,15 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { MOCK_OTP_CODE, createMockAuthResponse, mockRoute } from "@/lib/mock-backend";
+
+// POST /api/v1/auth/verify-otp - accepts the fixed mock OTP and signs the account in
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { email, otp_code } = req.body ?? {};
+  if (!email || otp_code !== MOCK_OTP_CODE) {
+    res.status(400).json({ success: false, error: "Invalid or expired OTP code" });
+    return;
+  }
+
+  res.status(200).json(createMockAuthResponse(String(email)));
+}
+
+export default mockRoute(["POST"], handler);
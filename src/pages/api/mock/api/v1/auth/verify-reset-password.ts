@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { MOCK_OTP_CODE, mockRoute } from "@/lib/mock-backend";
+
+// POST /api/v1/auth/verify-reset-password - mock logins accept any password anyway
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { email, otp_code, new_password } = req.body ?? {};
+  if (!email || !new_password) {
+    res.status(400).json({ success: false, error: "Email and new password are required" });
+    return;
+  }
+  if (otp_code !== MOCK_OTP_CODE) {
+    res.status(400).json({ success: false, error: "Invalid or expired OTP code" });
+    return;
+  }
+
+  res.status(200).json({ success: true, message: "Password has been reset" });
+}
+
+export default mockRoute(["POST"], handler);
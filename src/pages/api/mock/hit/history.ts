@@ -0,0 +1,16 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getMockStore, mockRoute } from "@/lib/mock-backend";
+
+// GET /hit/history?limit&offset - newest first; donor emails only for authenticated requests
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const limit = Math.max(1, Number(req.query.limit) || 20);
+  const offset = Math.max(0, Number(req.query.offset) || 0);
+  const isAdmin = !!req.headers.authorization;
+
+  const data = getMockStore()
+    .history.slice(offset, offset + limit)
+    .map((donation) => (isAdmin ? donation : { ...donation, donorEmail: undefined }));
+  res.status(200).json({ success: true, data, limit, offset });
+}
+
+export default mockRoute(["GET"], handler);
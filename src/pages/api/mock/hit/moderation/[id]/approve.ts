@@ -0,0 +1,14 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { mockAdminRoute, reviewMockModeration } from "@/lib/mock-backend";
+
+// POST /hit/moderation/:id/approve - send a held media donation to the overlays
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const item = reviewMockModeration(String(req.query.id), "APPROVED");
+  if (!item) {
+    res.status(404).json({ success: false, error: "Pending donation not found" });
+    return;
+  }
+  res.status(200).json({ success: true, data: item });
+}
+
+export default mockAdminRoute(["POST"], handler);
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { mockAdminRoute, reviewMockModeration } from "@/lib/mock-backend";
+
+// POST /hit/moderation/:id/reject - { reason }; the donation is never shown
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+  if (!reason) {
+    res.status(400).json({ success: false, error: "reason is required" });
+    return;
+  }
+
+  const item = reviewMockModeration(String(req.query.id), "REJECTED", reason);
+  if (!item) {
+    res.status(404).json({ success: false, error: "Pending donation not found" });
+    return;
+  }
+  res.status(200).json({ success: true, data: item });
+}
+
+export default mockAdminRoute(["POST"], handler);
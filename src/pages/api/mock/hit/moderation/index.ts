@@ -0,0 +1,13 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { listMockModeration, mockAdminRoute } from "@/lib/mock-backend";
+import type { ModerationStatus } from "@/types/moderation";
+
+const STATUSES: ModerationStatus[] = ["PENDING", "APPROVED", "REJECTED"];
+
+// GET /hit/moderation?status - held media donations, newest first
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const status = STATUSES.find((known) => known === req.query.status) ?? "PENDING";
+  res.status(200).json({ success: true, data: listMockModeration(status) });
+}
+
+export default mockAdminRoute(["GET"], handler);
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getMockStore, mockAdminRoute } from "@/lib/mock-backend";
+
+// GET /hit/moderation/settings - whether media donations are held for review
+// POST /hit/moderation/settings - { enabled }
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const store = getMockStore();
+  if (req.method === "POST") {
+    if (typeof req.body?.enabled !== "boolean") {
+      res.status(400).json({ success: false, error: "enabled must be a boolean" });
+      return;
+    }
+    store.moderationSettings = { enabled: req.body.enabled };
+  }
+  res.status(200).json({ success: true, data: store.moderationSettings });
+}
+
+export default mockAdminRoute(["GET", "POST"], handler);
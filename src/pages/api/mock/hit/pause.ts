@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { emitMockFrames, mockAdminRoute } from "@/lib/mock-backend";
+
+// POST /hit/pause - freeze the donation on screen
+function handler(_req: NextApiRequest, res: NextApiResponse) {
+  emitMockFrames([{ type: "control", action: "pause" }]);
+  res.status(200).json({ success: true });
+}
+
+export default mockAdminRoute(["POST"], handler);
@@ -0,0 +1,13 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { mockAdminRoute, replayMockDonation } from "@/lib/mock-backend";
+
+// POST /hit/replay/:id - play a donation from history again
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!replayMockDonation(String(req.query.id))) {
+    res.status(404).json({ success: false, error: "Donation not found" });
+    return;
+  }
+  res.status(200).json({ success: true });
+}
+
+export default mockAdminRoute(["POST"], handler);
@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { emitMockFrames, mockAdminRoute } from "@/lib/mock-backend";
+
+// POST /hit/reset - clear the overlay queue
+function handler(_req: NextApiRequest, res: NextApiResponse) {
+  emitMockFrames([{ type: "clear_queue" }]);
+  res.status(200).json({ success: true });
+}
+
+export default mockAdminRoute(["POST"], handler);
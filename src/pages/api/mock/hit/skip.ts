@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { emitMockFrames, mockAdminRoute } from "@/lib/mock-backend";
+
+// POST /hit/skip - end the donation on screen
+function handler(_req: NextApiRequest, res: NextApiResponse) {
+  emitMockFrames([{ type: "control", action: "skip" }]);
+  res.status(200).json({ success: true });
+}
+
+export default mockAdminRoute(["POST"], handler);
@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { mockAdminRoute, updateMockSubathon, type MockSubathonAction } from "@/lib/mock-backend";
+
+const ACTIONS: MockSubathonAction[] = ["start", "config", "pause", "resume", "adjust", "stop"];
+
+// POST /hit/subathon/:action - start, config, pause, resume, adjust or stop the timer
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const action = ACTIONS.find((known) => known === req.query.action);
+  if (!action) {
+    res.status(404).json({ success: false, error: `action must be one of ${ACTIONS.join(", ")}` });
+    return;
+  }
+
+  try {
+    res.status(200).json({ success: true, data: updateMockSubathon(action, req.body ?? {}) });
+  } catch (error) {
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : "Invalid request" });
+  }
+}
+
+export default mockAdminRoute(["POST"], handler);
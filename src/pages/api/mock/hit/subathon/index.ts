@@ -0,0 +1,9 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getMockStore, mockRoute } from "@/lib/mock-backend";
+
+// GET /hit/subathon - current timer state, null before the first start (public)
+function handler(_req: NextApiRequest, res: NextApiResponse) {
+  res.status(200).json({ success: true, data: getMockStore().subathon });
+}
+
+export default mockRoute(["GET"], handler);
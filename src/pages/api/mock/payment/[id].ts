@@ -0,0 +1,14 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { findMockPayment, mockRoute } from "@/lib/mock-backend";
+
+// GET /payment/:id - payment detail by id or order id
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const payment = findMockPayment(String(req.query.id));
+  if (!payment) {
+    res.status(404).json({ success: false, error: "Payment not found" });
+    return;
+  }
+  res.status(200).json({ success: true, data: payment });
+}
+
+export default mockRoute(["GET"], handler);
@@ -0,0 +1,14 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { findMockPayment, mockRoute } from "@/lib/mock-backend";
+
+// POST /payment/check-status - { orderId }; status only moves via webhook or auto-pay
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const payment = findMockPayment(String(req.body?.orderId ?? ""));
+  if (!payment) {
+    res.status(404).json({ success: false, error: "Payment not found" });
+    return;
+  }
+  res.status(200).json({ success: true, data: payment });
+}
+
+export default mockRoute(["POST"], handler);
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { findMockPayment, mockRoute, setMockPaymentStatus } from "@/lib/mock-backend";
+
+// POST /payment/confirm-3ds - Midtrans 3DS result; capture/settlement marks the payment paid
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { order_id: orderId, transaction_status: transactionStatus } = req.body ?? {};
+  const payment = findMockPayment(String(orderId ?? ""));
+  if (!payment) {
+    res.status(404).json({ success: false, error: "Payment not found" });
+    return;
+  }
+  if (transactionStatus === "capture" || transactionStatus === "settlement") {
+    setMockPaymentStatus(payment, "SUCCESS");
+  }
+  res.status(200).json({ success: true, data: payment });
+}
+
+export default mockRoute(["POST"], handler);
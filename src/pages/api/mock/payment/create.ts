@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createMockPayment, mockRoute } from "@/lib/mock-backend";
+
+// POST /payment/create - Midtrans payments (bank transfer, GoPay, QRIS, card)
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const body = req.body ?? {};
+  if (!body.donorName || !(Number(body.amount) > 0)) {
+    res.status(400).json({ success: false, error: "donorName and amount are required" });
+    return;
+  }
+
+  const payment = createMockPayment({
+    donorName: body.donorName,
+    donorEmail: body.donorEmail,
+    amount: Number(body.amount),
+    donationType: body.donationType === "gif" ? "gif" : "text",
+    paymentMethod: body.paymentMethod || "qris",
+    bank: body.bank,
+    mediaUrl: body.mediaUrl,
+    mediaType: body.mediaType,
+    startTime: body.startTime,
+    endTime: body.endTime,
+    message: body.message,
+    notes: body.notes,
+  });
+  res.status(200).json({ success: true, data: { payment } });
+}
+
+export default mockRoute(["POST"], handler);
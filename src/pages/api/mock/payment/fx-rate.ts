@@ -0,0 +1,9 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getMockFxRate, mockRoute } from "@/lib/mock-backend";
+
+// GET /payment/fx-rate - current USD→IDR quote for crypto donations
+function handler(_req: NextApiRequest, res: NextApiResponse) {
+  res.status(200).json({ success: true, data: getMockFxRate() });
+}
+
+export default mockRoute(["GET"], handler);
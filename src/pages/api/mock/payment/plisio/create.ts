@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createMockPayment, mockRoute } from "@/lib/mock-backend";
+
+// POST /payment/plisio/create - crypto invoice; amount is USD cents.
+// The "invoice" is our own payment page, which settles like any other payment.
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const body = req.body ?? {};
+  if (!body.donorName || !(Number(body.amount) > 0)) {
+    res.status(400).json({ success: false, error: "donorName and amount are required" });
+    return;
+  }
+
+  const payment = createMockPayment({
+    donorName: body.donorName,
+    donorEmail: body.donorEmail,
+    amount: Number(body.amount),
+    donationType: body.donationType === "gif" ? "gif" : "text",
+    paymentMethod: "crypto",
+    currency: body.currency,
+    mediaUrl: body.mediaUrl,
+    mediaType: body.mediaType,
+    startTime: body.startTime,
+    endTime: body.endTime,
+    message: body.message,
+    notes: body.notes,
+  });
+  res.status(200).json({ success: true, data: { payment, invoiceUrl: `/${payment.id}` } });
+}
+
+export default mockRoute(["POST"], handler);
@@ -0,0 +1,22 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { mockRoute } from "@/lib/mock-backend";
+
+// GET /payment/plisio/currencies - a few coins in Plisio's response shape
+const MOCK_CURRENCIES = [
+  { cid: "BTC", name: "Bitcoin", currency: "BTC", fiat_rate: "0.0000105", min_sum_in: "0.00002" },
+  { cid: "ETH", name: "Ethereum", currency: "ETH", fiat_rate: "0.00029", min_sum_in: "0.0005" },
+  { cid: "USDT_TRX", name: "Tether (TRC-20)", currency: "USDT", fiat_rate: "1", min_sum_in: "1" },
+  { cid: "SOL", name: "Solana", currency: "SOL", fiat_rate: "0.0065", min_sum_in: "0.01" },
+].map((coin) => ({
+  ...coin,
+  icon: "",
+  invoice_commission_percentage: "0.5",
+  hidden: false,
+  maintenance: false,
+}));
+
+function handler(_req: NextApiRequest, res: NextApiResponse) {
+  res.status(200).json({ success: true, data: MOCK_CURRENCIES });
+}
+
+export default mockRoute(["GET"], handler);
@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { mockRoute } from "@/lib/mock-backend";
+import mockPricing from "@/lib/mock-pricing.json";
+
+// GET /payment/pricing - the local pricing file used in development
+function handler(_req: NextApiRequest, res: NextApiResponse) {
+  res.status(200).json({ success: true, data: mockPricing });
+}
+
+export default mockRoute(["GET"], handler);
@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  findMockPayment,
+  mockRoute,
+  setMockPaymentStatus,
+  type MockPaymentStatus,
+} from "@/lib/mock-backend";
+
+const STATUSES: MockPaymentStatus[] = ["PENDING", "SUCCESS", "FAILED", "CANCELLED", "EXPIRED"];
+
+// POST /payment/webhook - simulated gateway callback: { orderId, status }
+// e.g. curl -X POST localhost:3000/api/mock/payment/webhook -H "Content-Type: application/json" \
+//   -d '{"orderId":"MOCK-...","status":"FAILED"}'
+function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { orderId, status } = req.body ?? {};
+  if (!STATUSES.includes(status)) {
+    res.status(400).json({ success: false, error: `status must be one of ${STATUSES.join(", ")}` });
+    return;
+  }
+  const payment = findMockPayment(String(orderId ?? ""));
+  if (!payment) {
+    res.status(404).json({ success: false, error: "Payment not found" });
+    return;
+  }
+  res.status(200).json({ success: true, data: setMockPaymentStatus(payment, status) });
+}
+
+export default mockRoute(["POST"], handler);
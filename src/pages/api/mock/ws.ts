@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getMockStore, mockRoute } from "@/lib/mock-backend";
+
+// Stand-in for the backend /ws. API routes can't upgrade to WebSocket, so
+// frames are streamed as server-sent events (one `data:` line per frame);
+// lib/donation-socket switches to EventSource when the mock is enabled.
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  });
+  res.write("retry: 3000\n\n");
+
+  const send = (payload: string) => {
+    const lines = payload.split("\n").map((frame) => `data: ${frame}`);
+    res.write(`${lines.join("\n")}\n\n`);
+  };
+  const { clients } = getMockStore();
+  clients.add(send);
+  console.log("🧪 Mock stream connected (%d clients)", clients.size);
+
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+
+  await new Promise<void>((resolve) => {
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      clients.delete(send);
+      console.log("🧪 Mock stream closed (%d clients)", clients.size);
+      resolve();
+    });
+  });
+}
+
+export default mockRoute(["GET"], handler);
+
+// Streaming response, not a JSON body Next should wait for
+export const config = {
+  api: { responseLimit: false },
+};
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useApi } from "@/components/contex/ApiProvider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { authPageUrl } from "@/lib/auth-form";
+
+export default function ForgotPasswordPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const { client } = useApi();
+  const [email, setEmail] = useState(searchParams.get("email") || "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const trimmedEmail = email.trim();
+      const result = await client.auth.requestPasswordReset({ email: trimmedEmail });
+      toast({
+        title: "Check Your Email",
+        description: result.message || `We sent a reset code to ${trimmedEmail}`,
+      });
+      router.push(authPageUrl("/auth/reset-password", { email: trimmedEmail }));
+    } catch (err) {
+      console.error("Forgot password error:", err);
+      setError(err instanceof Error ? err.message : "Failed to send reset code. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Forgot Password</CardTitle>
+          <CardDescription className="text-center">
+            We&apos;ll email you a code to reset your password
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                disabled={isLoading}
+                autoComplete="email"
+                autoFocus
+              />
+            </div>
+            {error && (
+              <div className="p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">{error}</div>
+            )}
+            <Button type="submit" className="w-full" disabled={isLoading || !email.trim()}>
+              {isLoading ? "Sending..." : "Send Reset Code"}
+            </Button>
+          </form>
+          <p className="mt-4 text-center text-sm text-muted-foreground">
+            <Link href="/auth/login" className="text-foreground underline">
+              Back to sign in
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
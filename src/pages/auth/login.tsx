@@ -1,13 +1,15 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { signIn, getSession } from "next-auth/react";
+import Link from "next/link";
+import { signIn, getSession, getProviders } from "next-auth/react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { authPageUrl } from "@/lib/auth-form";
 
 export default function LoginPage() {
   const router = useRouter();
@@ -17,6 +19,7 @@ export default function LoginPage() {
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [googleEnabled, setGoogleEnabled] = useState(false);
 
   const callbackUrl = searchParams.get("callbackUrl") || "/donate/history";
   const error = searchParams.get("error");
@@ -38,6 +41,13 @@ export default function LoginPage() {
     checkSession();
   }, [router, callbackUrl]);
 
+  // Google is only listed when the server has an OAuth client configured
+  useEffect(() => {
+    getProviders()
+      .then((providers) => setGoogleEnabled(!!providers?.google))
+      .catch((error) => console.error("Error loading auth providers:", error));
+  }, []);
+
   // Show error message if any
   useEffect(() => {
     if (error) {
@@ -52,6 +62,9 @@ export default function LoginPage() {
         case "AccessDenied":
           errorMessage = "Access denied";
           break;
+        case "SessionExpired":
+          errorMessage = "Your session has expired. Please login again.";
+          break;
         default:
           errorMessage = "An error occurred during authentication";
       }
@@ -60,10 +73,14 @@ export default function LoginPage() {
         description: errorMessage,
         variant: "destructive",
       });
-      // Clear error from URL
-      router.replace("/auth/login");
+      // Clear error from URL, keeping where to go after login
+      router.replace(
+        searchParams.get("callbackUrl")
+          ? `/auth/login?callbackUrl=${encodeURIComponent(callbackUrl)}`
+          : "/auth/login"
+      );
     }
-  }, [error, toast, router]);
+  }, [error, toast, router, searchParams, callbackUrl]);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -77,7 +94,14 @@ export default function LoginPage() {
         callbackUrl: callbackUrl,
       });
 
-      if (result?.error) {
+      if (result?.error === "EmailNotVerified") {
+        // Registered but never entered the OTP
+        toast({
+          title: "Verify Your Email",
+          description: "Enter the code we sent to your email to finish signing in.",
+        });
+        router.push(authPageUrl("/auth/verify-otp", { email: email.trim(), callbackUrl }));
+      } else if (result?.error) {
         toast({
           title: "Login Failed",
           description: result.error === "CredentialsSignin" 
@@ -139,7 +163,15 @@ export default function LoginPage() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link
+                  href={authPageUrl("/auth/forgot-password", { email: email.trim() })}
+                  className="text-sm text-muted-foreground underline"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
@@ -159,6 +191,30 @@ export default function LoginPage() {
               {isLoading ? "Signing in..." : "Sign In"}
             </Button>
           </form>
+          {googleEnabled && (
+            <>
+              <div className="my-4 flex items-center gap-3 text-xs text-muted-foreground">
+                <div className="h-px flex-1 bg-border" />
+                or
+                <div className="h-px flex-1 bg-border" />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                disabled={isLoading}
+                onClick={() => signIn("google", { callbackUrl })}
+              >
+                Sign in with Google
+              </Button>
+            </>
+          )}
+          <p className="mt-4 text-center text-sm text-muted-foreground">
+            New moderator?{" "}
+            <Link href={authPageUrl("/auth/register", { callbackUrl: searchParams.get("callbackUrl") })} className="text-foreground underline">
+              Create an account
+            </Link>
+          </p>
         </CardContent>
       </Card>
     </div>
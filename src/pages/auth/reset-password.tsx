@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useApi } from "@/components/contex/ApiProvider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useResendCooldown } from "@/hooks/use-resend-cooldown";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MIN_PASSWORD_LENGTH,
+  OTP_LENGTH,
+  OTP_RESEND_COOLDOWN_SECONDS,
+  authPageUrl,
+  sanitizeOtp,
+  validateNewPassword,
+} from "@/lib/auth-form";
+
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const { client } = useApi();
+  const initialEmail = searchParams.get("email") || "";
+  const [email, setEmail] = useState(initialEmail);
+  const [otpCode, setOtpCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Arriving from /auth/forgot-password means a code was just sent
+  const cooldown = useResendCooldown(OTP_RESEND_COOLDOWN_SECONDS, { startActive: !!initialEmail });
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const passwordError = validateNewPassword(newPassword, confirmPassword);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const trimmedEmail = email.trim();
+      await client.auth.resetPassword({
+        email: trimmedEmail,
+        otp_code: otpCode,
+        new_password: newPassword,
+      });
+      toast({ title: "Password Updated", description: "Sign in with your new password." });
+      router.push("/auth/login");
+    } catch (err) {
+      console.error("Reset password error:", err);
+      setError(err instanceof Error ? err.message : "Failed to reset password. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setIsResending(true);
+    setError(null);
+    try {
+      const result = await client.auth.requestPasswordReset({ email: email.trim() });
+      cooldown.start();
+      toast({ title: "Code Sent", description: result.message || `A new code was sent to ${email.trim()}` });
+    } catch (err) {
+      console.error("Resend reset code error:", err);
+      setError(err instanceof Error ? err.message : "Failed to resend code");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Reset Password</CardTitle>
+          <CardDescription className="text-center">
+            Enter the code from your email and choose a new password
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                disabled={isLoading}
+                autoComplete="email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="otpCode">Reset Code</Label>
+              <Input
+                id="otpCode"
+                inputMode="numeric"
+                placeholder={"0".repeat(OTP_LENGTH)}
+                value={otpCode}
+                onChange={(e) => setOtpCode(sanitizeOtp(e.target.value))}
+                required
+                disabled={isLoading}
+                autoComplete="one-time-code"
+                autoFocus
+                className="text-center text-lg tracking-[0.5em] font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">New Password</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+                disabled={isLoading}
+                autoComplete="new-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm New Password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={isLoading}
+                autoComplete="new-password"
+              />
+            </div>
+            {error && (
+              <div className="p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">{error}</div>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={
+                isLoading || !email.trim() || otpCode.length !== OTP_LENGTH || !newPassword || !confirmPassword
+              }
+            >
+              {isLoading ? "Saving..." : "Reset Password"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={handleResend}
+              disabled={isResending || cooldown.active || !email.trim()}
+            >
+              {cooldown.active
+                ? `Resend code in ${cooldown.remaining}s`
+                : isResending
+                  ? "Sending..."
+                  : "Resend code"}
+            </Button>
+          </form>
+          <p className="mt-4 text-center text-sm text-muted-foreground">
+            <Link href={authPageUrl("/auth/forgot-password", { email })} className="text-foreground underline">
+              Use a different email
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
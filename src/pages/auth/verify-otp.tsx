@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { signIn } from "next-auth/react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useApi } from "@/components/contex/ApiProvider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useResendCooldown } from "@/hooks/use-resend-cooldown";
+import { useToast } from "@/hooks/use-toast";
+import { OTP_LENGTH, OTP_RESEND_COOLDOWN_SECONDS, authPageUrl, sanitizeOtp } from "@/lib/auth-form";
+
+export default function VerifyOtpPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const { client } = useApi();
+  const initialEmail = searchParams.get("email") || "";
+  const [email, setEmail] = useState(initialEmail);
+  const [otpCode, setOtpCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // A code was just sent when we arrive from register/login with the email
+  const cooldown = useResendCooldown(OTP_RESEND_COOLDOWN_SECONDS, { startActive: !!initialEmail });
+
+  const callbackUrl = searchParams.get("callbackUrl") || "/donate/history";
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Verifying the OTP also signs the new account in
+      const result = await signIn("otp", {
+        email: email.trim(),
+        otp_code: otpCode,
+        redirect: false,
+        callbackUrl,
+      });
+
+      if (result?.error) {
+        setError(result.error === "CredentialsSignin" ? "Invalid or expired code" : result.error);
+      } else if (result?.ok) {
+        toast({ title: "Email Verified", description: "Redirecting..." });
+        router.push(callbackUrl);
+        router.refresh();
+      }
+    } catch (err) {
+      console.error("OTP verification error:", err);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setIsResending(true);
+    setError(null);
+    try {
+      const result = await client.auth.resendOtp({ email: email.trim() });
+      cooldown.start();
+      toast({ title: "Code Sent", description: result.message || `A new code was sent to ${email.trim()}` });
+    } catch (err) {
+      console.error("Resend OTP error:", err);
+      setError(err instanceof Error ? err.message : "Failed to resend code");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Verify Email</CardTitle>
+          <CardDescription className="text-center">
+            Enter the {OTP_LENGTH}-digit code we sent to your email
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                disabled={isLoading}
+                autoComplete="email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="otpCode">Verification Code</Label>
+              <Input
+                id="otpCode"
+                inputMode="numeric"
+                placeholder={"0".repeat(OTP_LENGTH)}
+                value={otpCode}
+                onChange={(e) => setOtpCode(sanitizeOtp(e.target.value))}
+                required
+                disabled={isLoading}
+                autoComplete="one-time-code"
+                autoFocus
+                className="text-center text-lg tracking-[0.5em] font-mono"
+              />
+            </div>
+            {error && (
+              <div className="p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">{error}</div>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isLoading || !email.trim() || otpCode.length !== OTP_LENGTH}
+            >
+              {isLoading ? "Verifying..." : "Verify"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={handleResend}
+              disabled={isResending || cooldown.active || !email.trim()}
+            >
+              {cooldown.active
+                ? `Resend code in ${cooldown.remaining}s`
+                : isResending
+                  ? "Sending..."
+                  : "Resend code"}
+            </Button>
+          </form>
+          <p className="mt-4 text-center text-sm text-muted-foreground">
+            <Link href={authPageUrl("/auth/login", { callbackUrl: searchParams.get("callbackUrl") })} className="text-foreground underline">
+              Back to sign in
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { format, startOfDay, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useDonationAnalytics } from "@/hooks/use-donation-analytics";
+import { usePermission } from "@/hooks/use-permission";
+import { formatIdr } from "@/lib/currency";
+import type { AnalyticsBucket, AnalyticsRange } from "@/lib/donation-analytics";
+
+const RANGE_PRESETS = [
+  { label: "Hari Ini", days: 1 },
+  { label: "7 Hari", days: 7 },
+  { label: "30 Hari", days: 30 },
+] as const;
+
+// Helper function to build a range ending today
+function lastDays(days: number): AnalyticsRange {
+  const today = startOfDay(new Date());
+  return { from: subDays(today, days - 1), to: today };
+}
+
+// Helper function to format a range for the date picker button
+function formatRange(range: AnalyticsRange): string {
+  const from = format(range.from, "dd MMM yyyy");
+  const to = format(range.to, "dd MMM yyyy");
+  return from === to ? from : `${from} - ${to}`;
+}
+
+// Revenue per hour/day as vertical bars; the tooltip has the exact numbers
+function TimelineChart({ buckets }: { buckets: AnalyticsBucket[] }) {
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.total));
+  // Label every nth bar so long ranges stay readable
+  const labelEvery = Math.max(1, Math.ceil(buckets.length / 12));
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-48">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.key}
+            className="flex-1 h-full flex items-end"
+            title={`${bucket.label}: ${formatIdr(bucket.total)} (${bucket.count} donasi)`}
+          >
+            <div
+              className="w-full rounded-t-sm bg-gray-900 hover:bg-gray-700 transition-colors"
+              style={{ height: `${(bucket.total / max) * 100}%`, minHeight: bucket.total > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-2">
+        {buckets.map((bucket, index) => (
+          <div key={bucket.key} className="flex-1 min-w-0 text-[10px] text-gray-400 text-center truncate">
+            {index % labelEvery === 0 ? bucket.label : ""}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Horizontal bars relative to the largest entry, with the share of the total
+function BreakdownList({ items, total }: { items: AnalyticsBucket[]; total: number }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-400">Belum ada donasi</p>;
+  }
+  const max = Math.max(1, ...items.map((item) => item.total));
+
+  return (
+    <ul className="space-y-3">
+      {items.map((item) => (
+        <li key={item.key}>
+          <div className="flex items-baseline justify-between gap-2 text-sm">
+            <span className="font-medium text-gray-900">{item.label}</span>
+            <span className="text-gray-500 tabular-nums">
+              {formatIdr(item.total)} · {item.count}x · {total > 0 ? Math.round((item.total / total) * 100) : 0}%
+            </span>
+          </div>
+          <div className="mt-1 h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div className="h-full rounded-full bg-gray-900" style={{ width: `${(item.total / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-gray-500">{label}</p>
+        <p className="text-2xl font-semibold text-gray-900 mt-1 tabular-nums">{value}</p>
+        {detail && <p className="text-xs text-gray-400 mt-1">{detail}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DashboardPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const canAccess = usePermission("analytics:view");
+  const [range, setRange] = useState<AnalyticsRange>(() => lastDays(7));
+  const [pickerRange, setPickerRange] = useState<DateRange | undefined>(undefined);
+  const [pickerOpen, setPickerOpen] = useState<boolean>(false);
+  const { analytics, loading, error } = useDonationAnalytics(range, { enabled: canAccess });
+
+  // Check session and redirect if not authenticated
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/login?callbackUrl=" + encodeURIComponent("/donate/dashboard"));
+    } else if (status === "authenticated") {
+      // Check the user's role grants this page
+      if (!canAccess) {
+        router.push("/");
+      }
+    }
+  }, [status, canAccess, router]);
+
+  // Show loading while checking session
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-white p-8">
+        <div className="max-w-7xl mx-auto">
+          <h1 className="text-3xl font-bold text-black mb-8">Dashboard</h1>
+          <div className="flex justify-center items-center h-64">
+            <div className="text-gray-600 text-lg">Checking authentication...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Don't render if not authenticated or not allowed (redirect will happen)
+  if (status === "unauthenticated" || !session) {
+    return null;
+  }
+  if (!canAccess) {
+    return null;
+  }
+
+  const cryptoShare = analytics.total > 0 ? Math.round((analytics.crypto.total / analytics.total) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-8 gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900 tracking-tight">Dashboard</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {loading ? "Memuat donasi..." : `${analytics.count} donasi, update realtime`}
+            </p>
+          </div>
+          <div className="flex flex-row flex-wrap items-center gap-3">
+            {RANGE_PRESETS.map((preset) => (
+              <Button key={preset.days} variant="outline" onClick={() => setRange(lastDays(preset.days))}>
+                {preset.label}
+              </Button>
+            ))}
+            <Popover
+              open={pickerOpen}
+              onOpenChange={(open) => {
+                setPickerOpen(open);
+                if (open) setPickerRange({ from: range.from, to: range.to });
+              }}
+            >
+              <PopoverTrigger asChild>
+                <Button variant="outline">{formatRange(range)}</Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="range"
+                  numberOfMonths={2}
+                  selected={pickerRange}
+                  defaultMonth={range.from}
+                  disabled={{ after: new Date() }}
+                  onSelect={(selected) => {
+                    setPickerRange(selected);
+                    if (selected?.from && selected.to) {
+                      setRange({ from: startOfDay(selected.from), to: startOfDay(selected.to) });
+                      setPickerOpen(false);
+                    }
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+            <Button asChild variant="outline">
+              <Link href="/donate/history">History</Link>
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">
+            Error: {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <StatCard label="Total Donasi" value={formatIdr(analytics.total)} detail={`${analytics.count} donasi`} />
+          <StatCard label="Rata-rata" value={formatIdr(analytics.average)} detail="per donasi" />
+          <StatCard
+            label="Crypto"
+            value={`${cryptoShare}%`}
+            detail={`${formatIdr(analytics.crypto.total)} · ${analytics.crypto.count}x`}
+          />
+          <StatCard
+            label="Fiat"
+            value={`${analytics.total > 0 ? 100 - cryptoShare : 0}%`}
+            detail={`${formatIdr(analytics.fiat.total)} · ${analytics.fiat.count}x`}
+          />
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Total per {analytics.granularity === "hour" ? "Jam" : "Hari"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TimelineChart buckets={analytics.buckets} />
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Metode Pembayaran</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BreakdownList items={analytics.byPaymentMethod} total={analytics.total} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Jenis Donasi</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BreakdownList items={analytics.byType} total={analytics.total} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Jam Teramai</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BreakdownList items={analytics.topHours} total={analytics.total} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
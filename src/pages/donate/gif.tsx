@@ -1,118 +1,49 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import Image from "next/image";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import { SocketDebugPanel } from "@/components/ui/SocketDebugPanel";
+import { OverlayAmount } from "@/components/ui/OverlayAmount";
+import { createDonationQueue } from "@/lib/donation-queue";
+import { useOverlayConfig } from "@/hooks/use-overlay-config";
+import { useFxRate } from "@/hooks/use-fx-rate";
+import { usePricing } from "@/hooks/use-pricing";
+import {
+  OVERLAY_FONT_CLASSES,
+  OVERLAY_PREVIEW_DONATION,
+  getOverlayThemeClasses,
+  getOverlayWordFilter,
+} from "@/lib/overlay-config";
+import { maskText } from "@/lib/word-filter";
+import { ALERT_ANIMATION_CLASSES, parseAlertTiers, selectAlertTier, type AlertTier } from "@/lib/alert-tiers";
+import { donationAmountToIdr } from "@/lib/currency";
+import { calculateDisplayDuration, DEFAULT_PRICING } from "@/lib/pricing";
+import { resolveMedia, type ResolvedMedia } from "@/lib/media-providers";
+import { loadYouTubeIframeApi } from "@/lib/youtube-iframe-api";
+import type {
+  DonationSocketControl,
+  DonationSocketDonation,
+  DonationSocketMedia,
+  DonationSocketVisibility,
+} from "@/types/socket";
 
-interface DonationMessage {
-  id?: string; // UUID for tracking this donation
-  type: string;
-  donorName?: string;
-  amount?: number; // Integer amount (in IDR for duration calculation)
-  message?: string;
-  mediaUrl?: string;
-  mediaType?: string;
-  startTime?: number; // Start time in seconds for YouTube videos (legacy)
-  targetTime?: string | number; // Start time in seconds for YouTube videos (can be string or number)
-  duration?: number; // Display duration in milliseconds (from backend)
-  remainingMs?: number; // When reconnecting: remaining time in ms so web only displays, no replay from start
-  visible?: boolean;
-  paymentMethod?: string; // crypto, bank_transfer, gopay, etc
-  paymentType?: string; // plisio, midtrans
-  plisioCurrency?: string; // BTC, ETH, SOL, etc
-  plisioAmount?: string; // Crypto amount (e.g., "0.001", "0.5")
-}
-
-// Helper function to extract YouTube video ID
-function extractYouTubeId(url: string): string | null {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-    /youtube\.com\/watch\?.*v=([^&\n?#]+)/,
-  ];
-
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match && match[1]) {
-      return match[1];
-    }
-  }
-
-  return null;
-}
-
-// Helper function to extract Instagram Reel ID and type
-function extractInstagramId(url: string): { id: string; type: "reel" | "post" } | null {
-  const reelPattern = /instagram\.com\/reel\/([^\/\?]+)/;
-  const postPattern = /instagram\.com\/p\/([^\/\?]+)/;
-  
-  const reelMatch = url.match(reelPattern);
-  if (reelMatch && reelMatch[1]) {
-    return { id: reelMatch[1], type: "reel" };
-  }
-  
-  const postMatch = url.match(postPattern);
-  if (postMatch && postMatch[1]) {
-    return { id: postMatch[1], type: "post" };
-  }
-
-  return null;
-}
-
-// Helper function to extract TikTok video ID from URL
-function extractTikTokId(url: string): string | null {
-  // TikTok URL formats:
-  // https://www.tiktok.com/@username/video/VIDEO_ID?query=params
-  // https://vm.tiktok.com/CODE
-  // https://tiktok.com/@username/video/VIDEO_ID
-  const patterns = [
-    /tiktok\.com\/@[^\/\?]+\/video\/(\d+)/,  // Match @username/video/ID with optional query params
-    /tiktok\.com\/.*\/video\/(\d+)/,         // Match any path with /video/ID
-    /vm\.tiktok\.com\/([^\/\?]+)/,           // Match vm.tiktok.com short links
-  ];
-
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match && match[1]) {
-      return match[1];
-    }
-  }
-
-  return null;
-}
-
-// Helper function to check if URL is YouTube
-function isYouTubeUrl(url: string): boolean {
-  return /youtube\.com|youtu\.be/.test(url);
-}
-
-// Helper function to check if URL is Instagram
-function isInstagramUrl(url: string): boolean {
-  return /instagram\.com/.test(url);
-}
-
-// Helper function to check if URL is TikTok
-function isTikTokUrl(url: string): boolean {
-  return /tiktok\.com/.test(url);
-}
-
-// Helper function to calculate display duration based on donation amount
-// 1000 = 10 detik, setiap kelipatan 1000 = +10 detik
-function calculateDisplayDuration(amount: number): number {
-  if (isNaN(amount) || amount <= 0) {
-    return 10000; // Default 10 seconds if invalid
-  }
-  
-  // Calculate: amount / 1000 * 10 seconds (in milliseconds)
-  // 1000 = 10 detik, 2000 = 20 detik, etc.
-  const durationMs = (amount / 1000) * 10 * 1000;
-  
-  // Minimum 10 seconds
-  return Math.max(10000, durationMs);
-}
+// Donations that arrive while another one is on screen wait here
+const donationQueue = createDonationQueue({ storageKey: "donate-gif-queue" });
 
 export default function GiftPage() {
+  const config = useOverlayConfig("gif");
+  const pricing = usePricing();
+  const fxRate = useFxRate();
+  const theme = getOverlayThemeClasses(config.theme);
+  const tiers = useMemo(() => parseAlertTiers(config.tiers), [config.tiers]);
   const [mediaUrl, setMediaUrl] = useState<string | null>(null);
-  const [mediaType, setMediaType] = useState<"image" | "video" | "youtube" | "instagram" | "tiktok" | null>(null);
+  const [media, setMedia] = useState<ResolvedMedia | null>(null);
+  const mediaPlayer = media?.provider.player ?? null;
+  const mediaId = media?.id ?? null;
+  const mediaEndDetection = media?.provider.endDetection ?? null;
   const [startTime, setStartTime] = useState<number>(0); // Start time in seconds for YouTube videos
+  const [endTime, setEndTime] = useState<number>(0); // End of the donor's YouTube clip in seconds, 0 = play to the end
   const [donationMessage, setDonationMessage] = useState<{
     id: string; // UUID for tracking
     donorName: string;
@@ -122,458 +53,497 @@ export default function GiftPage() {
     paymentType?: string;
     plisioCurrency?: string;
     plisioAmount?: string;
+    tier: AlertTier | null;
   } | null>(null);
   const [currentDonationId, setCurrentDonationId] = useState<string | null>(null);
   const [isVisible, setIsVisible] = useState<boolean>(true);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
   const [remainingTime, setRemainingTime] = useState<number>(0);
   const [totalDuration, setTotalDuration] = useState<number>(0);
   const [videoDuration, setVideoDuration] = useState<number>(0);
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [queueLength, setQueueLength] = useState<number>(0);
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const pauseStartTimeRef = useRef<number | null>(null);
   const donationTimerRef = useRef<NodeJS.Timeout | null>(null);
   const youtubePlayerRef = useRef<any>(null); // YouTube Player instance
   const youtubeIframeRef = useRef<HTMLIFrameElement | null>(null);
+  const tierAudioRef = useRef<HTMLAudioElement | null>(null);
+  // Donation whose duration was calculated here rather than sent by the backend
+  const pricedDonationIdRef = useRef<string | null>(null);
   const donationStateRef = useRef<{
     donationMessage: typeof donationMessage;
     totalDuration: number;
     remainingTime: number;
     startTime: number;
+    endTime: number;
   }>({
     donationMessage: null,
     totalDuration: 0,
     remainingTime: 0,
     startTime: 0,
+    endTime: 0,
   });
 
-  // WebSocket connection
-  useEffect(() => {
-    const connectWebSocket = () => {
-      const wsProtocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      let wsHost = process.env.NEXT_PUBLIC_WS_HOST || "localhost:5000";
-      // Remove protocol if present (http:// or https://)
-      wsHost = wsHost.replace(/^https?:\/\//, "");
-      const wsUrl = `${wsProtocol}//${wsHost}/ws`;
+  // Stop the tier chime of the donation on screen
+  const stopTierSound = () => {
+    if (tierAudioRef.current) {
+      tierAudioRef.current.pause();
+      tierAudioRef.current = null;
+    }
+  };
 
+  // Stop playback and clear every piece of donation state
+  const resetDonationState = () => {
+    stopTierSound();
+
+    // Stop and reset video if playing
+    if (videoRef.current) {
       try {
-        // Close existing connection if any
-        if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-          console.log("🔄 Closing existing WebSocket connection before reconnecting");
-          wsRef.current.close();
-        }
+        videoRef.current.pause();
+        videoRef.current.currentTime = 0;
+      } catch (e) {
+        console.warn("Error stopping video:", e);
+      }
+    }
 
-        const ws = new WebSocket(wsUrl);
-        console.log("🔌 Attempting WebSocket connection to:", wsUrl);
-        
-        ws.onopen = () => {
-          console.log("✅ WebSocket connected successfully");
-          if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
-            reconnectTimeoutRef.current = null;
-          }
-        };
+    // Destroy YouTube player if exists
+    if (youtubePlayerRef.current) {
+      try {
+        youtubePlayerRef.current.destroy();
+      } catch (e) {
+        console.warn("Error destroying YouTube player:", e);
+      }
+      youtubePlayerRef.current = null;
+    }
 
-        ws.onmessage = (event) => {
-          try {
-            // Handle single message or multiple messages separated by newline
-            const rawData = event.data.toString().trim();
-            if (!rawData) return;
-
-            const messages = rawData.includes('\n') 
-              ? rawData.split('\n').filter((msg: string) => msg.trim())
-              : [rawData];
-            
-            for (const message of messages) {
-              const trimmed = message.trim();
-              if (!trimmed) continue;
-              
-              try {
-                const data: DonationMessage = JSON.parse(trimmed);
-
-                 switch (data.type) {
-                   case "donation":
-                     if (data.donorName && data.amount !== undefined && data.amount > 0 && data.id) {
-                       // Check if current donation is still active (has remaining time)
-                       const currentState = donationStateRef.current;
-                       
-                       // If there's an ongoing donation (regardless of donor name), ignore new donation
-                       // This ensures donations queue properly and don't interrupt each other
-                       if (currentState.donationMessage && currentState.remainingTime > 0) {
-                         const isSameDonor = currentState.donationMessage.donorName === data.donorName;
-                         console.log("⏸️ New donation received but current donation still active, ignoring:", {
-                           currentId: currentDonationId,
-                           currentDonor: currentState.donationMessage.donorName,
-                           newId: data.id,
-                           newDonor: data.donorName,
-                           isSameDonor: isSameDonor,
-                           remainingTime: currentState.remainingTime,
-                         });
-                         // Don't process new donation until current one finishes (queue will handle it)
-                         return;
-                       }
-                       
-                       // Only reset if current donation has finished
-                       if (currentDonationId && currentDonationId !== data.id) {
-                         // Current donation finished, safe to reset
-                         console.log("🔄 New donation received, resetting previous video:", {
-                           oldId: currentDonationId,
-                           newId: data.id,
-                         });
-                         
-                         // Stop and reset video if playing
-                         if (videoRef.current) {
-                           try {
-                             videoRef.current.pause();
-                             videoRef.current.currentTime = 0;
-                           } catch (e) {
-                             console.warn("Error resetting video:", e);
-                           }
-                         }
-                         
-                         // Destroy YouTube player if exists
-                         if (youtubePlayerRef.current) {
-                           try {
-                             youtubePlayerRef.current.destroy();
-                           } catch (e) {
-                             console.warn("Error destroying YouTube player:", e);
-                           }
-                           youtubePlayerRef.current = null;
-                         }
-                         
-                         // Clear timers
-                         if (donationTimerRef.current) {
-                           clearTimeout(donationTimerRef.current);
-                           donationTimerRef.current = null;
-                         }
-                         if (progressIntervalRef.current) {
-                           clearInterval(progressIntervalRef.current);
-                           progressIntervalRef.current = null;
-                         }
-                       }
-                       
-                       // Validate message max 160 characters
-                       const message = data.message && data.message.length > 160 
-                         ? data.message.substring(0, 160) 
-                         : data.message;
-                       
-                       // Use remainingMs when reconnecting (display runs in background; web only shows current state)
-                       // Otherwise use duration from backend, fallback to calculated
-                       const duration = data.duration || calculateDisplayDuration(data.amount);
-                       const effectiveDuration = data.remainingMs != null && data.remainingMs > 0
-                         ? data.remainingMs
-                         : duration;
-                       
-                       console.log("📥 Received donation:", {
-                         id: data.id,
-                         donorName: data.donorName,
-                         amount: data.amount,
-                         remainingMs: data.remainingMs,
-                         durationFromBackend: data.duration,
-                         effectiveDuration,
-                       });
-                       
-                       // Set duration FIRST before setting donation message
-                       setTotalDuration(effectiveDuration);
-                       setRemainingTime(effectiveDuration);
-                       
-                       setDonationMessage({
-                         id: data.id,
-                         donorName: data.donorName,
-                         amount: data.amount,
-                         message: message,
-                         paymentMethod: data.paymentMethod,
-                         paymentType: data.paymentType,
-                         plisioCurrency: data.plisioCurrency,
-                         plisioAmount: data.plisioAmount,
-                       });
-                       setCurrentDonationId(data.id);
-                       setIsVisible(true);
-                       pauseStartTimeRef.current = null;
-                     }
-                     break;
-
-              case "media":
-                if (data.mediaUrl && data.id) {
-                  // Check if current donation is still active (has remaining time)
-                  const currentState = donationStateRef.current;
-                  
-                  // If there's an ongoing donation (regardless of donor name), ignore new media
-                  // This ensures donations queue properly and don't interrupt each other
-                  if (currentState.donationMessage && currentState.remainingTime > 0) {
-                    console.log("⏸️ New media received but current donation still active, ignoring:", {
-                      currentId: currentDonationId,
-                      currentDonor: currentState.donationMessage.donorName,
-                      newId: data.id,
-                      remainingTime: currentState.remainingTime,
-                    });
-                    // Don't process new media until current donation finishes (queue will handle it)
-                    return;
-                  }
-                  
-                  // Only reset if current donation has finished
-                  if (currentDonationId && currentDonationId !== data.id) {
-                    // Current donation finished, safe to reset
-                    console.log("🔄 New media received, resetting previous video:", {
-                      oldId: currentDonationId,
-                      newId: data.id,
-                    });
-                    
-                    // Stop and reset video if playing
-                    if (videoRef.current) {
-                      try {
-                        videoRef.current.pause();
-                        videoRef.current.currentTime = 0;
-                      } catch (e) {
-                        console.warn("Error resetting video:", e);
-                      }
-                    }
-                    
-                    // Destroy YouTube player if exists
-                    if (youtubePlayerRef.current) {
-                      try {
-                        youtubePlayerRef.current.destroy();
-                      } catch (e) {
-                        console.warn("Error destroying YouTube player:", e);
-                      }
-                      youtubePlayerRef.current = null;
-                    }
-                  }
-                  
-                  setMediaUrl(data.mediaUrl);
-                  setCurrentDonationId(data.id);
-                  setIsVisible(true);
-                  pauseStartTimeRef.current = null;
-                  // Set start time for YouTube videos - prioritize targetTime over startTime
-                  let parsedStartTime = 0;
-                  if (data.targetTime !== undefined) {
-                    // targetTime can be string or number
-                    if (typeof data.targetTime === "string") {
-                      const parsed = parseInt(data.targetTime, 10);
-                      if (!isNaN(parsed) && parsed >= 0) {
-                        parsedStartTime = parsed;
-                      }
-                    } else if (typeof data.targetTime === "number" && data.targetTime >= 0) {
-                      parsedStartTime = data.targetTime;
-                    }
-                  } else if (data.startTime !== undefined && data.startTime >= 0) {
-                    // Fallback to legacy startTime
-                    parsedStartTime = data.startTime;
-                  }
-                  setStartTime(parsedStartTime);
-                  // Auto-detect platform or use provided mediaType
-                  if (isYouTubeUrl(data.mediaUrl)) {
-                    setMediaType("youtube");
-                  } else if (isInstagramUrl(data.mediaUrl)) {
-                    setMediaType("instagram");
-                  } else if (isTikTokUrl(data.mediaUrl)) {
-                    setMediaType("tiktok");
-                  } else {
-                    setMediaType((data.mediaType as "image" | "video" | "youtube" | "instagram" | "tiktok") || "image");
-                  }
-                }
-                break;
-
-              case "clear_queue":
-                console.log("🗑️ Clear queue message received, stopping all videos and clearing queue");
-                
-                // Stop and reset video if playing
-                if (videoRef.current) {
-                  try {
-                    videoRef.current.pause();
-                    videoRef.current.currentTime = 0;
-                  } catch (e) {
-                    console.warn("Error stopping video:", e);
-                  }
-                }
-                
-                // Destroy YouTube player if exists
-                if (youtubePlayerRef.current) {
-                  try {
-                    youtubePlayerRef.current.destroy();
-                  } catch (e) {
-                    console.warn("Error destroying YouTube player:", e);
-                  }
-                  youtubePlayerRef.current = null;
-                }
-                
-                // Clear YouTube iframe
-                if (youtubeIframeRef.current) {
-                  youtubeIframeRef.current = null;
-                }
-                
-                // Clear all timers
-                if (donationTimerRef.current) {
-                  clearTimeout(donationTimerRef.current);
-                  donationTimerRef.current = null;
-                }
-                if (progressIntervalRef.current) {
-                  clearInterval(progressIntervalRef.current);
-                  progressIntervalRef.current = null;
-                }
-                
-                // Clear all state
-                setMediaUrl(null);
-                setMediaType(null);
-                setStartTime(0);
-                setDonationMessage(null);
-                setCurrentDonationId(null);
-                setIsVisible(true);
-                setRemainingTime(0);
-                setTotalDuration(0);
-                setVideoDuration(0);
-                pauseStartTimeRef.current = null;
-                
-                // Clear donation state ref
-                donationStateRef.current = {
-                  donationMessage: null,
-                  totalDuration: 0,
-                  remainingTime: 0,
-                  startTime: 0,
-                };
-                
-                console.log("✅ All videos stopped and queue cleared");
-                break;
-
-              case "visibility":
-                // Handle visibility for current donation
-                if (data.id && data.id === currentDonationId) {
-                  if (data.visible === false) {
-                    // Server sent visibility false - this means donation duration ended on server
-                    // Clear everything immediately (donation completed server-side)
-                    console.log("⏰ Server signaled donation ended (ID: %s), clearing all state", data.id);
-                    
-                    // Stop and reset video if playing
-                    if (videoRef.current) {
-                      try {
-                        videoRef.current.pause();
-                        videoRef.current.currentTime = 0;
-                      } catch (e) {
-                        console.warn("Error stopping video:", e);
-                      }
-                    }
-                    
-                    // Destroy YouTube player if exists
-                    if (youtubePlayerRef.current) {
-                      try {
-                        youtubePlayerRef.current.destroy();
-                      } catch (e) {
-                        console.warn("Error destroying YouTube player:", e);
-                      }
-                      youtubePlayerRef.current = null;
-                    }
-                    
-                    // Clear all timers
-                    if (donationTimerRef.current) {
-                      clearTimeout(donationTimerRef.current);
-                      donationTimerRef.current = null;
-                    }
-                    if (progressIntervalRef.current) {
-                      clearInterval(progressIntervalRef.current);
-                      progressIntervalRef.current = null;
-                    }
-                    
-                    // Clear all state
-                    setMediaUrl(null);
-                    setMediaType(null);
-                    setStartTime(0);
-                    setDonationMessage(null);
-                    setCurrentDonationId(null);
-                    setIsVisible(true);
-                    setRemainingTime(0);
-                    setTotalDuration(0);
-                    setVideoDuration(0);
-                    pauseStartTimeRef.current = null;
-                    
-                    // Clear donation state ref
-                    donationStateRef.current = {
-                      donationMessage: null,
-                      totalDuration: 0,
-                      remainingTime: 0,
-                      startTime: 0,
-                    };
-                  } else {
-                    // Resumed - adjust remaining time if was paused
-                    setIsVisible(true);
-                    if (pauseStartTimeRef.current !== null) {
-                      const pauseDuration = Date.now() - pauseStartTimeRef.current;
-                      setRemainingTime((prev) => prev + pauseDuration);
-                      pauseStartTimeRef.current = null;
-                    }
-                  }
-                } else if (data.visible === false && currentDonationId === null) {
-                  // Visibility false for unknown donation - might be cleanup, just hide
-                  setIsVisible(false);
-                }
-                break;
-                }
-              } catch {
-                // Skip invalid JSON messages
-                console.warn("Invalid JSON message:", trimmed.substring(0, 100));
-              }
-            }
-          } catch (error) {
-            console.error("Error processing WebSocket message:", error);
-          }
-        };
-
-        ws.onerror = (error) => {
-          console.error("❌ WebSocket error:", error);
-          // Try to reconnect immediately on error
-          if (ws.readyState === WebSocket.CLOSED || ws.readyState === WebSocket.CLOSING) {
-            if (!reconnectTimeoutRef.current) {
-              reconnectTimeoutRef.current = setTimeout(() => {
-                console.log("🔄 Reconnecting WebSocket after error...");
-                connectWebSocket();
-              }, 1000);
-            }
-          }
-        };
+    // Clear all timers
+    if (donationTimerRef.current) {
+      clearTimeout(donationTimerRef.current);
+      donationTimerRef.current = null;
+    }
+    if (progressIntervalRef.current) {
+      clearInterval(progressIntervalRef.current);
+      progressIntervalRef.current = null;
+    }
 
-        ws.onclose = (event) => {
-          console.log("🔌 WebSocket closed:", {
-            code: event.code,
-            reason: event.reason,
-            wasClean: event.wasClean,
-          });
-          
-          // Only reconnect if not manually closed
-          if (event.code !== 1000) {
-            if (!reconnectTimeoutRef.current) {
-              console.log("🔄 Scheduling WebSocket reconnection in 3 seconds...");
-              reconnectTimeoutRef.current = setTimeout(() => {
-                connectWebSocket();
-              }, 3000);
-            }
-          }
-        };
-
-        wsRef.current = ws;
-      } catch (error) {
-        console.error("❌ WebSocket connection failed:", error);
-        // Retry connection after 3 seconds
-        if (!reconnectTimeoutRef.current) {
-          reconnectTimeoutRef.current = setTimeout(() => {
-            console.log("🔄 Retrying WebSocket connection...");
-            connectWebSocket();
-          }, 3000);
+    // Clear all state
+    setMediaUrl(null);
+    setMedia(null);
+    setStartTime(0);
+    setEndTime(0);
+    setDonationMessage(null);
+    setCurrentDonationId(null);
+    setIsVisible(true);
+    setIsPaused(false);
+    setRemainingTime(0);
+    setTotalDuration(0);
+    setVideoDuration(0);
+    pauseStartTimeRef.current = null;
+
+    // Clear donation state ref
+    donationStateRef.current = {
+      donationMessage: null,
+      totalDuration: 0,
+      remainingTime: 0,
+      startTime: 0,
+      endTime: 0,
+    };
+  };
+
+  // Stop the previous video before a different donation takes over
+  const resetPreviousMedia = () => {
+    // Stop and reset video if playing
+    if (videoRef.current) {
+      try {
+        videoRef.current.pause();
+        videoRef.current.currentTime = 0;
+      } catch (e) {
+        console.warn("Error resetting video:", e);
+      }
+    }
+
+    // Destroy YouTube player if exists
+    if (youtubePlayerRef.current) {
+      try {
+        youtubePlayerRef.current.destroy();
+      } catch (e) {
+        console.warn("Error destroying YouTube player:", e);
+      }
+      youtubePlayerRef.current = null;
+    }
+  };
+
+  // Helper function to check if a donation is still counting down on screen
+  const isDonationActive = () => {
+    const currentState = donationStateRef.current;
+    return !!currentState.donationMessage && currentState.remainingTime > 0;
+  };
+
+  // Helper function to get the provider id pricing uses for a media frame
+  const getMediaType = (data: DonationSocketMedia): string | undefined =>
+    resolveMedia(data.mediaUrl, data.mediaType)?.provider.id;
+
+  // Helper function to calculate display duration the way the donation form does
+  const getCalculatedDuration = (amount: number, paymentMethod?: string, mediaType?: string): number =>
+    calculateDisplayDuration(pricing, donationAmountToIdr(amount, paymentMethod, fxRate.rate), { mediaType });
+
+  const showDonation = (data: DonationSocketDonation) => {
+    // Only reset if current donation has finished
+    if (currentDonationId && currentDonationId !== data.id) {
+      // Current donation finished, safe to reset
+      console.log("🔄 New donation received, resetting previous video:", {
+        oldId: currentDonationId,
+        newId: data.id,
+      });
+      resetPreviousMedia();
+
+      // Clear timers
+      if (donationTimerRef.current) {
+        clearTimeout(donationTimerRef.current);
+        donationTimerRef.current = null;
+      }
+      if (progressIntervalRef.current) {
+        clearInterval(progressIntervalRef.current);
+        progressIntervalRef.current = null;
+      }
+    }
+
+    // Mask profanity and strip links before anything reaches the stream
+    const wordFilter = getOverlayWordFilter(config);
+    const donorName = config.wordFilter ? maskText(data.donorName, wordFilter) : data.donorName;
+    const rawMessage = config.wordFilter && data.message ? maskText(data.message, wordFilter) : data.message;
+
+    // Validate message max length from overlay config (160 by default)
+    const message = rawMessage && rawMessage.length > config.messageLength
+      ? rawMessage.substring(0, config.messageLength)
+      : rawMessage;
+
+    // Tiers are matched in IDR so crypto donations compare by their USD value
+    const amountIdr = donationAmountToIdr(data.amount, data.paymentMethod, fxRate.rate);
+    const tier = selectAlertTier(tiers, amountIdr);
+
+    // Use remainingMs when reconnecting (display runs in background; web only shows current state)
+    // Otherwise use duration from backend, then the tier duration, fallback to calculated.
+    // Per-media-type pricing needs the media frame, known here only when it was
+    // queued together with this one
+    const queuedMedia = donationQueue.getActive()?.media;
+    const isCalculated = !data.duration && !(tier && tier.duration > 0);
+    const duration = data.duration
+      || (tier && tier.duration > 0
+        ? tier.duration * 1000
+        : getCalculatedDuration(data.amount, data.paymentMethod, queuedMedia && getMediaType(queuedMedia)));
+    const { remainingMs } = data;
+    const isResuming = remainingMs != null && remainingMs > 0;
+    const effectiveDuration = isResuming ? remainingMs : duration;
+    // Otherwise the media frame arrives next and showMedia() reprices it
+    pricedDonationIdRef.current = isCalculated && !queuedMedia && !isResuming ? data.id : null;
+
+    console.log("📥 Received donation:", {
+      id: data.id,
+      donorName: data.donorName,
+      amount: data.amount,
+      remainingMs: data.remainingMs,
+      durationFromBackend: data.duration,
+      effectiveDuration,
+      tierMinAmount: tier?.minAmount,
+    });
+
+    // Play the tier chime once, but not again when resuming an interrupted donation
+    if (currentDonationId !== data.id && !isResuming) {
+      stopTierSound();
+      if (tier?.soundUrl) {
+        const audio = new Audio(tier.soundUrl);
+        audio.volume = config.volume;
+        audio.play().catch((err) => {
+          console.warn("Failed to play tier sound:", err);
+        });
+        tierAudioRef.current = audio;
+      }
+    }
+
+    // Set duration FIRST before setting donation message
+    setTotalDuration(effectiveDuration);
+    setRemainingTime(effectiveDuration);
+
+    setDonationMessage({
+      id: data.id,
+      donorName,
+      amount: data.amount,
+      message: message,
+      paymentMethod: data.paymentMethod,
+      paymentType: data.paymentType,
+      plisioCurrency: data.plisioCurrency,
+      plisioAmount: data.plisioAmount,
+      tier,
+    });
+    setCurrentDonationId(data.id);
+    setIsVisible(true);
+    setIsPaused(false);
+    pauseStartTimeRef.current = null;
+  };
+
+  const showMedia = (data: DonationSocketMedia) => {
+    // Only reset if current donation has finished
+    if (currentDonationId && currentDonationId !== data.id) {
+      // Current donation finished, safe to reset
+      console.log("🔄 New media received, resetting previous video:", {
+        oldId: currentDonationId,
+        newId: data.id,
+      });
+      resetPreviousMedia();
+    }
+
+    setMediaUrl(data.mediaUrl);
+    setCurrentDonationId(data.id);
+    setIsVisible(true);
+    pauseStartTimeRef.current = null;
+    // Set start time for YouTube videos - prioritize targetTime over startTime
+    let parsedStartTime = 0;
+    if (data.targetTime !== undefined) {
+      // targetTime can be string or number
+      if (typeof data.targetTime === "string") {
+        const parsed = parseInt(data.targetTime, 10);
+        if (!isNaN(parsed) && parsed >= 0) {
+          parsedStartTime = parsed;
         }
+      } else if (typeof data.targetTime === "number" && data.targetTime >= 0) {
+        parsedStartTime = data.targetTime;
       }
-    };
+    } else if (data.startTime !== undefined && data.startTime >= 0) {
+      // Fallback to legacy startTime
+      parsedStartTime = data.startTime;
+    }
+    setStartTime(parsedStartTime);
+    // Ignore an end time that doesn't leave anything to play
+    setEndTime(data.endTime !== undefined && data.endTime > parsedStartTime ? data.endTime : 0);
+    // Same provider rules as the donation form; unplayable links show no media
+    const resolved = resolveMedia(data.mediaUrl, data.mediaType);
+    if (!resolved) {
+      console.warn("⚠️ Unsupported media URL, showing donation without media:", data.mediaUrl);
+    }
+    setMedia(resolved);
 
-    connectWebSocket();
+    // Reprice a calculated duration now that the media type is known
+    const current = donationStateRef.current;
+    if (resolved && pricedDonationIdRef.current === data.id && current.donationMessage?.id === data.id) {
+      const repriced = getCalculatedDuration(
+        current.donationMessage.amount,
+        current.donationMessage.paymentMethod,
+        resolved.provider.id
+      );
+      const elapsed = current.totalDuration - current.remainingTime;
+      setTotalDuration(repriced);
+      setRemainingTime(Math.max(0, repriced - elapsed));
+    }
+    pricedDonationIdRef.current = null;
+  };
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
+  // Take the next queued donation and put it on screen
+  const playNext = () => {
+    const item = donationQueue.next();
+    if (!item) return;
+
+    console.log("▶️ Playing next donation from queue:", {
+      id: item.id,
+      remainingMs: item.remainingMs,
+      stillQueued: donationQueue.size(),
+    });
+    if (item.donation) {
+      // Resume from the saved remaining time if this entry was interrupted
+      showDonation(
+        item.remainingMs !== undefined
+          ? { ...item.donation, remainingMs: item.remainingMs }
+          : item.donation
+      );
+    }
+    if (item.media) {
+      showMedia(item.media);
+    }
+  };
+
+  const handleQueued = (data: DonationSocketDonation | DonationSocketMedia) => {
+    const result = donationQueue.enqueue(data);
+
+    if (result === "duplicate") {
+      console.log("⏭️ Duplicate %s ignored (ID: %s)", data.type, data.id);
+      return;
+    }
+    if (result === "active") {
+      // Second half (donation or media) of the entry already on screen
+      if (data.type === "donation") {
+        showDonation(data);
+      } else {
+        showMedia(data);
       }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
+      return;
+    }
+    // Ask the queue, not rendered state: a frame can arrive before React has
+    // committed the entry that is already playing
+    if (donationQueue.getActive()) {
+      console.log("⏸️ New %s queued while current donation still active:", data.type, {
+        currentId: currentDonationId,
+        newId: data.id,
+        queueLength: donationQueue.size(),
+      });
+      return;
+    }
+    playNext();
+  };
+
+  const handleDonation = (data: DonationSocketDonation) => {
+    // minAmount is in IDR; crypto amounts arrive in USD cents
+    const amountIdr = donationAmountToIdr(data.amount, data.paymentMethod, fxRate.rate);
+    if (amountIdr < config.minAmount) {
+      console.log("🔕 Donation below minimum amount, skipping:", {
+        id: data.id,
+        amount: data.amount,
+        amountIdr,
+        minAmount: config.minAmount,
+      });
+      donationQueue.skip(data.id);
+      return;
+    }
+    handleQueued(data);
+  };
+
+  const handleMedia = (data: DonationSocketMedia) => {
+    handleQueued(data);
+  };
+
+  const handleClearQueue = () => {
+    console.log("🗑️ Clear queue message received, stopping all videos and clearing queue");
+    donationQueue.clear();
+
+    // Clear YouTube iframe
+    if (youtubeIframeRef.current) {
+      youtubeIframeRef.current = null;
+    }
+    resetDonationState();
+
+    console.log("✅ All videos stopped and queue cleared");
+  };
+
+  const handleVisibility = (data: DonationSocketVisibility) => {
+    // Handle visibility for current donation
+    if (data.id && data.id === currentDonationId) {
+      if (data.visible === false) {
+        // Server sent visibility false - this means donation duration ended on server
+        // Clear everything immediately (donation completed server-side)
+        console.log("⏰ Server signaled donation ended (ID: %s), clearing all state", data.id);
+        resetDonationState();
+      } else {
+        // Resumed - adjust remaining time if was paused
+        setIsVisible(true);
+        if (pauseStartTimeRef.current !== null) {
+          const pauseDuration = Date.now() - pauseStartTimeRef.current;
+          setRemainingTime((prev) => prev + pauseDuration);
+          pauseStartTimeRef.current = null;
+        }
       }
-    };
+    } else if (data.visible === false && currentDonationId === null) {
+      // Visibility false for unknown donation - might be cleanup, just hide
+      setIsVisible(false);
+    }
+  };
+
+  const handleControl = (data: DonationSocketControl) => {
+    const targetsCurrent = !data.id || data.id === currentDonationId;
+
+    if (data.action === "skip") {
+      if (targetsCurrent && currentDonationId) {
+        console.log("⏭️ Skip received, ending current donation (ID: %s)", currentDonationId);
+        // Idle effect finishes the queue entry and plays the next one
+        resetDonationState();
+      } else if (data.id) {
+        console.log("⏭️ Skip received for queued donation (ID: %s)", data.id);
+        donationQueue.skip(data.id);
+      }
+      return;
+    }
+
+    if (!targetsCurrent || !currentDonationId) return;
+
+    // Paused donations stay mounted but hidden so media resumes where it stopped
+    if (data.action === "pause") {
+      console.log("⏸️ Pause received (ID: %s)", currentDonationId);
+      setIsPaused(true);
+      videoRef.current?.pause();
+      youtubePlayerRef.current?.pauseVideo?.();
+    } else {
+      console.log("▶️ Resume received (ID: %s)", currentDonationId);
+      setIsPaused(false);
+      videoRef.current?.play().catch((e) => {
+        console.warn("Error resuming video:", e);
+      });
+      youtubePlayerRef.current?.playVideo?.();
+    }
+  };
+
+  // WebSocket connection
+  useDonationSocket({
+    donation: handleDonation,
+    media: handleMedia,
+    clear_queue: handleClearQueue,
+    visibility: handleVisibility,
+    control: handleControl,
+  });
+
+  // Restore the queue saved before a reload and track its length for the badge
+  useEffect(() => {
+    const unsubscribe = donationQueue.subscribe(setQueueLength);
+    donationQueue.restore();
+    return unsubscribe;
   }, []);
 
+  // Save remaining time so an interrupted donation resumes where it stopped
+  useEffect(() => {
+    if (donationMessage) {
+      donationQueue.updateActiveRemaining(remainingTime);
+    }
+  }, [donationMessage, remainingTime]);
+
+  // Latest handlers for the timer effects below, which must not re-run on
+  // every render (same approach as useDonationSocket)
+  const playNextRef = useRef(playNext);
+  const showDonationRef = useRef(showDonation);
+  useEffect(() => {
+    playNextRef.current = playNext;
+    showDonationRef.current = showDonation;
+  });
+
+  // Overlay is idle: close out the finished entry and play the next one
+  useEffect(() => {
+    if (donationMessage || mediaUrl) return;
+
+    const timeout = setTimeout(() => {
+      donationQueue.finishActive();
+      playNextRef.current();
+    }, 0);
+    return () => clearTimeout(timeout);
+  }, [donationMessage, mediaUrl]);
+
+  // Preview mode: replay a sample donation so the settings page shows the look
+  useEffect(() => {
+    if (!config.preview) return;
+
+    const showSample = () => {
+      if (isDonationActive()) return;
+      showDonationRef.current({
+        type: "donation",
+        id: `preview-${Date.now()}`,
+        ...OVERLAY_PREVIEW_DONATION,
+        duration: 10000,
+      });
+    };
+    const timeout = setTimeout(showSample, 0);
+    const interval = setInterval(showSample, 12000);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [config.preview]);
+
   // Update donation state ref whenever state changes (for YouTube player access)
   useEffect(() => {
     donationStateRef.current = {
@@ -581,8 +551,9 @@ export default function GiftPage() {
       totalDuration,
       remainingTime,
       startTime,
+      endTime,
     };
-  }, [donationMessage, totalDuration, remainingTime, startTime]);
+  }, [donationMessage, totalDuration, remainingTime, startTime, endTime]);
 
   // Auto-hide based on donation duration from backend
   // Progress bar always follows donation duration, video stops when finished but content stays
@@ -600,15 +571,19 @@ export default function GiftPage() {
       return;
     }
 
-    // Get duration from state or calculate fallback
-    // Duration should already be set from websocket handler, but use fallback if not
-    const currentDuration = totalDuration > 0 ? totalDuration : calculateDisplayDuration(donationMessage.amount);
+    // Paused from the remote: freeze the countdown until resumed
+    if (isPaused) {
+      return;
+    }
+
+    // Duration is set (and priced) by showDonation/showMedia; the pricing
+    // minimum only covers a donation that somehow arrives without one
+    const currentDuration = totalDuration > 0 ? totalDuration : DEFAULT_PRICING.minDurationSeconds * 1000;
     
     console.log("⏱️ Timer setup:", {
       donationId: donationMessage.id,
       amount: donationMessage.amount,
       totalDuration,
-      calculatedDuration: calculateDisplayDuration(donationMessage.amount),
       currentDuration,
     });
 
@@ -628,7 +603,7 @@ export default function GiftPage() {
           }
           
           // Destroy YouTube player before closing if YouTube video is playing
-          if (youtubePlayerRef.current && mediaType === "youtube") {
+          if (youtubePlayerRef.current) {
             try {
               youtubePlayerRef.current.destroy();
             } catch (e) {
@@ -639,8 +614,9 @@ export default function GiftPage() {
           
           // Close when time is up
           setMediaUrl(null);
-          setMediaType(null);
+          setMedia(null);
           setStartTime(0);
+          setEndTime(0);
           setDonationMessage(null);
           setCurrentDonationId(null);
           setRemainingTime(0);
@@ -653,10 +629,13 @@ export default function GiftPage() {
       });
     }, 1000);
 
-    // Use currentDuration for timer
+    // Use remaining time so a resumed donation doesn't restart its full duration
+    const timerDuration = donationStateRef.current.remainingTime > 0
+      ? donationStateRef.current.remainingTime
+      : currentDuration;
     donationTimerRef.current = setTimeout(() => {
       // Destroy YouTube player before closing
-      if (youtubePlayerRef.current && mediaType === "youtube") {
+      if (youtubePlayerRef.current) {
         try {
           youtubePlayerRef.current.destroy();
         } catch (e) {
@@ -666,8 +645,9 @@ export default function GiftPage() {
       }
       
       setMediaUrl(null);
-      setMediaType(null);
+      setMedia(null);
       setStartTime(0);
+      setEndTime(0);
       setDonationMessage(null);
       setCurrentDonationId(null);
       setRemainingTime(0);
@@ -680,7 +660,7 @@ export default function GiftPage() {
         progressIntervalRef.current = null;
       }
       donationTimerRef.current = null;
-    }, currentDuration);
+    }, timerDuration);
 
     return () => {
       if (donationTimerRef.current) {
@@ -692,26 +672,27 @@ export default function GiftPage() {
         progressIntervalRef.current = null;
       }
     };
-  }, [donationMessage, isVisible, totalDuration]);
+  }, [donationMessage, isVisible, isPaused, totalDuration]);
 
   // Handle media without donation (video only)
   useEffect(() => {
-    if (mediaUrl && !donationMessage && mediaType === "video") {
+    if (mediaUrl && !donationMessage && mediaEndDetection === "media-element") {
       const finalDuration = videoDuration > 0 ? videoDuration * 1000 : 10000;
       const timer = setTimeout(() => {
         setMediaUrl(null);
-        setMediaType(null);
+        setMedia(null);
         setStartTime(0);
+        setEndTime(0);
         setVideoDuration(0);
       }, finalDuration);
 
       return () => clearTimeout(timer);
     }
-  }, [mediaUrl, donationMessage, mediaType, videoDuration]);
+  }, [mediaUrl, donationMessage, mediaEndDetection, videoDuration]);
 
   // Handle video metadata loaded and video ended event
   useEffect(() => {
-    if (videoRef.current && mediaType === "video") {
+    if (videoRef.current && mediaPlayer === "video") {
       const video = videoRef.current;
       
       const handleLoadedMetadata = () => {
@@ -753,7 +734,8 @@ export default function GiftPage() {
       const handleTimeUpdate = () => {
         // Only prevent looping if donation has ended
         // If donation is still active, allow video to loop
-        if (video.ended && (!donationMessage || remainingTime <= 0)) {
+        const currentState = donationStateRef.current;
+        if (video.ended && (!currentState.donationMessage || currentState.remainingTime <= 0)) {
           // Donation ended, prevent video from restarting
           if (video.currentTime < video.duration) {
           video.pause();
@@ -801,37 +783,12 @@ export default function GiftPage() {
         video.removeEventListener("canplay", handleCanPlay);
       };
     }
-  }, [mediaUrl, mediaType, videoDuration]);
+  }, [mediaUrl, mediaPlayer, videoDuration]);
 
   // Load YouTube IFrame API and handle YouTube video ended
   useEffect(() => {
-    if (mediaType === "youtube" && mediaUrl && extractYouTubeId(mediaUrl)) {
-      const videoId = extractYouTubeId(mediaUrl);
-      if (!videoId) return;
-
-      // Load YouTube IFrame API if not already loaded
-      const loadYouTubeAPI = () => {
-        if (window.YT && window.YT.Player) {
-          initializeYouTubePlayer(videoId);
-        } else {
-          // Load YouTube IFrame API script
-          const existingScript = document.querySelector('script[src="https://www.youtube.com/iframe_api"]');
-          if (!existingScript) {
-            const script = document.createElement("script");
-            script.src = "https://www.youtube.com/iframe_api";
-            script.async = true;
-            window.onYouTubeIframeAPIReady = () => {
-              initializeYouTubePlayer(videoId);
-            };
-            document.body.appendChild(script);
-          } else {
-            // Script already loaded, initialize player
-            setTimeout(() => {
-              initializeYouTubePlayer(videoId);
-            }, 100);
-          }
-        }
-      };
+    if (mediaPlayer === "youtube" && mediaUrl && mediaId) {
+      const videoId = mediaId;
 
       const initializeYouTubePlayer = (id: string) => {
         try {
@@ -906,9 +863,27 @@ export default function GiftPage() {
         }
       };
 
-      loadYouTubeAPI();
+      // On failure the donation still ends on its own duration
+      loadYouTubeIframeApi()
+        .then(() => initializeYouTubePlayer(videoId))
+        .catch((error) => {
+          console.error("Error loading YouTube IFrame API:", error);
+        });
+
+      // Stop once at the donor's chosen end time; the donation card stays up
+      // until its own duration runs out
+      const endTimeInterval = setInterval(() => {
+        const clipEnd = donationStateRef.current.endTime;
+        const player = youtubePlayerRef.current;
+        if (clipEnd > 0 && player && player.getCurrentTime() >= clipEnd) {
+          console.log("⏹️ YouTube clip reached its end time:", clipEnd);
+          player.pauseVideo();
+          clearInterval(endTimeInterval);
+        }
+      }, 250);
 
       return () => {
+        clearInterval(endTimeInterval);
         // Cleanup YouTube player
         if (youtubePlayerRef.current) {
           try {
@@ -920,11 +895,11 @@ export default function GiftPage() {
         }
       };
     }
-  }, [mediaType, mediaUrl]);
+  }, [mediaPlayer, mediaUrl, mediaId]);
 
   // Load TikTok embed script when TikTok media is shown
   useEffect(() => {
-    if (mediaType === "tiktok" && mediaUrl) {
+    if (mediaPlayer === "tiktok" && mediaUrl) {
       const loadTikTok = () => {
         // Force TikTok to re-render embed
         // @ts-expect-error - TikTok embed global function is injected by embed.js
@@ -957,7 +932,7 @@ export default function GiftPage() {
         clearTimeout(timeoutId);
       };
     }
-  }, [mediaType, mediaUrl]);
+  }, [mediaPlayer, mediaUrl]);
 
   // Helper function to format time as MM:SS
   const formatTime = (ms: number): string => {
@@ -972,21 +947,25 @@ export default function GiftPage() {
     ? ((totalDuration - remainingTime) / totalDuration) * 100 
     : 0;
 
+  const alertColor = donationMessage?.tier?.color ?? config.accentColor;
+
   // Tanpa konten: tampilkan kosong (overlay hanya untuk tampil media share)
   if (!mediaUrl && !donationMessage) {
-    return <div className="hidden" />;
+    return <SocketDebugPanel />;
   }
 
   if (!isVisible) {
-    return <div className="hidden" />;
+    return <SocketDebugPanel />;
   }
 
   return (
-    <div className="flex flex-col w-full h-screen bg-black overflow-hidden">
+    <div
+      className={`relative flex ${config.anchor === "top" ? "flex-col-reverse" : "flex-col"} w-full h-screen ${theme.page} ${OVERLAY_FONT_CLASSES[config.fontFamily]} overflow-hidden ${isPaused ? "invisible" : ""}`}
+    >
       {/* Media Section - Top */}
       {mediaUrl && (
         <div className="flex-1 w-full relative min-h-0">
-          {mediaType === "image" && (
+          {mediaPlayer === "image" && (
             <Image
               src={mediaUrl}
               alt="Background"
@@ -996,7 +975,7 @@ export default function GiftPage() {
               priority
             />
           )}
-          {mediaType === "video" && (
+          {mediaPlayer === "video" && (
             <video
               ref={videoRef}
               src={mediaUrl}
@@ -1006,43 +985,40 @@ export default function GiftPage() {
               className="w-full h-full object-contain"
             />
           )}
-          {mediaType === "youtube" && extractYouTubeId(mediaUrl) && (
+          {mediaPlayer === "youtube" && media && (
             <iframe
               ref={youtubeIframeRef}
               key={`${mediaUrl}-${startTime}`}
-              src={`https://www.youtube.com/embed/${extractYouTubeId(mediaUrl)}?autoplay=1&mute=0&controls=0&rel=0&modestbranding=1&playsinline=1&start=${startTime}&enablejsapi=1`}
+              src={media.provider.embedUrl(media.id, { autoplay: true, muted: false, controls: false, startTime })}
               className="w-full h-full"
               allow="autoplay; encrypted-media; picture-in-picture"
               allowFullScreen
               style={{ border: "none" }}
             />
           )}
-          {mediaType === "instagram" && extractInstagramId(mediaUrl) && (() => {
-            const instagramData = extractInstagramId(mediaUrl);
-            if (!instagramData) return null;
-            
-            const embedUrl = instagramData.type === "reel"
-              ? `https://www.instagram.com/reel/${instagramData.id}/embed/?autoplay=1&playsinline=1`
-              : `https://www.instagram.com/p/${instagramData.id}/embed/?autoplay=1&playsinline=1`;
-            
-            return (
-              <iframe
-                src={embedUrl}
-                className="w-full h-full"
-                allow="encrypted-media; autoplay; fullscreen"
-                allowFullScreen
-                style={{ border: "none" }}
-                scrolling="no"
-                frameBorder="0"
-              />
-            );
-          })()}
-          {mediaType === "tiktok" && mediaUrl && extractTikTokId(mediaUrl) && (
+          {mediaPlayer === "iframe" && media && (
+            <iframe
+              key={mediaUrl}
+              src={media.provider.embedUrl(media.id, {
+                autoplay: true,
+                muted: false,
+                startTime,
+                parent: window.location.hostname,
+              })}
+              className="w-full h-full"
+              allow="encrypted-media; autoplay; fullscreen"
+              allowFullScreen
+              style={{ border: "none" }}
+              scrolling="no"
+              frameBorder="0"
+            />
+          )}
+          {mediaPlayer === "tiktok" && media && (
             <div className="w-full h-full flex items-center justify-center bg-black">
               <blockquote
                 className="tiktok-embed"
                 cite={mediaUrl}
-                data-video-id={extractTikTokId(mediaUrl)!}
+                data-video-id={media.id}
                 style={{ maxWidth: "100%", minWidth: "325px" }}
               >
                 <section />
@@ -1052,6 +1028,16 @@ export default function GiftPage() {
         </div>
       )}
 
+      {/* Queue badge - enabled with ?queueBadge=1 */}
+      {config.queueBadge && queueLength > 0 && (
+        <div
+          className="absolute top-4 right-4 z-20 px-3 py-1 rounded-full bg-black/80 text-lg font-semibold shadow-lg"
+          style={{ color: config.accentColor }}
+        >
+          +{queueLength} lagi di antrean
+        </div>
+      )}
+
       {/* Progress Bar - YouTube style */}
       {mediaUrl && donationMessage && totalDuration > 0 && (
         <div className="h-1 shrink-0 bg-gray-800 relative cursor-pointer group">
@@ -1072,33 +1058,44 @@ export default function GiftPage() {
 
       {/* Donation Description - Bottom */}
       {donationMessage && (
-        <div className="w-full shrink-0 animate-[slideUp_0.5s_ease-out] mt-4">
-          <div className="bg-black/80 backdrop-blur-sm px-4 py-2 shadow-2xl rounded-lg">
+        <div
+          key={donationMessage.id}
+          className={`w-full shrink-0 mt-4 ${donationMessage.tier ? ALERT_ANIMATION_CLASSES[donationMessage.tier.animation] : "animate-[slideUp_0.5s_ease-out]"}`}
+        >
+          <div className={`${theme.card} px-4 py-2 shadow-2xl rounded-lg`}>
             <div className="flex flex-col items-center text-center">
+              {/* Tier GIF/image */}
+              {donationMessage.tier?.imageUrl && (
+                <Image
+                  src={donationMessage.tier.imageUrl}
+                  alt=""
+                  width={0}
+                  height={0}
+                  className="w-auto mb-2"
+                  style={{ height: 120 * config.fontScale }}
+                  unoptimized
+                />
+              )}
               {/* Line 1: Donor name and amount */}
-              <div className="text-white text-[30px] font-semibold break-words px-2" style={{ wordBreak: "break-word", overflowWrap: "anywhere" }}>
-                <span className="text-[#FFB703]">
+              <div className={`${theme.text} font-semibold break-words px-2`} style={{ fontSize: 30 * config.fontScale, wordBreak: "break-word", overflowWrap: "anywhere" }}>
+                <span style={{ color: alertColor }}>
                   {donationMessage.donorName}
                 </span>{" "}
                 baru saja memberikan{" "}
-                {donationMessage.paymentMethod === "crypto" && donationMessage.plisioCurrency && donationMessage.plisioAmount ? (
-                  <span className="text-[#FFB703]">
-                    {parseFloat(donationMessage.plisioAmount).toLocaleString("id-ID", {
-                      minimumFractionDigits: 0,
-                      maximumFractionDigits: 8,
-                    })}{" "}
-                    {donationMessage.plisioCurrency}
-                  </span>
-                ) : (
-                <span className="text-[#FFB703]">
-                  Rp{donationMessage.amount.toLocaleString("id-ID")}
-                </span>
-                )}
+                <OverlayAmount
+                  amount={donationMessage.amount}
+                  paymentMethod={donationMessage.paymentMethod}
+                  plisioAmount={donationMessage.plisioAmount}
+                  plisioCurrency={donationMessage.plisioCurrency}
+                  fxRate={fxRate}
+                  color={alertColor}
+                  mutedClassName={theme.muted}
+                />
               </div>
 
               {/* Line 2: Optional message - moved down */}
               {donationMessage.message && (
-                <div className="text-zinc-300 text-[30px] mt-2 break-words max-w-full px-4" style={{ wordBreak: "break-word", overflowWrap: "anywhere" }}>
+                <div className={`${theme.muted} mt-2 break-words max-w-full px-4`} style={{ fontSize: 30 * config.fontScale, wordBreak: "break-word", overflowWrap: "anywhere" }}>
                   {donationMessage.message}
                 </div>
               )}
@@ -1106,6 +1103,7 @@ export default function GiftPage() {
           </div>
         </div>
       )}
+      <SocketDebugPanel />
     </div>
   );
 }
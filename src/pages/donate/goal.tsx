@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import { useApi } from "@/components/contex/ApiProvider";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import { SocketDebugPanel } from "@/components/ui/SocketDebugPanel";
+import { useOverlayConfig } from "@/hooks/use-overlay-config";
+import {
+  OVERLAY_ANCHOR_CLASSES,
+  OVERLAY_FONT_CLASSES,
+  getOverlayThemeClasses,
+} from "@/lib/overlay-config";
+import {
+  getEarliestGoalStart,
+  getGoalProgress,
+  getPreviewGoals,
+  isGoalActive,
+  parseDonationGoals,
+  type GoalContribution,
+} from "@/lib/donation-goals";
+import { donationAmountToIdr, formatIdr } from "@/lib/currency";
+import { fetchDonationHistory } from "@/lib/donation-history";
+import { resolveUsdToIdrRate } from "@/lib/fx-rate";
+import type { DonationGoal } from "@/types/donation";
+
+const CELEBRATION_DURATION = 8000;
+
+// Helper function to merge contributions, keeping the first copy of each id
+function mergeContributions(
+  current: GoalContribution[],
+  incoming: GoalContribution[]
+): GoalContribution[] {
+  const seen = new Set(current.map((contribution) => contribution.id));
+  const added = incoming.filter((contribution) => {
+    if (seen.has(contribution.id)) return false;
+    seen.add(contribution.id);
+    return true;
+  });
+  return added.length > 0 ? [...current, ...added] : current;
+}
+
+export default function GoalPage() {
+  const config = useOverlayConfig("goal");
+  const theme = getOverlayThemeClasses(config.theme);
+  const [contributions, setContributions] = useState<GoalContribution[]>([]);
+  const [historyLoaded, setHistoryLoaded] = useState<boolean>(false);
+  const [celebrating, setCelebrating] = useState<DonationGoal | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
+  const celebratedIdsRef = useRef<Set<string> | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const { client } = useApi();
+
+  const goals = useMemo(() => {
+    const configured = parseDonationGoals(config.goals);
+    return configured.length === 0 && config.preview ? getPreviewGoals() : configured;
+  }, [config.goals, config.preview]);
+
+  // Load donations made since the earliest goal started
+  useEffect(() => {
+    if (config.preview) return;
+    const since = getEarliestGoalStart(goals);
+    if (since === null) return;
+
+    let cancelled = false;
+    const loadHistory = async () => {
+      let loaded: GoalContribution[] = [];
+      try {
+        const [history, usdToIdrRate] = await Promise.all([
+          fetchDonationHistory(client, { since }),
+          resolveUsdToIdrRate(client),
+        ]);
+        loaded = history.map((donation) => ({
+          id: donation.id,
+          amountIdr: donationAmountToIdr(donation.amount, donation.payment?.paymentMethod, usdToIdrRate),
+          createdAt: donation.createdAt,
+        }));
+      } catch (err) {
+        console.error("Error loading goal history:", err);
+      }
+
+      if (cancelled) return;
+      console.log("🎯 Loaded goal history:", { donations: loaded.length });
+      setContributions((prev) => mergeContributions(prev, loaded));
+      setHistoryLoaded(true);
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, goals, config.preview]);
+
+  // WebSocket connection: every finished donation arrives as a history frame
+  useDonationSocket(
+    {
+      history: (data) => {
+        // Same rate source as the history load, not the config fallback
+        resolveUsdToIdrRate(client).then((usdToIdrRate) => {
+          const contribution: GoalContribution = {
+            id: data.id,
+            amountIdr: donationAmountToIdr(data.amount, data.paymentMethod, usdToIdrRate),
+            createdAt: data.createdAt || new Date().toISOString(),
+          };
+          console.log("📥 Goal contribution received:", contribution);
+          setContributions((prev) => mergeContributions(prev, [contribution]));
+        });
+      },
+    },
+    { enabled: !config.preview && goals.length > 0 }
+  );
+
+  // Preview mode: add a sample donation every few seconds
+  useEffect(() => {
+    if (!config.preview) return;
+
+    const timeout = setTimeout(() => setHistoryLoaded(true), 0);
+    const interval = setInterval(() => {
+      setContributions((prev) => [
+        ...prev,
+        { id: `preview-${Date.now()}`, amountIdr: 50000, createdAt: new Date().toISOString() },
+      ]);
+    }, 2000);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [config.preview]);
+
+  // Re-check which goals are active as the day changes
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Initialize celebration sound (no sound when soundUrl is empty)
+  useEffect(() => {
+    if (!config.soundUrl) return;
+
+    const audio = new Audio(config.soundUrl);
+    audio.preload = "auto";
+    audio.volume = config.volume;
+    audioRef.current = audio;
+
+    return () => {
+      audio.pause();
+      audioRef.current = null;
+    };
+  }, [config.soundUrl, config.volume]);
+
+  const progress = useMemo(
+    () =>
+      goals
+        .filter((goal) => isGoalActive(goal, now))
+        .map((goal) => getGoalProgress(goal, contributions)),
+    [goals, contributions, now]
+  );
+
+  // Celebrate goals that get reached while the overlay is open
+  useEffect(() => {
+    if (!historyLoaded) return;
+
+    const reached = progress.filter((item) => item.reached).map((item) => item.goal);
+    if (celebratedIdsRef.current === null) {
+      // Goals already reached before the overlay loaded don't celebrate again
+      celebratedIdsRef.current = new Set(reached.map((goal) => goal.id));
+      return;
+    }
+
+    const celebrated = celebratedIdsRef.current;
+    const newlyReached = reached.find((goal) => !celebrated.has(goal.id));
+    if (!newlyReached) return;
+
+    celebrated.add(newlyReached.id);
+    console.log("🎉 Goal reached:", newlyReached.title);
+    if (audioRef.current) {
+      audioRef.current.currentTime = 0;
+      audioRef.current.play().catch((err) => {
+        console.error("❌ Failed to play goal sound:", err);
+      });
+    }
+
+    setTimeout(() => setCelebrating(newlyReached), 0);
+  }, [progress, historyLoaded]);
+
+  // Hide the celebration banner after a while
+  useEffect(() => {
+    if (!celebrating) return;
+
+    const timeout = setTimeout(() => setCelebrating(null), CELEBRATION_DURATION);
+    return () => clearTimeout(timeout);
+  }, [celebrating]);
+
+  // Completely hidden when there is nothing to track
+  if (progress.length === 0) {
+    return <SocketDebugPanel />;
+  }
+
+  return (
+    <div className={`flex min-h-screen flex-col ${theme.page} ${OVERLAY_FONT_CLASSES[config.fontFamily]}`}>
+      <main className={`flex-1 flex flex-col items-center ${OVERLAY_ANCHOR_CLASSES[config.anchor]} px-4 py-8`}>
+        <div className="w-full max-w-3xl space-y-4" style={{ zoom: config.fontScale }}>
+          {celebrating && (
+            <div className={`${theme.card} rounded-xl px-6 py-4 text-center animate-bounce`}>
+              <p className={`text-3xl font-bold ${theme.text}`}>🎉 Goal tercapai!</p>
+              <p className="text-xl font-semibold" style={{ color: config.accentColor }}>
+                {celebrating.title}
+              </p>
+            </div>
+          )}
+
+          {progress.map(({ goal, total, percentage, reached }) => (
+            <div key={goal.id} className={`${theme.card} rounded-xl px-6 py-4`}>
+              <div className="flex items-baseline justify-between gap-4 mb-2">
+                <h2 className={`text-2xl font-bold truncate ${theme.text}`}>{goal.title}</h2>
+                <span className={`text-lg font-semibold whitespace-nowrap ${theme.muted}`}>
+                  {Math.floor(percentage)}%
+                </span>
+              </div>
+
+              {/* Progress Bar */}
+              <div className="w-full h-5 rounded-full bg-white/20 overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-[width] duration-1000 ease-out ${reached ? "animate-pulse" : ""}`}
+                  style={{ width: `${percentage}%`, backgroundColor: config.accentColor }}
+                />
+              </div>
+
+              <p className={`mt-2 text-base ${theme.muted}`}>
+                {formatIdr(total)} / {formatIdr(goal.targetAmount)}
+              </p>
+            </div>
+          ))}
+        </div>
+      </main>
+      <SocketDebugPanel />
+    </div>
+  );
+}
@@ -1,10 +1,20 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
+import { useApi } from "@/components/contex/ApiProvider";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { Button } from "@/components/ui/button";
+import { QueueControlPanel } from "@/components/ui/QueueControlPanel";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import { usePermission } from "@/hooks/use-permission";
+import { useQueueControls } from "@/hooks/use-queue-controls";
+import { formatCryptoAmount } from "@/lib/currency";
+import { resolveMedia } from "@/lib/media-providers";
+import { isWithinTimeWindow, type TimeWindow } from "@/lib/time-window";
+import type { DonationHistory } from "@/types/donation";
 import {
   Select,
   SelectContent,
@@ -13,50 +23,16 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-interface DonationHistory {
-  id: string;
-  type: "gif" | "text";
-  mediaUrl?: string;
-  mediaType?: string;
-  startTime?: number;
-  donorName: string;
-  amount: number;
-  message?: string;
-  createdAt: string;
-  payment?: {
-    paymentMethod?: string;
-    paymentType?: string;
-    plisioCurrency?: string;
-    plisioSourceAmount?: number;
-  };
-}
-
-interface HistoryResponse {
-  success: boolean;
-  data: DonationHistory[];
-  limit: number;
-  offset: number;
-}
-
-interface WebSocketMessage {
-  type: string;
-  id?: string;
-  donorName?: string;
-  amount?: number;
-  message?: string;
-  mediaUrl?: string;
-  mediaType?: string;
-  startTime?: number;
-  createdAt?: string;
-  paymentMethod?: string;
-  paymentType?: string;
-  plisioCurrency?: string;
-  plisioAmount?: string;
-}
-
 export default function HistoryPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
+  const canAccess = usePermission("history:view");
+  const canClearQueue = usePermission("queue:clear");
+  const canControlQueue = usePermission("queue:control");
+  const canManageSubathon = usePermission("subathon:manage");
+  const canModerate = usePermission("moderation:review");
+  const canSeeDonorEmail = usePermission("donor:email");
+  const canViewAnalytics = usePermission("analytics:view");
   const [history, setHistory] = useState<DonationHistory[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -66,199 +42,91 @@ export default function HistoryPage() {
   const [clearingQueue, setClearingQueue] = useState<boolean>(false);
   const [clearQueueMessage, setClearQueueMessage] = useState<string | null>(null);
   const [showClearQueueDialog, setShowClearQueueDialog] = useState<boolean>(false);
-  const [timeFilter, setTimeFilter] = useState<string>("all"); // "all", "1min", "1hour", "1day", "1week"
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [timeFilter, setTimeFilter] = useState<TimeWindow>("all");
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const queueControls = useQueueControls();
 
-  const apiBaseUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000";
+  const { client } = useApi();
 
   // Check session and redirect if not authenticated
   useEffect(() => {
     if (status === "unauthenticated") {
       router.push("/auth/login?callbackUrl=" + encodeURIComponent("/donate/history"));
     } else if (status === "authenticated") {
-      // Check if user is admin
-      if (session?.user?.role !== "admin" && session?.userType !== "admin") {
+      // Check the user's role grants this page
+      if (!canAccess) {
         router.push("/");
       }
     }
-  }, [status, session, router]);
+  }, [status, canAccess, router]);
 
   const fetchHistory = useCallback(async (currentOffset: number) => {
     try {
       setLoading(true);
       setError(null);
 
-      // /hit/history is public, no auth required
-      const response = await fetch(
-        `${apiBaseUrl}/hit/history?limit=${limit}&offset=${currentOffset}`
-      );
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch history: ${response.statusText}`);
-      }
-
-      const data: HistoryResponse = await response.json();
+      const data = await client.history.list({ limit, offset: currentOffset });
 
-      if (data.success) {
-        if (currentOffset === 0) {
-          setHistory(data.data);
-        } else {
-          setHistory((prev) => [...prev, ...data.data]);
-        }
-        setHasMore(data.data.length === limit);
+      if (currentOffset === 0) {
+        setHistory(data.data);
       } else {
-        throw new Error("Failed to fetch history");
+        setHistory((prev) => [...prev, ...data.data]);
       }
+      setHasMore(data.data.length === limit);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
       console.error("Error fetching history:", err);
     } finally {
       setLoading(false);
     }
-  }, [apiBaseUrl, limit]);
+  }, [client, limit]);
 
   useEffect(() => {
     fetchHistory(0);
   }, [fetchHistory]);
 
   // WebSocket connection for realtime updates
-  useEffect(() => {
-    const connectWebSocket = () => {
-      const wsProtocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      let wsHost = process.env.NEXT_PUBLIC_WS_HOST || "localhost:5000";
-      // Remove protocol if present (http:// or https://)
-      wsHost = wsHost.replace(/^https?:\/\//, "");
-      const wsUrl = `${wsProtocol}//${wsHost}/ws`;
-
-      try {
-        // Close existing connection if any
-        if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-          console.log("🔄 Closing existing WebSocket connection before reconnecting");
-          wsRef.current.close();
-        }
-
-        const ws = new WebSocket(wsUrl);
-        console.log("🔌 Attempting WebSocket connection to:", wsUrl);
-
-        ws.onopen = () => {
-          console.log("✅ WebSocket connected successfully (history page)");
-          if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
-            reconnectTimeoutRef.current = null;
-          }
-        };
-
-        ws.onmessage = (event) => {
-          try {
-            const rawData = event.data.toString().trim();
-            if (!rawData) return;
-
-            const messages = rawData.includes('\n') 
-              ? rawData.split('\n').filter((msg: string) => msg.trim())
-              : [rawData];
-            
-            for (const message of messages) {
-              const trimmed = message.trim();
-              if (!trimmed) continue;
-              
-              try {
-                const data: WebSocketMessage = JSON.parse(trimmed);
-
-                // Handle new history from WebSocket
-                if (data.type === "history" && data.id && data.donorName && data.amount !== undefined) {
-                  console.log("📥 Received new history via WebSocket:", data);
-                  
-                  // Determine type from mediaUrl presence (gif has mediaUrl, text doesn't)
-                  const historyType: "gif" | "text" = data.mediaUrl ? "gif" : "text";
-                  
-                  const newHistory: DonationHistory = {
-                    id: data.id,
-                    type: historyType,
-                    donorName: data.donorName,
-                    amount: data.amount,
-                    message: data.message || "",
-                    mediaUrl: data.mediaUrl,
-                    mediaType: data.mediaType,
-                    startTime: data.startTime,
-                    createdAt: data.createdAt || new Date().toISOString(),
-                    payment: data.paymentMethod
-                      ? {
-                          paymentMethod: data.paymentMethod,
-                          paymentType: data.paymentType,
-                          plisioCurrency: data.plisioCurrency,
-                          plisioSourceAmount: data.plisioAmount ? parseFloat(data.plisioAmount) : undefined,
-                        }
-                      : undefined,
-                  };
-
-                  // Add new history to the beginning of the list (most recent first)
-                  setHistory((prev) => {
-                    // Check if history already exists to avoid duplicates
-                    const exists = prev.some((h) => h.id === newHistory.id);
-                    if (exists) {
-                      console.log("⚠️ History already exists, skipping:", newHistory.id);
-                      return prev;
-                    }
-                    return [newHistory, ...prev];
-                  });
-                }
-              } catch {
-                // Skip invalid JSON messages
-                console.warn("Invalid JSON message:", trimmed.substring(0, 100));
-              }
-            }
-          } catch (error) {
-            console.error("Error processing WebSocket message:", error);
-          }
-        };
-
-        ws.onerror = (error) => {
-          console.error("❌ WebSocket error:", error);
-        };
-
-        ws.onclose = (event) => {
-          console.log("🔌 WebSocket closed:", {
-            code: event.code,
-            reason: event.reason,
-            wasClean: event.wasClean,
-          });
-          
-          // Only reconnect if not manually closed
-          if (event.code !== 1000) {
-            if (!reconnectTimeoutRef.current) {
-              console.log("🔄 Scheduling WebSocket reconnection in 3 seconds...");
-              reconnectTimeoutRef.current = setTimeout(() => {
-                connectWebSocket();
-              }, 3000);
+  useDonationSocket({
+    history: (data) => {
+      // Handle new history from WebSocket (already validated at the socket boundary)
+      console.log("📥 Received new history via WebSocket:", data);
+
+      // Determine type from mediaUrl presence (gif has mediaUrl, text doesn't)
+      const historyType: "gif" | "text" = data.mediaUrl ? "gif" : "text";
+
+      const newHistory: DonationHistory = {
+        id: data.id,
+        type: historyType,
+        donorName: data.donorName,
+        amount: data.amount,
+        message: data.message || "",
+        mediaUrl: data.mediaUrl,
+        mediaType: data.mediaType,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        createdAt: data.createdAt || new Date().toISOString(),
+        payment: data.paymentMethod
+          ? {
+              paymentMethod: data.paymentMethod,
+              paymentType: data.paymentType,
+              plisioCurrency: data.plisioCurrency,
+              plisioSourceAmount: data.plisioAmount ? parseFloat(data.plisioAmount) : undefined,
             }
-          }
-        };
-
-        wsRef.current = ws;
-      } catch (error) {
-        console.error("❌ WebSocket connection failed:", error);
-        // Retry connection after 3 seconds
-        if (!reconnectTimeoutRef.current) {
-          reconnectTimeoutRef.current = setTimeout(() => {
-            console.log("🔄 Retrying WebSocket connection...");
-            connectWebSocket();
-          }, 3000);
-        }
-      }
-    };
-
-    connectWebSocket();
+          : undefined,
+      };
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-    };
-  }, []);
+      // Add new history to the beginning of the list (most recent first)
+      setHistory((prev) => {
+        // Check if history already exists to avoid duplicates
+        const exists = prev.some((h) => h.id === newHistory.id);
+        if (exists) {
+          console.log("⚠️ History already exists, skipping:", newHistory.id);
+          return prev;
+        }
+        return [newHistory, ...prev];
+      });
+    },
+  });
 
   const loadMore = () => {
     if (!loading && hasMore) {
@@ -280,39 +148,14 @@ export default function HistoryPage() {
       setClearQueueMessage(null);
       setError(null);
 
-      // Check if user is authenticated
-      if (!session?.accessToken) {
-        throw new Error("You must be logged in to clear the queue. Please login again.");
-      }
-
-      const headers: HeadersInit = {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${session.accessToken}`,
-      };
-
-      console.log("🔄 Clearing queue with token:", session.accessToken ? "Token present" : "No token");
-
-      const response = await fetch(`${apiBaseUrl}/hit/reset`, {
-        method: "POST",
-        headers,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `Failed to clear queue: ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      console.log("🔄 Clearing queue");
+      await client.queue.reset();
 
-      if (data.success) {
-        setClearQueueMessage("Queue cleared successfully");
-        // Clear message after 3 seconds
-        setTimeout(() => {
-          setClearQueueMessage(null);
-        }, 3000);
-      } else {
-        throw new Error(data.error || "Failed to clear queue");
-      }
+      setClearQueueMessage("Queue cleared successfully");
+      // Clear message after 3 seconds
+      setTimeout(() => {
+        setClearQueueMessage(null);
+      }, 3000);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Unknown error";
       setError(errorMessage);
@@ -323,6 +166,12 @@ export default function HistoryPage() {
     }
   };
 
+  const replayDonation = async (id: string) => {
+    setReplayingId(id);
+    await queueControls.replay(id);
+    setReplayingId(null);
+  };
+
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     return date.toLocaleString("id-ID", {
@@ -338,11 +187,7 @@ export default function HistoryPage() {
   const formatAmount = (donation: DonationHistory): string => {
     // If crypto payment, format as crypto currency and amount
     if (donation.payment?.paymentMethod === "crypto" && donation.payment?.plisioCurrency && donation.payment?.plisioSourceAmount !== undefined) {
-      const cryptoAmount = donation.payment.plisioSourceAmount;
-      return `${cryptoAmount.toLocaleString("id-ID", {
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 8,
-      })} ${donation.payment.plisioCurrency}`;
+      return formatCryptoAmount(donation.payment.plisioSourceAmount, donation.payment.plisioCurrency);
     }
     // Otherwise, format as IDR
     return `Rp${donation.amount.toLocaleString("id-ID")}`;
@@ -353,31 +198,7 @@ export default function HistoryPage() {
     if (timeFilter === "all") {
       return history;
     }
-
-    const now = new Date();
-    let filterDate: Date;
-
-    switch (timeFilter) {
-      case "1min":
-        filterDate = new Date(now.getTime() - 1 * 60 * 1000); // 1 minute ago
-        break;
-      case "1hour":
-        filterDate = new Date(now.getTime() - 1 * 60 * 60 * 1000); // 1 hour ago
-        break;
-      case "1day":
-        filterDate = new Date(now.getTime() - 24 * 60 * 60 * 1000); // 1 day ago
-        break;
-      case "1week":
-        filterDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000); // 1 week ago
-        break;
-      default:
-        return history;
-    }
-
-    return history.filter((donation) => {
-      const donationDate = new Date(donation.createdAt);
-      return donationDate >= filterDate;
-    });
+    return history.filter((donation) => isWithinTimeWindow(donation.createdAt, timeFilter));
   };
 
   const filteredHistory = getFilteredHistory();
@@ -420,8 +241,8 @@ export default function HistoryPage() {
     return null;
   }
 
-  // Don't render if not admin (redirect will happen)
-  if (session?.user?.role !== "admin" && session?.userType !== "admin") {
+  // Don't render if not allowed (redirect will happen)
+  if (!canAccess) {
     return null;
   }
 
@@ -462,9 +283,9 @@ export default function HistoryPage() {
               {timeFilter !== "all" && ` (filtered from ${history.length} total)`}
             </p>
           </div>
-          <div className="flex flex-row items-center gap-3">
+          <div className="flex flex-row flex-wrap items-center gap-3">
             {/* Time Filter Select - Shadcn */}
-            <Select value={timeFilter} onValueChange={setTimeFilter}>
+            <Select value={timeFilter} onValueChange={(value) => setTimeFilter(value as TimeWindow)}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Filter waktu" />
               </SelectTrigger>
@@ -476,23 +297,67 @@ export default function HistoryPage() {
                 <SelectItem value="1week">1 Week Ago</SelectItem>
               </SelectContent>
             </Select>
+
+            {canViewAnalytics && (
+              <Button asChild variant="outline">
+                <Link href="/donate/dashboard">Dashboard</Link>
+              </Button>
+            )}
+
+            {canControlQueue && (
+              <Button asChild variant="outline">
+                <Link href="/donate/remote">Remote</Link>
+              </Button>
+            )}
+
+            {canManageSubathon && (
+              <Button asChild variant="outline">
+                <Link href="/donate/subathon">Subathon</Link>
+              </Button>
+            )}
+
+            {canModerate && (
+              <Button asChild variant="outline">
+                <Link href="/donate/moderation">Moderation</Link>
+              </Button>
+            )}
             
             {/* Clear Queue Button - Shadcn Red/Destructive */}
-            <Button
-              onClick={handleClearQueueClick}
-              disabled={clearingQueue}
-              variant="destructive"
-              size="default"
-            >
-              {clearingQueue ? "Clearing..." : "Clear Queue"}
-            </Button>
+            {canClearQueue && (
+              <Button
+                onClick={handleClearQueueClick}
+                disabled={clearingQueue}
+                variant="destructive"
+                size="default"
+              >
+                {clearingQueue ? "Clearing..." : "Clear Queue"}
+              </Button>
+            )}
           </div>
         </div>
 
+        {/* Now Playing Controls */}
+        {canControlQueue && (
+          <div className="mb-6">
+            <QueueControlPanel
+              nowPlaying={queueControls.nowPlaying}
+              pendingAction={queueControls.pendingAction}
+              onSkip={queueControls.skip}
+              onPause={queueControls.pause}
+              onResume={queueControls.resume}
+            />
+          </div>
+        )}
+
         {/* Success/Error Messages */}
-        {clearQueueMessage && (
+        {(clearQueueMessage || queueControls.message) && (
           <div className="mb-4 p-3 bg-green-50 text-green-700 text-sm rounded-md border border-green-100">
-            {clearQueueMessage}
+            {clearQueueMessage || queueControls.message}
+          </div>
+        )}
+        {queueControls.error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">
+            Error: {queueControls.error}
           </div>
         )}
         {error && history.length === 0 && (
@@ -549,6 +414,13 @@ export default function HistoryPage() {
                   <h3 className="text-base font-semibold text-gray-900 mb-2 truncate">
                     {donation.donorName}
                   </h3>
+
+                  {/* Donor Email (only sent by the backend to admins) */}
+                  {canSeeDonorEmail && donation.donorEmail && (
+                    <p className="text-xs text-gray-500 -mt-1 mb-2 truncate" title={donation.donorEmail}>
+                      {donation.donorEmail}
+                    </p>
+                  )}
                   
                   {/* Amount */}
                   <p className="text-lg font-bold text-gray-900 mb-3">
@@ -565,6 +437,11 @@ export default function HistoryPage() {
                   {/* Media URL (for GIF) */}
                   {donation.type === "gif" && donation.mediaUrl && (
                     <div className="mt-3 pt-3 border-t border-gray-100">
+                      <p className="text-xs text-gray-500 mb-1">
+                        {resolveMedia(donation.mediaUrl, donation.mediaType)?.provider.label ?? (
+                          <span className="text-red-600">Tidak bisa diputar di overlay</span>
+                        )}
+                      </p>
                       <a
                         href={donation.mediaUrl}
                         target="_blank"
@@ -579,11 +456,21 @@ export default function HistoryPage() {
                     </div>
                   )}
 
-                  {/* Date */}
-                  <div className="mt-3 pt-3 border-t border-gray-100">
+                  {/* Date + Replay */}
+                  <div className="mt-3 pt-3 border-t border-gray-100 flex items-center justify-between gap-2">
                     <p className="text-xs text-gray-500">
                       {formatDate(donation.createdAt)}
                     </p>
+                    {canControlQueue && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => replayDonation(donation.id)}
+                        disabled={replayingId !== null}
+                      >
+                        {replayingId === donation.id ? "Replaying..." : "Replay"}
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
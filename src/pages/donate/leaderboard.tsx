@@ -0,0 +1,94 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { SocketDebugPanel } from "@/components/ui/SocketDebugPanel";
+import { useLeaderboard } from "@/hooks/use-leaderboard";
+import { useOverlayConfig } from "@/hooks/use-overlay-config";
+import {
+  OVERLAY_ANCHOR_CLASSES,
+  OVERLAY_FONT_CLASSES,
+  getOverlayThemeClasses,
+} from "@/lib/overlay-config";
+import { LEADERBOARD_WINDOW_LABELS, type LeaderboardEntry } from "@/lib/leaderboard";
+import { formatIdr } from "@/lib/currency";
+
+// Sample ranking shown in preview mode
+const PREVIEW_ENTRIES: LeaderboardEntry[] = [
+  { key: "preview-1", donorName: "Budi", total: 250000, count: 5, lastDonatedAt: "" },
+  { key: "preview-2", donorName: "Sari", total: 150000, count: 2, lastDonatedAt: "" },
+  { key: "preview-3", donorName: "Andi", total: 75000, count: 3, lastDonatedAt: "" },
+  { key: "preview-4", donorName: "Rina", total: 50000, count: 1, lastDonatedAt: "" },
+  { key: "preview-5", donorName: "Dewi", total: 20000, count: 1, lastDonatedAt: "" },
+];
+
+export default function LeaderboardOverlayPage() {
+  const config = useOverlayConfig("leaderboard");
+  const theme = getOverlayThemeClasses(config.theme);
+  const [rotationIndex, setRotationIndex] = useState<number>(0);
+
+  const { entries: liveEntries } = useLeaderboard(config.leaderboardWindow, {
+    limit: config.leaderboardSize,
+    enabled: !config.preview,
+  });
+  const entries = config.preview ? PREVIEW_ENTRIES.slice(0, config.leaderboardSize) : liveEntries;
+
+  // Rotate through the top donors one at a time
+  useEffect(() => {
+    if (config.leaderboardRotate <= 0) return;
+
+    const interval = setInterval(() => {
+      setRotationIndex((prev) => prev + 1);
+    }, config.leaderboardRotate * 1000);
+    return () => clearInterval(interval);
+  }, [config.leaderboardRotate]);
+
+  // Completely hidden until someone donates in this window
+  if (entries.length === 0) {
+    return <SocketDebugPanel />;
+  }
+
+  const rotating = config.leaderboardRotate > 0;
+  const visibleIndex = rotationIndex % entries.length;
+  const visibleEntries = rotating ? [entries[visibleIndex]] : entries;
+
+  return (
+    <div className={`flex min-h-screen flex-col ${theme.page} ${OVERLAY_FONT_CLASSES[config.fontFamily]}`}>
+      <main className={`flex-1 flex flex-col items-center ${OVERLAY_ANCHOR_CLASSES[config.anchor]} px-4 py-8`}>
+        <div className={`w-full max-w-xl ${theme.card} rounded-xl px-6 py-4`} style={{ zoom: config.fontScale }}>
+          <div className="flex items-baseline justify-between gap-4 mb-3">
+            <h1 className={`text-2xl font-bold ${theme.text}`}>Top Donors</h1>
+            <span className="text-sm font-semibold uppercase tracking-wide" style={{ color: config.accentColor }}>
+              {LEADERBOARD_WINDOW_LABELS[config.leaderboardWindow]}
+            </span>
+          </div>
+
+          <ol className="space-y-2">
+            {visibleEntries.map((entry) => {
+              const rank = entries.indexOf(entry) + 1;
+              return (
+                <li
+                  key={`${entry.key}-${rotating ? rotationIndex : 0}`}
+                  className={`flex items-center gap-3 ${rotating ? "animate-in fade-in slide-in-from-bottom-2 duration-500" : ""}`}
+                >
+                  <span
+                    className="w-8 text-xl font-bold text-right"
+                    style={{ color: rank === 1 ? config.accentColor : undefined }}
+                  >
+                    #{rank}
+                  </span>
+                  <span className={`flex-1 text-xl font-semibold truncate ${theme.text}`}>
+                    {entry.donorName}
+                  </span>
+                  <span className={`text-lg font-semibold whitespace-nowrap ${theme.muted}`}>
+                    {formatIdr(entry.total)}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      </main>
+      <SocketDebugPanel />
+    </div>
+  );
+}
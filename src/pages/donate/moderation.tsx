@@ -0,0 +1,468 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useApi } from "@/components/contex/ApiProvider";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import { usePermission } from "@/hooks/use-permission";
+import { formatClipTime } from "@/lib/clip-time";
+import { formatCryptoAmount } from "@/lib/currency";
+import { resolveMedia } from "@/lib/media-providers";
+import type { ModerationItem, ModerationStatus } from "@/types/moderation";
+
+// Embedded media for review. Always muted; `playing` starts autoplay.
+function MediaPreview({ item, playing }: { item: ModerationItem; playing: boolean }) {
+  const media = resolveMedia(item.mediaUrl, item.mediaType);
+
+  if (!media) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-sm text-gray-400">
+        Link tidak bisa diputar di overlay
+      </div>
+    );
+  }
+
+  const { provider, id } = media;
+
+  if (provider.player === "video") {
+    return (
+      <video
+        key={`${item.id}-${playing}`}
+        src={media.url}
+        muted
+        controls
+        autoPlay={playing}
+        playsInline
+        className="w-full h-full object-contain bg-black"
+      />
+    );
+  }
+
+  if (provider.player === "image") {
+    return (
+      <Image
+        src={media.url}
+        alt={`Media dari ${item.donorName}`}
+        fill
+        className="object-contain"
+        unoptimized
+      />
+    );
+  }
+
+  return (
+    <iframe
+      key={`${item.id}-${playing}`}
+      src={provider.embedUrl(id, {
+        autoplay: playing,
+        muted: true,
+        startTime: item.startTime,
+        endTime: item.endTime,
+        parent: window.location.hostname,
+      })}
+      className="w-full h-full"
+      allow="autoplay; encrypted-media; picture-in-picture"
+      style={{ border: "none" }}
+      scrolling="no"
+    />
+  );
+}
+
+export default function ModerationPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const canAccess = usePermission("moderation:review");
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ModerationStatus>("PENDING");
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [holdEnabled, setHoldEnabled] = useState<boolean | null>(null);
+  const [savingSettings, setSavingSettings] = useState<boolean>(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [rejectTarget, setRejectTarget] = useState<ModerationItem | null>(null);
+  const [rejectReason, setRejectReason] = useState<string>("");
+
+  const { client, accessToken } = useApi();
+
+  // Check session and redirect if not authenticated
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/login?callbackUrl=" + encodeURIComponent("/donate/moderation"));
+    } else if (status === "authenticated") {
+      // Check the user's role grants this page
+      if (!canAccess) {
+        router.push("/");
+      }
+    }
+  }, [status, canAccess, router]);
+
+  const fetchItems = useCallback(async () => {
+    if (!accessToken) return;
+    try {
+      setLoading(true);
+      setError(null);
+
+      setItems(await client.moderation.list(statusFilter));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      console.error("Error fetching moderation queue:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, accessToken, statusFilter]);
+
+  const fetchSettings = useCallback(async () => {
+    if (!accessToken) return;
+    try {
+      const settings = await client.moderation.getSettings();
+      setHoldEnabled(settings.enabled);
+    } catch (err) {
+      console.error("Error fetching moderation settings:", err);
+    }
+  }, [client, accessToken]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  // Realtime: new held media and decisions made by other moderators
+  useDonationSocket(
+    {
+      moderation: (data) => {
+        console.log("📥 Received moderation update via WebSocket:", { id: data.id, status: data.status });
+        setItems((prev) => {
+          const withoutItem = prev.filter((item) => item.id !== data.id);
+          if (data.status !== statusFilter) return withoutItem;
+
+          const updated: ModerationItem = {
+            id: data.id,
+            status: data.status,
+            donorName: data.donorName,
+            amount: data.amount,
+            message: data.message,
+            mediaUrl: data.mediaUrl,
+            mediaType: data.mediaType,
+            startTime: data.startTime,
+            endTime: data.endTime,
+            reason: data.reason,
+            createdAt: data.createdAt || new Date().toISOString(),
+            payment: data.paymentMethod
+              ? {
+                  paymentMethod: data.paymentMethod,
+                  plisioCurrency: data.plisioCurrency,
+                  plisioSourceAmount: data.plisioAmount ? parseFloat(data.plisioAmount) : undefined,
+                }
+              : undefined,
+          };
+          // Pending queue is reviewed oldest first, decisions newest first
+          return statusFilter === "PENDING" ? [...withoutItem, updated] : [updated, ...withoutItem];
+        });
+      },
+    },
+    { enabled: !!accessToken }
+  );
+
+  const showActionMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  const toggleHold = async (enabled: boolean) => {
+    try {
+      setSavingSettings(true);
+      setError(null);
+      await client.moderation.updateSettings({ enabled });
+      setHoldEnabled(enabled);
+      showActionMessage(enabled ? "Mode review aktif: media menunggu persetujuan" : "Mode review nonaktif");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      console.error("Error updating moderation settings:", err);
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const approve = async (item: ModerationItem) => {
+    try {
+      setProcessingId(item.id);
+      setError(null);
+      await client.moderation.approve(item.id);
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      if (playingId === item.id) setPlayingId(null);
+      showActionMessage(`Media dari ${item.donorName} disetujui dan dikirim ke overlay`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      console.error("Error approving media:", err);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const confirmReject = async () => {
+    if (!rejectTarget) return;
+    const item = rejectTarget;
+    try {
+      setProcessingId(item.id);
+      setError(null);
+      await client.moderation.reject(item.id, rejectReason.trim());
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      if (playingId === item.id) setPlayingId(null);
+      showActionMessage(`Media dari ${item.donorName} ditolak`);
+      setRejectTarget(null);
+      setRejectReason("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      console.error("Error rejecting media:", err);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleString("id-ID", {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  const formatAmount = (item: ModerationItem): string => {
+    if (item.payment?.paymentMethod === "crypto" && item.payment?.plisioCurrency && item.payment?.plisioSourceAmount !== undefined) {
+      return formatCryptoAmount(item.payment.plisioSourceAmount, item.payment.plisioCurrency);
+    }
+    return `Rp${item.amount.toLocaleString("id-ID")}`;
+  };
+
+  // Show loading while checking session
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-white p-8">
+        <div className="max-w-7xl mx-auto">
+          <h1 className="text-3xl font-bold text-black mb-8">Moderation</h1>
+          <div className="flex justify-center items-center h-64">
+            <div className="text-gray-600 text-lg">Checking authentication...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Don't render if not authenticated or not allowed (redirect will happen)
+  if (status === "unauthenticated" || !session) {
+    return null;
+  }
+  if (!canAccess) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-8 gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900 tracking-tight">Moderation</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {items.length} {items.length === 1 ? "item" : "items"} ·{" "}
+              <Link href="/donate/history" className="text-blue-600 hover:underline">
+                Donation History
+              </Link>
+            </p>
+          </div>
+          <div className="flex flex-row items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="holdForReview"
+                checked={holdEnabled === true}
+                disabled={holdEnabled === null || savingSettings}
+                onCheckedChange={toggleHold}
+              />
+              <Label htmlFor="holdForReview">Hold for review</Label>
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ModerationStatus)}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="PENDING">Pending</SelectItem>
+                <SelectItem value="APPROVED">Approved</SelectItem>
+                <SelectItem value="REJECTED">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Success/Error Messages */}
+        {actionMessage && (
+          <div className="mb-4 p-3 bg-green-50 text-green-700 text-sm rounded-md border border-green-100">
+            {actionMessage}
+          </div>
+        )}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">
+            Error: {error}
+          </div>
+        )}
+
+        {loading && items.length === 0 ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="text-gray-600 text-lg">Loading...</div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex justify-center items-center h-64">
+            <p className="text-gray-400 text-sm">
+              {statusFilter === "PENDING" ? "Tidak ada media yang menunggu review" : "Belum ada data"}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {items.map((item) => (
+              <div
+                key={item.id}
+                className="bg-white border border-gray-200 rounded-lg overflow-hidden hover:border-gray-300 hover:shadow-sm transition-all duration-200"
+              >
+                {/* Preview */}
+                <div className="relative w-full aspect-video bg-black">
+                  <MediaPreview item={item} playing={playingId === item.id} />
+                </div>
+
+                <div className="p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-base font-semibold text-gray-900 truncate">{item.donorName}</h3>
+                    <span className="text-sm font-bold text-gray-900">{formatAmount(item)}</span>
+                  </div>
+
+                  {item.message && item.message.trim().length > 0 && (
+                    <p className="text-sm text-gray-600 mb-2">{item.message}</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 mb-2">
+                    <span>
+                      Mulai: {formatClipTime(item.startTime || 0)}
+                      {item.endTime ? ` - ${formatClipTime(item.endTime)}` : ""}
+                    </span>
+                    <span>{formatDate(item.createdAt)}</span>
+                  </div>
+                  <a
+                    href={item.mediaUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 hover:text-blue-700 hover:underline truncate block mb-3"
+                    title={item.mediaUrl}
+                  >
+                    {item.mediaUrl}
+                  </a>
+
+                  {item.status === "REJECTED" && item.reason && (
+                    <p className="text-xs text-red-600 mb-3">Alasan: {item.reason}</p>
+                  )}
+
+                  {item.status === "PENDING" && (
+                    <div className="flex gap-2 pt-3 border-t border-gray-100">
+                      <Button
+                        size="sm"
+                        onClick={() => approve(item)}
+                        disabled={processingId === item.id}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => setRejectTarget(item)}
+                        disabled={processingId === item.id}
+                      >
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPlayingId(playingId === item.id ? null : item.id)}
+                      >
+                        {playingId === item.id ? "Stop" : "Play muted"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Reject Dialog */}
+      <Dialog
+        open={rejectTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectTarget(null);
+            setRejectReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tolak media?</DialogTitle>
+            <DialogDescription>
+              Media dari {rejectTarget?.donorName} tidak akan diputar di overlay. Alasan akan dicatat.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            rows={3}
+            maxLength={200}
+            placeholder="Alasan penolakan (wajib)"
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setRejectTarget(null);
+                setRejectReason("");
+              }}
+            >
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={confirmReject}
+              disabled={!rejectReason.trim() || processingId === rejectTarget?.id}
+            >
+              {processingId === rejectTarget?.id ? "Processing..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useApi } from "@/components/contex/ApiProvider";
+import { Button } from "@/components/ui/button";
+import { QueueControlPanel } from "@/components/ui/QueueControlPanel";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import { usePermission } from "@/hooks/use-permission";
+import { useQueueControls } from "@/hooks/use-queue-controls";
+import { formatDonationAmount } from "@/lib/currency";
+import type { DonationHistory } from "@/types/donation";
+
+const RECENT_LIMIT = 10;
+
+// Compact phone remote for use while streaming: now playing, skip,
+// pause/resume and replay of the latest donations.
+export default function RemotePage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const canAccess = usePermission("queue:control");
+  const [recent, setRecent] = useState<DonationHistory[]>([]);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const queueControls = useQueueControls();
+
+  const { client } = useApi();
+
+  // Check session and redirect if not authenticated
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/login?callbackUrl=" + encodeURIComponent("/donate/remote"));
+    } else if (status === "authenticated") {
+      // Check the user's role grants this page
+      if (!canAccess) {
+        router.push("/");
+      }
+    }
+  }, [status, canAccess, router]);
+
+  useEffect(() => {
+    let cancelled = false;
+    client.history
+      .list({ limit: RECENT_LIMIT, offset: 0 })
+      .then((data) => {
+        if (!cancelled) setRecent(data.data);
+      })
+      .catch((err) => console.error("Error fetching recent donations:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  useDonationSocket({
+    history: (data) => {
+      setRecent((prev) => {
+        if (prev.some((donation) => donation.id === data.id)) return prev;
+        const newDonation: DonationHistory = {
+          id: data.id,
+          type: data.mediaUrl ? "gif" : "text",
+          donorName: data.donorName,
+          amount: data.amount,
+          message: data.message,
+          mediaUrl: data.mediaUrl,
+          createdAt: data.createdAt || new Date().toISOString(),
+          payment: data.paymentMethod
+            ? {
+                paymentMethod: data.paymentMethod,
+                paymentType: data.paymentType,
+                plisioCurrency: data.plisioCurrency,
+                plisioSourceAmount: data.plisioAmount ? parseFloat(data.plisioAmount) : undefined,
+              }
+            : undefined,
+        };
+        return [newDonation, ...prev].slice(0, RECENT_LIMIT);
+      });
+    },
+  });
+
+  const replayDonation = async (id: string) => {
+    setReplayingId(id);
+    await queueControls.replay(id);
+    setReplayingId(null);
+  };
+
+  // Show loading while checking session
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-white p-4">
+        <div className="flex justify-center items-center h-64">
+          <div className="text-gray-600 text-lg">Checking authentication...</div>
+        </div>
+      </div>
+    );
+  }
+
+  // Don't render if not authenticated or not allowed (redirect will happen)
+  if (status === "unauthenticated" || !session) {
+    return null;
+  }
+  if (!canAccess) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-xl font-semibold text-gray-900 tracking-tight">Remote</h1>
+
+        <QueueControlPanel
+          nowPlaying={queueControls.nowPlaying}
+          pendingAction={queueControls.pendingAction}
+          onSkip={queueControls.skip}
+          onPause={queueControls.pause}
+          onResume={queueControls.resume}
+          size="lg"
+        />
+
+        {queueControls.message && (
+          <div className="p-3 bg-green-50 text-green-700 text-sm rounded-md border border-green-100">
+            {queueControls.message}
+          </div>
+        )}
+        {queueControls.error && (
+          <div className="p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">
+            Error: {queueControls.error}
+          </div>
+        )}
+
+        <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+          <p className="px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wide">
+            Donasi terakhir
+          </p>
+          {recent.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-400">Belum ada donasi</p>
+          ) : (
+            recent.map((donation) => (
+              <div key={donation.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 truncate">
+                    {donation.donorName} ·{" "}
+                    {formatDonationAmount(donation.amount, donation.payment?.paymentMethod, {
+                      amount: donation.payment?.plisioSourceAmount,
+                      currency: donation.payment?.plisioCurrency,
+                    })}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {donation.mediaUrl ? "Media" : "Text"}
+                    {donation.message ? ` · ${donation.message}` : ""}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-10 shrink-0"
+                  onClick={() => replayDonation(donation.id)}
+                  disabled={replayingId !== null}
+                >
+                  {replayingId === donation.id ? "..." : "Replay"}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,790 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  OVERLAY_DEFAULTS,
+  OVERLAY_PREVIEW_DONATION,
+  buildOverlayUrl,
+  type OverlayConfig,
+  type OverlayKind,
+} from "@/lib/overlay-config";
+import { usePermission } from "@/hooks/use-permission";
+import { buildDonationSpeech, getSpeechVoices, speak } from "@/lib/tts";
+import { createDonationGoal, donationGoalSchema, encodeDonationGoals } from "@/lib/donation-goals";
+import { LEADERBOARD_WINDOWS, LEADERBOARD_WINDOW_LABELS, type LeaderboardWindow } from "@/lib/leaderboard";
+import {
+  ALERT_ANIMATIONS,
+  ALERT_ANIMATION_LABELS,
+  alertTierSchema,
+  createAlertTier,
+  encodeAlertTiers,
+  type AlertAnimation,
+  type AlertTier,
+} from "@/lib/alert-tiers";
+import { formatIdr } from "@/lib/currency";
+import type { DonationGoal } from "@/types/donation";
+
+const TTS_LANGUAGES = [
+  { value: "id-ID", label: "Bahasa Indonesia" },
+  { value: "en-US", label: "English (US)" },
+  { value: "en-GB", label: "English (UK)" },
+  { value: "ms-MY", label: "Bahasa Melayu" },
+  { value: "jv-ID", label: "Basa Jawa" },
+];
+
+// Radix Select doesn't allow an empty item value
+const AUTO_VOICE = "__auto__";
+
+const OVERLAY_LABELS: Record<OverlayKind, string> = {
+  gif: "Media Share (/donate/gif)",
+  text: "Text Alert (/donate/text)",
+  time: "Countdown (/donate/time)",
+  goal: "Donation Goal (/donate/goal)",
+  leaderboard: "Leaderboard (/donate/leaderboard)",
+};
+
+export default function OverlaySettingsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const canAccess = usePermission("settings:edit");
+  const [kind, setKind] = useState<OverlayKind>("gif");
+  const [configs, setConfigs] = useState<Record<OverlayKind, OverlayConfig>>(OVERLAY_DEFAULTS);
+  const [copied, setCopied] = useState<boolean>(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  // Goals being edited; only valid ones are written into the overlay URL
+  const [goals, setGoals] = useState<DonationGoal[]>([]);
+  // Alert tiers being edited per overlay, same rule as goals
+  const [tierDrafts, setTierDrafts] = useState<Partial<Record<OverlayKind, AlertTier[]>>>({});
+
+  const config = configs[kind];
+  const tiers = tierDrafts[kind] ?? [];
+  const overlayPath = buildOverlayUrl("", kind, config);
+  const previewPath = buildOverlayUrl("", kind, { ...config, preview: true });
+
+  // Check session and redirect if not authenticated
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/login?callbackUrl=" + encodeURIComponent("/donate/settings"));
+    } else if (status === "authenticated") {
+      // Check the user's role grants this page
+      if (!canAccess) {
+        router.push("/");
+      }
+    }
+  }, [status, canAccess, router]);
+
+  // Load installed voices for the TTS voice picker
+  useEffect(() => {
+    let cancelled = false;
+    getSpeechVoices().then((available) => {
+      if (!cancelled) setVoices(available);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const languageVoices = voices.filter((voice) =>
+    voice.lang.replace("_", "-").toLowerCase().startsWith(config.ttsLang.split("-")[0].toLowerCase())
+  );
+
+  const testSpeech = () => {
+    speak(buildDonationSpeech(OVERLAY_PREVIEW_DONATION, config.ttsLang), {
+      lang: config.ttsLang,
+      voiceName: config.ttsVoice,
+      rate: config.ttsRate,
+      pitch: config.ttsPitch,
+      volume: config.volume,
+    });
+  };
+
+  const updateConfig = <K extends keyof OverlayConfig>(key: K, value: OverlayConfig[K]) => {
+    setConfigs((prev) => ({ ...prev, [kind]: { ...prev[kind], [key]: value } }));
+  };
+
+  // Helper function to update numeric fields, ignoring half-typed input
+  const updateNumber = (
+    key: "fontScale" | "volume" | "minAmount" | "messageLength" | "ttsRate" | "ttsPitch" | "ttsMinAmount" | "leaderboardSize" | "leaderboardRotate",
+    raw: string
+  ) => {
+    const value = Number(raw);
+    if (raw.trim() === "" || isNaN(value)) return;
+    updateConfig(key, value);
+  };
+
+  const updateGoals = (next: DonationGoal[]) => {
+    setGoals(next);
+    updateConfig(
+      "goals",
+      encodeDonationGoals(next.filter((goal) => donationGoalSchema.safeParse(goal).success))
+    );
+  };
+
+  const updateGoal = (id: string, changes: Partial<DonationGoal>) => {
+    updateGoals(goals.map((goal) => (goal.id === id ? { ...goal, ...changes } : goal)));
+  };
+
+  const updateTiers = (next: AlertTier[]) => {
+    setTierDrafts((prev) => ({ ...prev, [kind]: next }));
+    updateConfig(
+      "tiers",
+      encodeAlertTiers(next.filter((tier) => alertTierSchema.safeParse(tier).success))
+    );
+  };
+
+  const updateTier = (id: string, changes: Partial<AlertTier>) => {
+    updateTiers(tiers.map((tier) => (tier.id === id ? { ...tier, ...changes } : tier)));
+  };
+
+  const addTier = () => {
+    // Suggest the next step up: 10rb, 50rb, 100rb, 1jt, ...
+    const highest = tiers.reduce((max, tier) => Math.max(max, tier.minAmount), 0);
+    const minAmount = highest === 0 ? 10000 : highest < 50000 ? 50000 : highest < 100000 ? 100000 : highest * 10;
+    updateTiers([...tiers, createAlertTier(minAmount)]);
+  };
+
+  const copyOverlayUrl = async () => {
+    const url = buildOverlayUrl(window.location.origin, kind, config);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  // Show loading while checking session
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-white p-8">
+        <div className="max-w-7xl mx-auto">
+          <h1 className="text-3xl font-bold text-black mb-8">Overlay Settings</h1>
+          <div className="flex justify-center items-center h-64">
+            <div className="text-gray-600 text-lg">Checking authentication...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Don't render if not authenticated or not allowed (redirect will happen)
+  if (status === "unauthenticated" || !session) {
+    return null;
+  }
+  if (!canAccess) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-8 gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900 tracking-tight">Overlay Settings</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Atur tampilan overlay lalu salin URL-nya ke browser source OBS
+            </p>
+          </div>
+          <Select value={kind} onValueChange={(value) => setKind(value as OverlayKind)}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue placeholder="Pilih overlay" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OVERLAY_LABELS) as OverlayKind[]).map((overlay) => (
+                <SelectItem key={overlay} value={overlay}>
+                  {OVERLAY_LABELS[overlay]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Settings Form */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Tampilan</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Theme</Label>
+                  <Select
+                    value={config.theme}
+                    onValueChange={(value) => updateConfig("theme", value as OverlayConfig["theme"])}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="dark">Dark</SelectItem>
+                      <SelectItem value="light">Light</SelectItem>
+                      <SelectItem value="transparent">Transparent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="accentColor">Warna Aksen</Label>
+                  <Input
+                    id="accentColor"
+                    type="color"
+                    value={config.accentColor}
+                    onChange={(e) => updateConfig("accentColor", e.target.value.toUpperCase())}
+                    className="h-9 p-1"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Font</Label>
+                  <Select
+                    value={config.fontFamily}
+                    onValueChange={(value) => updateConfig("fontFamily", value as OverlayConfig["fontFamily"])}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="sans">Sans</SelectItem>
+                      <SelectItem value="serif">Serif</SelectItem>
+                      <SelectItem value="mono">Mono</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Posisi</Label>
+                  <Select
+                    value={config.anchor}
+                    onValueChange={(value) => updateConfig("anchor", value as OverlayConfig["anchor"])}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="top">Atas</SelectItem>
+                      {kind !== "gif" && <SelectItem value="center">Tengah</SelectItem>}
+                      <SelectItem value="bottom">Bawah</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fontScale">Skala Font ({config.fontScale.toFixed(1)}x)</Label>
+                  <input
+                    id="fontScale"
+                    type="range"
+                    min={0.5}
+                    max={3}
+                    step={0.1}
+                    value={config.fontScale}
+                    onChange={(e) => updateNumber("fontScale", e.target.value)}
+                    className="w-full"
+                  />
+                </div>
+                {kind !== "goal" && kind !== "leaderboard" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="minAmount">Minimal Donasi (Rp)</Label>
+                    <Input
+                      id="minAmount"
+                      type="number"
+                      min={0}
+                      step={1000}
+                      value={config.minAmount}
+                      onChange={(e) => updateNumber("minAmount", e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {(kind === "gif" || kind === "text") && (
+                <div className="space-y-2">
+                  <Label htmlFor="messageLength">Panjang Pesan Maksimal</Label>
+                  <Input
+                    id="messageLength"
+                    type="number"
+                    min={0}
+                    max={1000}
+                    value={config.messageLength}
+                    onChange={(e) => updateNumber("messageLength", e.target.value)}
+                  />
+                </div>
+              )}
+
+              {(kind === "text" || kind === "goal") && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="soundUrl">URL Suara (kosongkan untuk tanpa suara)</Label>
+                    <Input
+                      id="soundUrl"
+                      value={config.soundUrl}
+                      onChange={(e) => updateConfig("soundUrl", e.target.value)}
+                      placeholder="/bgm.mp3"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="volume">Volume ({Math.round(config.volume * 100)}%)</Label>
+                    <input
+                      id="volume"
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={config.volume}
+                      onChange={(e) => updateNumber("volume", e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
+                </>
+              )}
+
+              {(kind === "gif" || kind === "text") && (
+                <div className="space-y-4 pt-4 border-t border-gray-100">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="wordFilter">Sensor kata kasar &amp; link</Label>
+                    <Switch
+                      id="wordFilter"
+                      checked={config.wordFilter}
+                      onCheckedChange={(checked) => updateConfig("wordFilter", checked)}
+                    />
+                  </div>
+                  {config.wordFilter && (
+                    <div className="space-y-2">
+                      <Label htmlFor="blockedWords">Kata tambahan (pisahkan dengan koma)</Label>
+                      <Input
+                        id="blockedWords"
+                        value={config.blockedWords}
+                        onChange={(e) => updateConfig("blockedWords", e.target.value)}
+                        placeholder="kata1, kata2"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {kind === "text" && (
+                <div className="space-y-4 pt-4 border-t border-gray-100">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="tts">Bacakan donasi (Text-to-Speech)</Label>
+                    <Switch
+                      id="tts"
+                      checked={config.tts}
+                      onCheckedChange={(checked) => updateConfig("tts", checked)}
+                    />
+                  </div>
+
+                  {config.tts && (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Bahasa</Label>
+                          <Select
+                            value={config.ttsLang}
+                            onValueChange={(value) => {
+                              updateConfig("ttsLang", value);
+                              updateConfig("ttsVoice", "");
+                            }}
+                          >
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {TTS_LANGUAGES.map((language) => (
+                                <SelectItem key={language.value} value={language.value}>
+                                  {language.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Suara</Label>
+                          <Select
+                            value={config.ttsVoice || AUTO_VOICE}
+                            onValueChange={(value) => updateConfig("ttsVoice", value === AUTO_VOICE ? "" : value)}
+                          >
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={AUTO_VOICE}>Otomatis</SelectItem>
+                              {languageVoices.map((voice) => (
+                                <SelectItem key={voice.name} value={voice.name}>
+                                  {voice.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="ttsRate">Kecepatan ({config.ttsRate.toFixed(1)}x)</Label>
+                          <input
+                            id="ttsRate"
+                            type="range"
+                            min={0.5}
+                            max={2}
+                            step={0.1}
+                            value={config.ttsRate}
+                            onChange={(e) => updateNumber("ttsRate", e.target.value)}
+                            className="w-full"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="ttsPitch">Nada ({config.ttsPitch.toFixed(1)})</Label>
+                          <input
+                            id="ttsPitch"
+                            type="range"
+                            min={0}
+                            max={2}
+                            step={0.1}
+                            value={config.ttsPitch}
+                            onChange={(e) => updateNumber("ttsPitch", e.target.value)}
+                            className="w-full"
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="ttsMinAmount">Minimal Donasi untuk Dibacakan (Rp)</Label>
+                        <Input
+                          id="ttsMinAmount"
+                          type="number"
+                          min={0}
+                          step={1000}
+                          value={config.ttsMinAmount}
+                          onChange={(e) => updateNumber("ttsMinAmount", e.target.value)}
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Daftar suara berasal dari browser ini; pastikan suara yang sama terpasang di komputer OBS.
+                      </p>
+                      <Button variant="outline" onClick={testSpeech}>
+                        Tes Suara
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {kind === "gif" && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="queueBadge">Tampilkan jumlah antrean</Label>
+                  <Switch
+                    id="queueBadge"
+                    checked={config.queueBadge}
+                    onCheckedChange={(checked) => updateConfig("queueBadge", checked)}
+                  />
+                </div>
+              )}
+
+              {kind === "time" && (
+                <div className="space-y-2 pt-4 border-t border-gray-100">
+                  <Label>Mode Timer</Label>
+                  <Select
+                    value={config.timerMode}
+                    onValueChange={(value) => updateConfig("timerMode", value as OverlayConfig["timerMode"])}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="countdown">Countdown ke target waktu</SelectItem>
+                      <SelectItem value="subathon">Subathon (donasi menambah waktu)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {config.timerMode === "subathon" && (
+                    <p className="text-xs text-gray-500">
+                      Atur tarif, batas waktu, dan jeda dari halaman{" "}
+                      <Link href="/donate/subathon" className="text-blue-600 hover:underline">
+                        Subathon
+                      </Link>
+                      .
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {kind === "leaderboard" && (
+                <div className="grid grid-cols-3 gap-4 pt-4 border-t border-gray-100">
+                  <div className="space-y-2">
+                    <Label>Periode</Label>
+                    <Select
+                      value={config.leaderboardWindow}
+                      onValueChange={(value) => updateConfig("leaderboardWindow", value as LeaderboardWindow)}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LEADERBOARD_WINDOWS.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {LEADERBOARD_WINDOW_LABELS[option]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="leaderboardSize">Jumlah Donatur</Label>
+                    <Input
+                      id="leaderboardSize"
+                      type="number"
+                      min={1}
+                      max={20}
+                      value={config.leaderboardSize}
+                      onChange={(e) => updateNumber("leaderboardSize", e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="leaderboardRotate">Rotasi (detik, 0 = semua)</Label>
+                    <Input
+                      id="leaderboardRotate"
+                      type="number"
+                      min={0}
+                      max={60}
+                      value={config.leaderboardRotate}
+                      onChange={(e) => updateNumber("leaderboardRotate", e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {(kind === "gif" || kind === "text") && (
+                <div className="space-y-4 pt-4 border-t border-gray-100">
+                  <div>
+                    <Label>Tier Alert</Label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Donasi memakai tier dengan minimal tertinggi yang tercapai. Donasi crypto dihitung dari nilai USD-nya.
+                    </p>
+                  </div>
+                  {tiers.map((tier) => (
+                    <div key={tier.id} className="space-y-3 p-3 border border-gray-200 rounded-md">
+                      <div className="grid grid-cols-3 gap-3">
+                        <div className="space-y-2">
+                          <Label htmlFor={`${tier.id}-min`}>Minimal (Rp)</Label>
+                          <Input
+                            id={`${tier.id}-min`}
+                            type="number"
+                            min={0}
+                            step={1000}
+                            value={tier.minAmount}
+                            onChange={(e) => updateTier(tier.id, { minAmount: Math.floor(Number(e.target.value) || 0) })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Animasi</Label>
+                          <Select
+                            value={tier.animation}
+                            onValueChange={(value) => updateTier(tier.id, { animation: value as AlertAnimation })}
+                          >
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ALERT_ANIMATIONS.map((animation) => (
+                                <SelectItem key={animation} value={animation}>
+                                  {ALERT_ANIMATION_LABELS[animation]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`${tier.id}-color`}>Warna</Label>
+                          <Input
+                            id={`${tier.id}-color`}
+                            type="color"
+                            value={tier.color}
+                            onChange={(e) => updateTier(tier.id, { color: e.target.value.toUpperCase() })}
+                            className="h-9 p-1"
+                          />
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-3 gap-3">
+                        <div className="space-y-2">
+                          <Label htmlFor={`${tier.id}-sound`}>URL Suara</Label>
+                          <Input
+                            id={`${tier.id}-sound`}
+                            value={tier.soundUrl}
+                            onChange={(e) => updateTier(tier.id, { soundUrl: e.target.value })}
+                            placeholder={kind === "text" ? "Suara overlay" : "Tanpa suara"}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`${tier.id}-image`}>URL GIF/Gambar</Label>
+                          <Input
+                            id={`${tier.id}-image`}
+                            value={tier.imageUrl}
+                            onChange={(e) => updateTier(tier.id, { imageUrl: e.target.value })}
+                            placeholder="Opsional"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`${tier.id}-duration`}>Durasi (detik, 0 = default)</Label>
+                          <Input
+                            id={`${tier.id}-duration`}
+                            type="number"
+                            min={0}
+                            max={600}
+                            value={tier.duration}
+                            onChange={(e) => updateTier(tier.id, { duration: Math.floor(Number(e.target.value) || 0) })}
+                          />
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium" style={{ color: tier.color }}>
+                          Mulai {formatIdr(tier.minAmount)}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => updateTiers(tiers.filter((item) => item.id !== tier.id))}
+                        >
+                          Hapus
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {kind === "gif" && tiers.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Durasi tier hanya dipakai jika backend tidak mengirim durasi donasi.
+                    </p>
+                  )}
+                  <Button variant="outline" onClick={addTier} disabled={tiers.length >= 6}>
+                    Tambah Tier
+                  </Button>
+                </div>
+              )}
+
+              {kind === "goal" && (
+                <div className="space-y-4 pt-4 border-t border-gray-100">
+                  <Label>Goal</Label>
+                  {goals.length === 0 && (
+                    <p className="text-sm text-gray-500">Belum ada goal. Tambahkan minimal satu goal.</p>
+                  )}
+                  {goals.map((goal) => (
+                    <div key={goal.id} className="space-y-3 p-3 border border-gray-200 rounded-md">
+                      <div className="space-y-2">
+                        <Label htmlFor={`${goal.id}-title`}>Judul</Label>
+                        <Input
+                          id={`${goal.id}-title`}
+                          value={goal.title}
+                          maxLength={80}
+                          onChange={(e) => updateGoal(goal.id, { title: e.target.value })}
+                        />
+                      </div>
+                      <div className="grid grid-cols-3 gap-3">
+                        <div className="space-y-2">
+                          <Label htmlFor={`${goal.id}-target`}>Target (Rp)</Label>
+                          <Input
+                            id={`${goal.id}-target`}
+                            type="number"
+                            min={1000}
+                            step={10000}
+                            value={goal.targetAmount}
+                            onChange={(e) => updateGoal(goal.id, { targetAmount: Math.floor(Number(e.target.value) || 0) })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`${goal.id}-start`}>Mulai</Label>
+                          <Input
+                            id={`${goal.id}-start`}
+                            type="date"
+                            value={goal.startDate}
+                            onChange={(e) => updateGoal(goal.id, { startDate: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`${goal.id}-end`}>Selesai (opsional)</Label>
+                          <Input
+                            id={`${goal.id}-end`}
+                            type="date"
+                            value={goal.endDate ?? ""}
+                            min={goal.startDate}
+                            onChange={(e) => updateGoal(goal.id, { endDate: e.target.value || undefined })}
+                          />
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateGoals(goals.filter((item) => item.id !== goal.id))}
+                      >
+                        Hapus
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    onClick={() => updateGoals([...goals, createDonationGoal()])}
+                    disabled={goals.length >= 5}
+                  >
+                    Tambah Goal
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setConfigs((prev) => ({ ...prev, [kind]: OVERLAY_DEFAULTS[kind] }));
+                    if (kind === "goal") setGoals([]);
+                    setTierDrafts((prev) => ({ ...prev, [kind]: [] }));
+                  }}
+                >
+                  Reset
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Live Preview + URL */}
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="w-full aspect-video rounded-md overflow-hidden bg-[repeating-conic-gradient(#e4e4e7_0%_25%,#ffffff_0%_50%)] bg-[length:20px_20px]">
+                  <iframe
+                    key={kind}
+                    src={previewPath}
+                    title="Overlay preview"
+                    className="w-full h-full"
+                    style={{ border: "none" }}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>URL Overlay</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <code className="block w-full p-3 bg-gray-50 border border-gray-200 rounded-md text-xs text-gray-700 break-all">
+                  {overlayPath}
+                </code>
+                <Button onClick={copyOverlayUrl} className="w-full">
+                  {copied ? "Tersalin!" : "Salin URL"}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
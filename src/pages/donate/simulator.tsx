@@ -0,0 +1,274 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  SIMULATOR_MEDIA_PRESETS,
+  SIMULATOR_PAYMENT_PRESETS,
+  buildSimulatedDonation,
+  sendSimulatedFrames,
+  type SimulatorTarget,
+} from "@/lib/donation-simulator";
+import type { DonationSocketMessage } from "@/types/socket";
+
+// Radix Select doesn't allow an empty item value
+const NO_MEDIA = "__none__";
+
+const PREVIEW_OVERLAYS = {
+  gif: "Media Share (/donate/gif)",
+  text: "Text Alert (/donate/text)",
+  time: "Countdown (/donate/time)",
+  goal: "Donation Goal (/donate/goal)",
+  leaderboard: "Leaderboard (/donate/leaderboard)",
+} as const;
+
+type PreviewOverlay = keyof typeof PREVIEW_OVERLAYS;
+
+export default function OverlaySimulatorPage() {
+  const [previewOverlay, setPreviewOverlay] = useState<PreviewOverlay>("gif");
+  const [donorName, setDonorName] = useState<string>("Budi");
+  const [amount, setAmount] = useState<string>("25000");
+  const [message, setMessage] = useState<string>("Semangat streamingnya!");
+  const [durationSeconds, setDurationSeconds] = useState<string>("15");
+  const [paymentPreset, setPaymentPreset] = useState<string>("qris");
+  const [mediaPreset, setMediaPreset] = useState<string>("youtube");
+  const [targetMinutes, setTargetMinutes] = useState<string>("10");
+  const [lastDonationId, setLastDonationId] = useState<string | null>(null);
+  const [sentLog, setSentLog] = useState<string[]>([]);
+
+  const payment = SIMULATOR_PAYMENT_PRESETS[paymentPreset];
+
+  // Helper function to broadcast frames and keep a short log of what was sent
+  const send = (frames: DonationSocketMessage[], label: string) => {
+    sendSimulatedFrames(frames);
+    const time = new Date().toLocaleTimeString("id-ID");
+    setSentLog((prev) => [`${time} ${label}`, ...prev].slice(0, 10));
+  };
+
+  const sendDonation = (target: SimulatorTarget) => {
+    const value = Number(amount);
+    if (!donorName.trim() || isNaN(value) || value <= 0) return;
+
+    const { id, frames } = buildSimulatedDonation(
+      {
+        donorName: donorName.trim(),
+        // Crypto donations carry USD cents, like the backend
+        amount: payment.crypto ? Math.round(value * 100) : Math.round(value),
+        message,
+        durationMs: Number(durationSeconds) > 0 ? Number(durationSeconds) * 1000 : undefined,
+        payment: payment.payment,
+        media: target === "gif" && mediaPreset !== NO_MEDIA ? SIMULATOR_MEDIA_PRESETS[mediaPreset] : undefined,
+      },
+      target,
+      window.location.origin
+    );
+    setLastDonationId(id);
+    send(frames, frames.map((frame) => frame.type).join(" + "));
+  };
+
+  const sendTime = () => {
+    const minutes = Number(targetMinutes);
+    if (isNaN(minutes) || minutes <= 0) return;
+    const targetTime = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    send([{ type: "time", targetTime }], `time +${minutes} menit`);
+  };
+
+  const sendVisibility = (visible: boolean) => {
+    send(
+      [{ type: "visibility", id: lastDonationId ?? undefined, visible }],
+      `visibility ${visible ? "on" : "off"}`
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-2xl font-semibold text-gray-900 tracking-tight">Overlay Simulator</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Kirim event palsu ke overlay yang terbuka di browser ini, tanpa backend dan tanpa pembayaran
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Donasi</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="donorName">Nama Donatur</Label>
+                    <Input id="donorName" value={donorName} onChange={(e) => setDonorName(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">Nominal ({payment.crypto ? "USD" : "Rp"})</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      min={0}
+                      step={payment.crypto ? 0.01 : 1000}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="message">Pesan</Label>
+                  <Textarea id="message" value={message} onChange={(e) => setMessage(e.target.value)} rows={2} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Pembayaran</Label>
+                    <Select
+                      value={paymentPreset}
+                      onValueChange={(value) => {
+                        // Switch to a sensible amount for the new currency
+                        if (SIMULATOR_PAYMENT_PRESETS[value].crypto !== payment.crypto) {
+                          setAmount(SIMULATOR_PAYMENT_PRESETS[value].crypto ? "5" : "25000");
+                        }
+                        setPaymentPreset(value);
+                      }}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(SIMULATOR_PAYMENT_PRESETS).map(([key, preset]) => (
+                          <SelectItem key={key} value={key}>
+                            {preset.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="durationSeconds">Durasi (detik, 0 = otomatis)</Label>
+                    <Input
+                      id="durationSeconds"
+                      type="number"
+                      min={0}
+                      value={durationSeconds}
+                      onChange={(e) => setDurationSeconds(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Media</Label>
+                  <Select value={mediaPreset} onValueChange={setMediaPreset}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_MEDIA}>Tanpa media</SelectItem>
+                      {Object.entries(SIMULATOR_MEDIA_PRESETS).map(([key, preset]) => (
+                        <SelectItem key={key} value={key}>
+                          {preset.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={() => sendDonation("gif")}>Kirim Media Share</Button>
+                  <Button variant="outline" onClick={() => sendDonation("text")}>
+                    Kirim Text Alert
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Kontrol</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={() => sendVisibility(false)}>
+                    Sembunyikan
+                  </Button>
+                  <Button variant="outline" onClick={() => sendVisibility(true)}>
+                    Tampilkan
+                  </Button>
+                  <Button variant="destructive" onClick={() => send([{ type: "clear_queue" }], "clear_queue")}>
+                    Clear Queue
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="targetMinutes">Countdown (menit dari sekarang)</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="targetMinutes"
+                      type="number"
+                      min={1}
+                      value={targetMinutes}
+                      onChange={(e) => setTargetMinutes(e.target.value)}
+                    />
+                    <Button variant="outline" onClick={sendTime}>
+                      Kirim Time
+                    </Button>
+                  </div>
+                </div>
+                {sentLog.length > 0 && (
+                  <ul className="pt-4 border-t border-gray-100 space-y-1 font-mono text-xs text-gray-600">
+                    {sentLog.map((entry, index) => (
+                      <li key={`${entry}-${index}`}>{entry}</li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Select value={previewOverlay} onValueChange={(value) => setPreviewOverlay(value as PreviewOverlay)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PREVIEW_OVERLAYS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="w-full aspect-video rounded-md overflow-hidden bg-[repeating-conic-gradient(#e4e4e7_0%_25%,#ffffff_0%_50%)] bg-[length:20px_20px]">
+                <iframe
+                  key={previewOverlay}
+                  src={`/donate/${previewOverlay}?debug=1`}
+                  title="Overlay preview"
+                  className="w-full h-full"
+                  style={{ border: "none" }}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Overlay yang dibuka di tab lain pada browser yang sama juga menerima event ini.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useApi } from "@/components/contex/ApiProvider";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { usePermission } from "@/hooks/use-permission";
+import { useSubathon } from "@/hooks/use-subathon";
+import {
+  DEFAULT_SECONDS_PER_1000,
+  calculateSubathonExtension,
+  formatExtension,
+  isSubathonCapped,
+  splitDuration,
+} from "@/lib/subathon";
+
+const QUICK_ADJUSTMENTS = [-5, -1, 1, 5, 10]; // minutes
+
+// Helper function to format milliseconds as HH:MM:SS (days folded into hours)
+function formatClock(ms: number): string {
+  const { days, hours, minutes, seconds } = splitDuration(ms);
+  return [days * 24 + hours, minutes, seconds].map((value) => value.toString().padStart(2, "0")).join(":");
+}
+
+export default function SubathonPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const canAccess = usePermission("subathon:manage");
+  const subathon = useSubathon();
+  const { state, remainingMs } = subathon;
+  // Drafts stay null until edited so the inputs follow the live state
+  const [rateDraft, setRateDraft] = useState<string | null>(null);
+  const [capDraft, setCapDraft] = useState<string | null>(null);
+  const [initialMinutes, setInitialMinutes] = useState<string>("60");
+  const [customMinutes, setCustomMinutes] = useState<string>("");
+  const [processing, setProcessing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [showStopDialog, setShowStopDialog] = useState<boolean>(false);
+
+  const { client } = useApi();
+
+  const rateInput = rateDraft ?? String(state?.secondsPer1000 ?? DEFAULT_SECONDS_PER_1000);
+  const capInput = capDraft ?? (state?.capMs ? String(state.capMs / (60 * 60 * 1000)) : "");
+  const secondsPer1000 = Number(rateInput);
+  const capHours = capInput.trim() === "" ? null : Number(capInput);
+  const isRunning = state?.status === "running" || state?.status === "paused";
+
+  // Check session and redirect if not authenticated
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/auth/login?callbackUrl=" + encodeURIComponent("/donate/subathon"));
+    } else if (status === "authenticated") {
+      // Check the user's role grants this page
+      if (!canAccess) {
+        router.push("/");
+      }
+    }
+  }, [status, canAccess, router]);
+
+  // Helper function for authenticated POSTs; the response carries the new state
+  const postSubathon = async (action: string, body: unknown, successMessage: string) => {
+    try {
+      setProcessing(true);
+      setError(null);
+
+      const nextState = await client.subathon.update(action, body);
+      if (nextState) {
+        subathon.setState(nextState);
+      }
+      setActionMessage(successMessage);
+      setTimeout(() => setActionMessage(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      console.error("Error updating subathon:", err);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const validateConfig = (): boolean => {
+    if (isNaN(secondsPer1000) || secondsPer1000 < 0) {
+      setError("Tarif harus angka 0 atau lebih");
+      return false;
+    }
+    if (capHours !== null && (isNaN(capHours) || capHours <= 0)) {
+      setError("Batas waktu harus lebih dari 0 jam, atau kosongkan");
+      return false;
+    }
+    return true;
+  };
+
+  const configBody = () => ({
+    secondsPer1000,
+    capSeconds: capHours === null ? null : Math.round(capHours * 60 * 60),
+  });
+
+  const startSubathon = () => {
+    const minutes = Number(initialMinutes);
+    if (isNaN(minutes) || minutes <= 0) {
+      setError("Durasi awal harus lebih dari 0 menit");
+      return;
+    }
+    if (!validateConfig()) return;
+    postSubathon("start", { initialSeconds: Math.round(minutes * 60), ...configBody() }, "Subathon dimulai");
+  };
+
+  const saveConfig = () => {
+    if (!validateConfig()) return;
+    postSubathon("config", configBody(), "Pengaturan subathon disimpan");
+    setRateDraft(null);
+    setCapDraft(null);
+  };
+
+  const adjust = (minutes: number) => {
+    if (isNaN(minutes) || minutes === 0) return;
+    postSubathon("adjust", { seconds: Math.round(minutes * 60) }, `Waktu ${formatExtension(minutes * 60 * 1000)}`);
+  };
+
+  const stopSubathon = () => {
+    setShowStopDialog(false);
+    postSubathon("stop", {}, "Subathon dihentikan");
+  };
+
+  // Show loading while checking session
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-white p-8">
+        <div className="max-w-7xl mx-auto">
+          <h1 className="text-3xl font-bold text-black mb-8">Subathon</h1>
+          <div className="flex justify-center items-center h-64">
+            <div className="text-gray-600 text-lg">Checking authentication...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Don't render if not authenticated or not allowed (redirect will happen)
+  if (status === "unauthenticated" || !session) {
+    return null;
+  }
+  if (!canAccess) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-2xl font-semibold text-gray-900 tracking-tight">Subathon</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Tampilkan di OBS dengan overlay /donate/time mode subathon
+          </p>
+        </div>
+
+        {/* Success/Error Messages */}
+        {actionMessage && (
+          <div className="mb-4 p-3 bg-green-50 text-green-700 text-sm rounded-md border border-green-100">
+            {actionMessage}
+          </div>
+        )}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-100">
+            Error: {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Timer */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Timer</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-center">
+                <p className="text-5xl font-bold font-mono text-gray-900">{formatClock(remainingMs)}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {!state || state.status === "ended"
+                    ? "Tidak ada subathon berjalan"
+                    : state.status === "paused"
+                      ? "Dijeda"
+                      : isSubathonCapped(state)
+                        ? "Batas waktu maksimal tercapai"
+                        : "Berjalan"}
+                </p>
+                {state && state.capMs && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    Total {formatClock(state.totalMs)} / batas {formatClock(state.capMs)}
+                  </p>
+                )}
+              </div>
+
+              {isRunning ? (
+                <>
+                  <div className="flex gap-2">
+                    {state?.status === "paused" ? (
+                      <Button
+                        className="flex-1"
+                        onClick={() => postSubathon("resume", {}, "Subathon dilanjutkan")}
+                        disabled={processing}
+                      >
+                        Resume
+                      </Button>
+                    ) : (
+                      <Button
+                        className="flex-1"
+                        variant="outline"
+                        onClick={() => postSubathon("pause", {}, "Subathon dijeda")}
+                        disabled={processing}
+                      >
+                        Pause
+                      </Button>
+                    )}
+                    <Button
+                      variant="destructive"
+                      onClick={() => setShowStopDialog(true)}
+                      disabled={processing}
+                    >
+                      Stop
+                    </Button>
+                  </div>
+
+                  <div className="space-y-2 pt-4 border-t border-gray-100">
+                    <Label>Tambah / Kurangi Waktu</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {QUICK_ADJUSTMENTS.map((minutes) => (
+                        <Button
+                          key={minutes}
+                          size="sm"
+                          variant="outline"
+                          onClick={() => adjust(minutes)}
+                          disabled={processing}
+                        >
+                          {minutes > 0 ? `+${minutes}` : minutes} menit
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        value={customMinutes}
+                        onChange={(e) => setCustomMinutes(e.target.value)}
+                        placeholder="Menit (negatif untuk kurangi)"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          adjust(Number(customMinutes));
+                          setCustomMinutes("");
+                        }}
+                        disabled={processing || customMinutes.trim() === ""}
+                      >
+                        Terapkan
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="initialMinutes">Durasi Awal (menit)</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="initialMinutes"
+                      type="number"
+                      min={1}
+                      value={initialMinutes}
+                      onChange={(e) => setInitialMinutes(e.target.value)}
+                    />
+                    <Button onClick={startSubathon} disabled={processing}>
+                      Mulai Subathon
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Rate & Cap */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Tarif &amp; Batas</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="secondsPer1000">Detik per Rp1.000</Label>
+                <Input
+                  id="secondsPer1000"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={rateInput}
+                  onChange={(e) => setRateDraft(e.target.value)}
+                />
+                {!isNaN(secondsPer1000) && secondsPer1000 > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Rp10.000 = {formatExtension(calculateSubathonExtension(10000, secondsPer1000))}, Rp100.000 ={" "}
+                    {formatExtension(calculateSubathonExtension(100000, secondsPer1000))}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="capHours">Batas Total (jam, kosongkan untuk tanpa batas)</Label>
+                <Input
+                  id="capHours"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={capInput}
+                  onChange={(e) => setCapDraft(e.target.value)}
+                />
+              </div>
+              {isRunning && (
+                <Button
+                  variant="outline"
+                  onClick={saveConfig}
+                  disabled={processing || (rateDraft === null && capDraft === null)}
+                >
+                  Simpan Pengaturan
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Stop Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={showStopDialog}
+        onClose={() => setShowStopDialog(false)}
+        onConfirm={stopSubathon}
+        title="Stop Subathon"
+        description="Timer akan dihentikan dan sisa waktu hilang. Lanjutkan?"
+        confirmText="Stop"
+        cancelText="Batal"
+        variant="destructive"
+        isLoading={processing}
+      />
+    </div>
+  );
+}
@@ -1,38 +1,57 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
-
-interface TextMessage {
-  id?: string; // UUID for tracking this donation
-  type: string;
-  donorName?: string;
-  amount?: number;
-  message?: string;
-  duration?: number; // Display duration in milliseconds (from backend)
-  visible?: boolean;
-  paymentMethod?: string; // crypto, bank_transfer, gopay, etc
-  paymentType?: string; // plisio, midtrans
-  plisioCurrency?: string; // BTC, ETH, SOL, etc
-  plisioAmount?: string; // Crypto amount (e.g., "0.001", "0.5")
-}
-
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import Image from "next/image";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import { SocketDebugPanel } from "@/components/ui/SocketDebugPanel";
+import { OverlayAmount } from "@/components/ui/OverlayAmount";
+import { useOverlayConfig } from "@/hooks/use-overlay-config";
+import { useFxRate } from "@/hooks/use-fx-rate";
+import { usePricing } from "@/hooks/use-pricing";
+import {
+  OVERLAY_ANCHOR_CLASSES,
+  OVERLAY_FONT_CLASSES,
+  OVERLAY_PREVIEW_DONATION,
+  getOverlayThemeClasses,
+  getOverlayWordFilter,
+} from "@/lib/overlay-config";
+import { maskText } from "@/lib/word-filter";
+import { ALERT_ANIMATION_CLASSES, parseAlertTiers, selectAlertTier, type AlertTier } from "@/lib/alert-tiers";
+import { donationAmountToIdr } from "@/lib/currency";
+import { calculateDisplayDuration, DEFAULT_PRICING } from "@/lib/pricing";
+import { buildDonationSpeech, cancelSpeech, estimateSpeechDuration, speak } from "@/lib/tts";
+import type { DonationSocketControl, DonationSocketText, DonationSocketVisibility } from "@/types/socket";
+
+// Helper function to create a preloaded one-shot chime
+function createChime(url: string, volume: number): HTMLAudioElement {
+  const audio = new Audio(url);
+  audio.loop = false; // Play BGM once only
+  audio.preload = "auto";
+
+  // Set volume (some browsers require this for autoplay)
+  audio.volume = volume;
+
+  // Add error handling
+  audio.addEventListener("error", (e) => {
+    console.error("❌ Audio error:", e);
+  });
 
-// Helper function to calculate display duration based on donation amount
-// 1000 = 10 detik, setiap kelipatan 1000 = +10 detik
-function calculateDisplayDuration(amount: number): number {
-  if (isNaN(amount) || amount <= 0) {
-    return 10000; // Default 10 seconds if invalid
+  // Try to preload by loading the audio (this helps with autoplay policy)
+  try {
+    audio.load();
+  } catch (err) {
+    console.warn("⚠️ Audio preload warning:", err);
   }
-  
-  // Calculate: amount / 1000 * 10 seconds (in milliseconds)
-  // 1000 = 10 detik, 2000 = 20 detik, etc.
-  const durationMs = (amount / 1000) * 10 * 1000;
-  
-  // Minimum 10 seconds
-  return Math.max(10000, durationMs);
+
+  return audio;
 }
 
 export default function TextPage() {
+  const config = useOverlayConfig("text");
+  const pricing = usePricing();
+  const fxRate = useFxRate();
+  const theme = getOverlayThemeClasses(config.theme);
+  const tiers = useMemo(() => parseAlertTiers(config.tiers), [config.tiers]);
   const [textMessage, setTextMessage] = useState<{
     id: string; // UUID for tracking
     donorName: string;
@@ -42,16 +61,20 @@ export default function TextPage() {
     paymentType?: string;
     plisioCurrency?: string;
     plisioAmount?: string;
+    tier: AlertTier | null;
   } | null>(null);
   const [currentDonationId, setCurrentDonationId] = useState<string | null>(null);
   const [isVisible, setIsVisible] = useState<boolean>(true);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
   const [remainingTime, setRemainingTime] = useState<number>(0);
   const [totalDuration, setTotalDuration] = useState<number>(0);
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const pauseStartTimeRef = useRef<number | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null); // Chime of the donation on screen
+  const defaultAudioRef = useRef<HTMLAudioElement | null>(null); // Overlay soundUrl chime
+  const tierAudioRef = useRef<Map<string, HTMLAudioElement>>(new Map()); // Tier chimes by URL
+  const speechIdRef = useRef<string | null>(null); // Donation id waiting to be / being read aloud
+  const speechTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const textStateRef = useRef<{
     textMessage: typeof textMessage;
     remainingTime: number;
@@ -60,293 +83,293 @@ export default function TextPage() {
     remainingTime: 0,
   });
 
-  // WebSocket connection
-  useEffect(() => {
-    const connectWebSocket = () => {
-      const wsProtocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      let wsHost = process.env.NEXT_PUBLIC_WS_HOST || "localhost:5000";
-      // Remove protocol if present (http:// or https://)
-      wsHost = wsHost.replace(/^https?:\/\//, "");
-      const wsUrl = `${wsProtocol}//${wsHost}/ws`;
-
+  // Stop BGM and clear every piece of text donation state
+  const resetTextState = () => {
+    // Stop audio if playing
+    if (audioRef.current) {
       try {
-        // Close existing connection if any
-        if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-          console.log("🔄 Closing existing WebSocket connection before reconnecting");
-          wsRef.current.close();
-        }
+        audioRef.current.pause();
+        audioRef.current.currentTime = 0;
+      } catch (e) {
+        console.warn("Error stopping audio:", e);
+      }
+    }
 
-        const ws = new WebSocket(wsUrl);
-        console.log("🔌 Attempting WebSocket connection to:", wsUrl);
+    // Clear all timers
+    if (progressIntervalRef.current) {
+      clearInterval(progressIntervalRef.current);
+      progressIntervalRef.current = null;
+    }
 
-        ws.onopen = () => {
-          console.log("✅ WebSocket connected successfully");
-          if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
-            reconnectTimeoutRef.current = null;
-          }
-        };
+    // Clear all state
+    setTextMessage(null);
+    setCurrentDonationId(null);
+    setIsVisible(true);
+    setIsPaused(false);
+    setRemainingTime(0);
+    setTotalDuration(0);
+    pauseStartTimeRef.current = null;
 
-        ws.onmessage = (event) => {
-          try {
-            // Handle single message or multiple messages separated by newline
-            const rawData = event.data.toString().trim();
-            if (!rawData) return;
-
-            const messages = rawData.includes('\n') 
-              ? rawData.split('\n').filter((msg: string) => msg.trim())
-              : [rawData];
-            
-            for (const message of messages) {
-              const trimmed = message.trim();
-              if (!trimmed) continue;
-              
-              try {
-                const data: TextMessage = JSON.parse(trimmed);
-
-                if (data.type === "text" && data.donorName && data.amount !== undefined && data.amount > 0 && data.id) {
-                  // Check if current donation is still active (has remaining time)
-                  // If there's an ongoing donation (regardless of donor name), ignore new donation
-                  // This ensures donations queue properly and don't interrupt each other
-                  const currentState = textStateRef.current;
-                  if (currentState.textMessage && currentState.remainingTime > 0) {
-                    const isSameDonor = currentState.textMessage.donorName === data.donorName;
-                    console.log("⏸️ New text donation received but current donation still active, ignoring:", {
-                      currentId: currentDonationId,
-                      currentDonor: currentState.textMessage.donorName,
-                      newId: data.id,
-                      newDonor: data.donorName,
-                      isSameDonor: isSameDonor,
-                      remainingTime: currentState.remainingTime,
-                    });
-                    // Don't process new donation until current one finishes (queue will handle it)
-                    return;
-                  }
-                  
-                  // Validate message max 250 characters (only for text donations)
-                  // Handle undefined, null, or empty string
-                  let message = data.message || "";
-                  if (typeof message === "string" && message.length > 250) {
-                    message = message.substring(0, 250);
-                  }
-                  
-                  // Always use 10 seconds duration for text donations
-                  const finalDuration = 10000; // 10 seconds
-                  
-                  // Set duration FIRST before setting text message
-                  // This ensures useEffect has the correct duration when it runs
-                  setTotalDuration(finalDuration);
-                  setRemainingTime(finalDuration);
-                  
-                  setTextMessage({
-                    id: data.id,
-                    donorName: data.donorName,
-                    amount: data.amount,
-                    message: message, // Always set message, even if empty string
-                    paymentMethod: data.paymentMethod,
-                    paymentType: data.paymentType,
-                    plisioCurrency: data.plisioCurrency,
-                    plisioAmount: data.plisioAmount,
-                  });
-                  setCurrentDonationId(data.id);
-                  setIsVisible(true);
-                  pauseStartTimeRef.current = null;
-
-                  // Play BGM once (no loop)
-                  if (audioRef.current) {
-                    audioRef.current.currentTime = 0; // Reset to start
-                    audioRef.current.loop = false; // Play BGM once only
-                    
-                    // Check if audio is ready
-                    if (audioRef.current.readyState >= 2) { // HAVE_CURRENT_DATA or higher
-                      audioRef.current.play()
-                        .catch((err) => {
-                          console.error("❌ Failed to play BGM:", err);
-                          // Try to load again if failed
-                          if (audioRef.current) {
-                            audioRef.current.load();
-                            setTimeout(() => {
-                              if (audioRef.current) {
-                                audioRef.current.play().catch((retryErr) => {
-                                  console.error("❌ Retry play also failed:", retryErr);
-                                });
-                              }
-                            }, 100);
-                          }
-                        });
-                    } else {
-                      // Wait for audio to be ready
-                      const onCanPlay = () => {
-                        if (audioRef.current) {
-                          audioRef.current.play().catch((err) => {
-                            console.error("❌ Failed to play BGM after ready:", err);
-                          });
-                          audioRef.current.removeEventListener("canplay", onCanPlay);
-                        }
-                      };
-                      audioRef.current.addEventListener("canplay", onCanPlay);
-                    }
-                  }
-                }
+    // Clear text state ref
+    textStateRef.current = {
+      textMessage: null,
+      remainingTime: 0,
+    };
+  };
 
-                if (data.type === "clear_queue") {
-                  console.log("🗑️ Clear queue message received, stopping all text donations and clearing queue");
-                  
-                  // Stop audio if playing
-                  if (audioRef.current) {
-                    try {
-                      audioRef.current.pause();
-                      audioRef.current.currentTime = 0;
-                    } catch (e) {
-                      console.warn("Error stopping audio:", e);
-                    }
-                  }
-                  
-                  // Clear all timers
-                  if (progressIntervalRef.current) {
-                    clearInterval(progressIntervalRef.current);
-                    progressIntervalRef.current = null;
-                  }
-                  
-                  // Clear all state
-                  setTextMessage(null);
-                  setCurrentDonationId(null);
-                  setIsVisible(true);
-                  setRemainingTime(0);
-                  setTotalDuration(0);
-                  pauseStartTimeRef.current = null;
-                  
-                  // Clear text state ref
-                  textStateRef.current = {
-                    textMessage: null,
-                    remainingTime: 0,
-                  };
-                  
-                  console.log("✅ All text donations stopped and queue cleared");
-                }
+  // Stop any pending or ongoing text-to-speech
+  const stopSpeech = () => {
+    speechIdRef.current = null;
+    if (speechTimeoutRef.current) {
+      clearTimeout(speechTimeoutRef.current);
+      speechTimeoutRef.current = null;
+    }
+    cancelSpeech();
+  };
+
+  // Read the donation aloud once the chime has finished
+  const scheduleSpeech = (id: string, text: string, chimeMs: number) => {
+    const audio = audioRef.current;
+    speechIdRef.current = id;
+
+    const speakNow = () => {
+      if (speechTimeoutRef.current) {
+        clearTimeout(speechTimeoutRef.current);
+        speechTimeoutRef.current = null;
+      }
+      audio?.removeEventListener("ended", speakNow);
+      // Donation was cleared or replaced while the chime played
+      if (speechIdRef.current !== id) return;
+
+      console.log("🗣️ Reading donation aloud:", { id, lang: config.ttsLang });
+      speak(text, {
+        lang: config.ttsLang,
+        voiceName: config.ttsVoice,
+        rate: config.ttsRate,
+        pitch: config.ttsPitch,
+        volume: config.volume,
+      });
+    };
+
+    if (audio && chimeMs > 0) {
+      audio.addEventListener("ended", speakNow);
+      // Fallback in case the chime is blocked by autoplay policy and never ends
+      speechTimeoutRef.current = setTimeout(speakNow, chimeMs + 1000);
+    } else {
+      speakNow();
+    }
+  };
+
+  const handleText = (data: DonationSocketText) => {
+    // minAmount is in IDR; crypto amounts arrive in USD cents
+    const amountIdr = donationAmountToIdr(data.amount, data.paymentMethod, fxRate.rate);
+    if (amountIdr < config.minAmount) {
+      console.log("🔕 Text donation below minimum amount, skipping:", {
+        id: data.id,
+        amount: data.amount,
+        amountIdr,
+        minAmount: config.minAmount,
+      });
+      return;
+    }
 
-                if (data.type === "visibility") {
-                  // Handle visibility for current donation
-                  if (data.id && data.id === currentDonationId) {
-                    if (data.visible === false) {
-                      // Server sent visibility false - this means donation duration ended on server
-                      // Clear everything immediately (donation completed server-side)
-                      console.log("⏰ Server signaled text donation ended (ID: %s), clearing all state", data.id);
-                      
-                      // Stop audio if playing
-                      if (audioRef.current) {
-                        try {
-                          audioRef.current.pause();
-                          audioRef.current.currentTime = 0;
-                        } catch (e) {
-                          console.warn("Error stopping audio:", e);
-                        }
-                      }
-                      
-                      // Clear all timers
-                      if (progressIntervalRef.current) {
-                        clearInterval(progressIntervalRef.current);
-                        progressIntervalRef.current = null;
-                      }
-                      
-                      // Clear all state
-                      setTextMessage(null);
-                      setCurrentDonationId(null);
-                      setIsVisible(true);
-                      setRemainingTime(0);
-                      setTotalDuration(0);
-                      pauseStartTimeRef.current = null;
-                      
-                      // Clear text state ref
-                      textStateRef.current = {
-                        textMessage: null,
-                        remainingTime: 0,
-                      };
-                    } else {
-                      // Resumed - adjust remaining time if was paused
-                      setIsVisible(true);
-                      if (pauseStartTimeRef.current !== null) {
-                        const pauseDuration = Date.now() - pauseStartTimeRef.current;
-                        setRemainingTime((prev) => prev + pauseDuration);
-                        pauseStartTimeRef.current = null;
-                      }
-                      // Resume BGM
-                      if (audioRef.current) {
-                        audioRef.current.play().catch((err) => {
-                          console.warn("Failed to resume BGM:", err);
-                        });
-                      }
-                    }
-                  } else if (data.visible === false && currentDonationId === null) {
-                    // Visibility false for unknown donation - might be cleanup, just hide
-                    setIsVisible(false);
-                  }
+    // Check if current donation is still active (has remaining time)
+    // If there's an ongoing donation (regardless of donor name), ignore new donation
+    // This ensures donations queue properly and don't interrupt each other
+    const currentState = textStateRef.current;
+    if (currentState.textMessage && currentState.remainingTime > 0) {
+      const isSameDonor = currentState.textMessage.donorName === data.donorName;
+      console.log("⏸️ New text donation received but current donation still active, ignoring:", {
+        currentId: currentDonationId,
+        currentDonor: currentState.textMessage.donorName,
+        newId: data.id,
+        newDonor: data.donorName,
+        isSameDonor: isSameDonor,
+        remainingTime: currentState.remainingTime,
+      });
+      // Don't process new donation until current one finishes (queue will handle it)
+      return;
+    }
+
+    // Mask profanity and strip links before anything reaches the stream
+    const wordFilter = getOverlayWordFilter(config);
+    const donorName = config.wordFilter ? maskText(data.donorName, wordFilter) : data.donorName;
+    const rawMessage = config.wordFilter ? maskText(data.message || "", wordFilter) : data.message;
+
+    // Validate message max length from overlay config (250 by default)
+    // Handle undefined, null, or empty string
+    let message = rawMessage || "";
+    if (typeof message === "string" && message.length > config.messageLength) {
+      message = message.substring(0, config.messageLength);
+    }
+
+    // Tiers are matched in IDR so crypto donations compare by their USD value
+    const tier = selectAlertTier(tiers, amountIdr);
+    const tierAudio = tier?.soundUrl ? tierAudioRef.current.get(tier.soundUrl) : undefined;
+    const chime = tierAudio ?? defaultAudioRef.current;
+    if (audioRef.current && audioRef.current !== chime) {
+      audioRef.current.pause();
+    }
+    audioRef.current = chime;
+
+    // Duration from backend, then the tier duration, fallback to the pricing config
+    // (same as the donation form), stretched to cover the chime plus text-to-speech when enabled
+    const baseDurationMs = data.duration
+      || (tier && tier.duration > 0
+        ? tier.duration * 1000
+        : calculateDisplayDuration(pricing, amountIdr, { donationType: "text" }));
+    // ttsMinAmount is in IDR too
+    const shouldSpeak = config.tts && amountIdr >= config.ttsMinAmount;
+    const speechText = shouldSpeak
+      ? buildDonationSpeech(
+          {
+            // Masked words are dropped instead of read out as symbols
+            donorName: config.wordFilter ? maskText(data.donorName, { ...wordFilter, maskChar: "" }) : donorName,
+            amount: data.amount,
+            message: config.wordFilter
+              ? maskText(data.message || "", { ...wordFilter, maskChar: "" }).substring(0, config.messageLength)
+              : message,
+            cryptoAmount: data.paymentMethod === "crypto" ? data.plisioAmount : undefined,
+            cryptoCurrency: data.paymentMethod === "crypto" ? data.plisioCurrency : undefined,
+          },
+          config.ttsLang
+        )
+      : "";
+    const chimeDuration = audioRef.current?.duration;
+    // Unknown chime length (not loaded yet): assume 5 seconds
+    const chimeMs = audioRef.current
+      ? chimeDuration && isFinite(chimeDuration) ? chimeDuration * 1000 : 5000
+      : 0;
+    const finalDuration = shouldSpeak
+      ? Math.max(baseDurationMs, chimeMs + estimateSpeechDuration(speechText, config.ttsRate) + 1500)
+      : baseDurationMs;
+
+    // Set duration FIRST before setting text message
+    // This ensures useEffect has the correct duration when it runs
+    setTotalDuration(finalDuration);
+    setRemainingTime(finalDuration);
+
+    setTextMessage({
+      id: data.id,
+      donorName,
+      amount: data.amount,
+      message: message, // Always set message, even if empty string
+      paymentMethod: data.paymentMethod,
+      paymentType: data.paymentType,
+      plisioCurrency: data.plisioCurrency,
+      plisioAmount: data.plisioAmount,
+      tier,
+    });
+    setCurrentDonationId(data.id);
+    setIsVisible(true);
+    setIsPaused(false);
+    pauseStartTimeRef.current = null;
+
+    // Play BGM once (no loop)
+    if (audioRef.current) {
+      audioRef.current.currentTime = 0; // Reset to start
+      audioRef.current.loop = false; // Play BGM once only
+
+      // Check if audio is ready
+      if (audioRef.current.readyState >= 2) { // HAVE_CURRENT_DATA or higher
+        audioRef.current.play()
+          .catch((err) => {
+            console.error("❌ Failed to play BGM:", err);
+            // Try to load again if failed
+            if (audioRef.current) {
+              audioRef.current.load();
+              setTimeout(() => {
+                if (audioRef.current) {
+                  audioRef.current.play().catch((retryErr) => {
+                    console.error("❌ Retry play also failed:", retryErr);
+                  });
                 }
-              } catch {
-                // Skip invalid JSON messages
-                console.warn("Invalid JSON message:", trimmed.substring(0, 100));
-              }
+              }, 100);
             }
-          } catch (error) {
-            console.error("Error processing WebSocket message:", error);
+          });
+      } else {
+        // Wait for audio to be ready
+        const onCanPlay = () => {
+          if (audioRef.current) {
+            audioRef.current.play().catch((err) => {
+              console.error("❌ Failed to play BGM after ready:", err);
+            });
+            audioRef.current.removeEventListener("canplay", onCanPlay);
           }
         };
+        audioRef.current.addEventListener("canplay", onCanPlay);
+      }
+    }
 
-        ws.onerror = (error) => {
-          console.error("❌ WebSocket error:", error);
-          // Try to reconnect immediately on error
-          if (ws.readyState === WebSocket.CLOSED || ws.readyState === WebSocket.CLOSING) {
-            if (!reconnectTimeoutRef.current) {
-              reconnectTimeoutRef.current = setTimeout(() => {
-                console.log("🔄 Reconnecting WebSocket after error...");
-                connectWebSocket();
-              }, 1000);
-            }
-          }
-        };
+    if (shouldSpeak) {
+      stopSpeech();
+      scheduleSpeech(data.id, speechText, chimeMs);
+    }
+  };
 
-        ws.onclose = (event) => {
-          console.log("🔌 WebSocket closed:", {
-            code: event.code,
-            reason: event.reason,
-            wasClean: event.wasClean,
-          });
-          
-          // Only reconnect if not manually closed
-          if (event.code !== 1000) {
-            if (!reconnectTimeoutRef.current) {
-              console.log("🔄 Scheduling WebSocket reconnection in 3 seconds...");
-              reconnectTimeoutRef.current = setTimeout(() => {
-                connectWebSocket();
-              }, 3000);
-            }
-          }
-        };
+  const handleClearQueue = () => {
+    console.log("🗑️ Clear queue message received, stopping all text donations and clearing queue");
+    resetTextState();
+    console.log("✅ All text donations stopped and queue cleared");
+  };
 
-        wsRef.current = ws;
-      } catch (error) {
-        console.error("❌ WebSocket connection failed:", error);
-        // Retry connection after 3 seconds
-        if (!reconnectTimeoutRef.current) {
-          reconnectTimeoutRef.current = setTimeout(() => {
-            console.log("🔄 Retrying WebSocket connection...");
-            connectWebSocket();
-          }, 3000);
+  const handleVisibility = (data: DonationSocketVisibility) => {
+    // Handle visibility for current donation
+    if (data.id && data.id === currentDonationId) {
+      if (data.visible === false) {
+        // Server sent visibility false - this means donation duration ended on server
+        // Clear everything immediately (donation completed server-side)
+        console.log("⏰ Server signaled text donation ended (ID: %s), clearing all state", data.id);
+        resetTextState();
+      } else {
+        // Resumed - adjust remaining time if was paused
+        setIsVisible(true);
+        if (pauseStartTimeRef.current !== null) {
+          const pauseDuration = Date.now() - pauseStartTimeRef.current;
+          setRemainingTime((prev) => prev + pauseDuration);
+          pauseStartTimeRef.current = null;
+        }
+        // Resume BGM
+        if (audioRef.current) {
+          audioRef.current.play().catch((err) => {
+            console.warn("Failed to resume BGM:", err);
+          });
         }
       }
-    };
+    } else if (data.visible === false && currentDonationId === null) {
+      // Visibility false for unknown donation - might be cleanup, just hide
+      setIsVisible(false);
+    }
+  };
 
-    connectWebSocket();
+  // Remote queue controls; the text overlay has no queue of its own, so only
+  // the donation on screen can be skipped
+  const handleControl = (data: DonationSocketControl) => {
+    if (!currentDonationId || (data.id && data.id !== currentDonationId)) return;
+
+    if (data.action === "skip") {
+      console.log("⏭️ Skip received, ending current text donation (ID: %s)", currentDonationId);
+      stopSpeech();
+      resetTextState();
+    } else if (data.action === "pause") {
+      // Speech can't be resumed mid-sentence, so a paused donation is not read again
+      console.log("⏸️ Pause received (ID: %s)", currentDonationId);
+      setIsPaused(true);
+      stopSpeech();
+      audioRef.current?.pause();
+    } else {
+      console.log("▶️ Resume received (ID: %s)", currentDonationId);
+      setIsPaused(false);
+    }
+  };
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-    };
-  }, []);
+  // WebSocket connection
+  useDonationSocket({
+    text: handleText,
+    clear_queue: handleClearQueue,
+    visibility: handleVisibility,
+    control: handleControl,
+  });
 
   // Update text state ref whenever state changes
   useEffect(() => {
@@ -356,29 +379,11 @@ export default function TextPage() {
     };
   }, [textMessage, remainingTime]);
 
-  // Initialize audio element
+  // Initialize audio element (no sound when soundUrl is empty)
   useEffect(() => {
-    if (!audioRef.current) {
-      const audio = new Audio("/bgm.mp3");
-      audio.loop = false; // Play BGM once only
-      audio.preload = "auto";
-      
-      // Set volume (some browsers require this for autoplay)
-      audio.volume = 1.0;
-      
-      // Add error handling
-      audio.addEventListener("error", (e) => {
-        console.error("❌ Audio error:", e);
-      });
-      
-      // Try to preload by loading the audio (this helps with autoplay policy)
-      try {
-        audio.load();
-      } catch (err) {
-        console.warn("⚠️ Audio preload warning:", err);
-      }
-      
-      audioRef.current = audio;
+    if (!defaultAudioRef.current && config.soundUrl) {
+      defaultAudioRef.current = createChime(config.soundUrl, config.volume);
+      audioRef.current = defaultAudioRef.current;
     }
 
     return () => {
@@ -387,8 +392,47 @@ export default function TextPage() {
         audioRef.current.pause();
         audioRef.current = null;
       }
+      defaultAudioRef.current?.pause();
+      defaultAudioRef.current = null;
     };
-  }, []);
+  }, [config.soundUrl, config.volume]);
+
+  // Preload tier chimes so a big donation never waits on its sound
+  useEffect(() => {
+    const chimes = new Map<string, HTMLAudioElement>();
+    for (const tier of tiers) {
+      if (tier.soundUrl && !chimes.has(tier.soundUrl)) {
+        chimes.set(tier.soundUrl, createChime(tier.soundUrl, config.volume));
+      }
+    }
+    tierAudioRef.current = chimes;
+
+    return () => {
+      chimes.forEach((audio) => audio.pause());
+    };
+  }, [tiers, config.volume]);
+
+  // Latest handleText for the preview timer, which must not restart on every
+  // render (same approach as useDonationSocket)
+  const handleTextRef = useRef(handleText);
+  useEffect(() => {
+    handleTextRef.current = handleText;
+  });
+
+  // Preview mode: replay a sample donation so the settings page shows the look
+  useEffect(() => {
+    if (!config.preview) return;
+
+    const showSample = () => {
+      handleTextRef.current({ type: "text", id: `preview-${Date.now()}`, ...OVERLAY_PREVIEW_DONATION, duration: 10000 });
+    };
+    const timeout = setTimeout(showSample, 0);
+    const interval = setInterval(showSample, 12000);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [config.preview]);
 
   // Auto-hide based on donation duration from backend
   useEffect(() => {
@@ -398,11 +442,12 @@ export default function TextPage() {
         clearInterval(progressIntervalRef.current);
         progressIntervalRef.current = null;
       }
-      // Stop BGM when no donation
+      // Stop BGM and speech when no donation
       if (audioRef.current) {
         audioRef.current.pause();
         audioRef.current.currentTime = 0;
       }
+      stopSpeech();
       setTimeout(() => {
         setRemainingTime(0);
         setTotalDuration(0);
@@ -410,14 +455,18 @@ export default function TextPage() {
       return;
     }
 
-    // Always use 10 seconds duration for text donations
-    const currentDuration = 10000; // 10 seconds
+    // Paused from the remote: freeze the countdown until resumed
+    if (isPaused) {
+      return;
+    }
+
+    // Duration was set by the websocket handler (may be stretched for speech)
+    const currentDuration = totalDuration > 0 ? totalDuration : DEFAULT_PRICING.minDurationSeconds * 1000;
     
     console.log("⏱️ Timer setup:", {
       donationId: textMessage.id,
       amount: textMessage.amount,
       totalDuration,
-      calculatedDuration: calculateDisplayDuration(textMessage.amount),
       currentDuration,
     });
 
@@ -452,7 +501,10 @@ export default function TextPage() {
       });
     }, 1000);
 
-    // Use currentDuration for timer
+    // Use remaining time so a resumed donation doesn't restart its full duration
+    const timerDuration = textStateRef.current.remainingTime > 0
+      ? textStateRef.current.remainingTime
+      : currentDuration;
     const timer = setTimeout(() => {
       setTextMessage(null);
       setCurrentDonationId(null);
@@ -469,7 +521,7 @@ export default function TextPage() {
         clearInterval(progressIntervalRef.current);
         progressIntervalRef.current = null;
       }
-    }, currentDuration);
+    }, timerDuration);
 
     return () => {
       clearTimeout(timer);
@@ -478,7 +530,7 @@ export default function TextPage() {
         progressIntervalRef.current = null;
       }
     };
-  }, [textMessage, isVisible, totalDuration]);
+  }, [textMessage, isVisible, isPaused, totalDuration]);
 
   // Helper function to format time as MM:SS
   const formatTime = (ms: number): string => {
@@ -493,72 +545,89 @@ export default function TextPage() {
     ? ((totalDuration - remainingTime) / totalDuration) * 100 
     : 0;
 
+  const alertColor = textMessage?.tier?.color ?? config.accentColor;
+
   // Completely hidden when no content or when paused
   if (!textMessage) {
-    return <div className="hidden" />;
+    return <SocketDebugPanel />;
   }
 
-  if (!isVisible) {
-    return <div className="hidden" />;
+  if (!isVisible || isPaused) {
+    return <SocketDebugPanel />;
   }
 
   return (
-    <div className="flex flex-col w-full h-auto bg-black">
-      {/* Progress Bar - YouTube style */}
-      {textMessage && totalDuration > 0 && (
-        <div className="h-1 shrink-0 bg-gray-800 relative cursor-pointer group">
-          {/* Progress line */}
-          <div 
-            className="h-full bg-red-600 transition-all duration-1000 ease-linear"
-            style={{ width: `${progressPercentage}%` }}
-          />
-          {/* Time display on hover */}
-          <div className="absolute bottom-full left-0 mb-2 px-2 py-1 bg-black/90 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap">
-            {formatTime(remainingTime)} / {formatTime(totalDuration)}
+    <div
+      className={`flex flex-col w-full ${config.anchor === "top" ? "h-auto" : "h-screen"} ${OVERLAY_ANCHOR_CLASSES[config.anchor]} ${OVERLAY_FONT_CLASSES[config.fontFamily]}`}
+    >
+      <div className={`w-full ${theme.page}`}>
+        {/* Progress Bar - YouTube style */}
+        {textMessage && totalDuration > 0 && (
+          <div className="h-1 shrink-0 bg-gray-800 relative cursor-pointer group">
+            {/* Progress line */}
+            <div 
+              className="h-full bg-red-600 transition-all duration-1000 ease-linear"
+              style={{ width: `${progressPercentage}%` }}
+            />
+            {/* Time display on hover */}
+            <div className="absolute bottom-full left-0 mb-2 px-2 py-1 bg-black/90 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap">
+              {formatTime(remainingTime)} / {formatTime(totalDuration)}
+            </div>
+            {/* Current time indicator */}
+            <div className="absolute top-0 left-0 h-full w-0.5 bg-white opacity-0 group-hover:opacity-100 transition-opacity" 
+                 style={{ left: `${progressPercentage}%` }} />
           </div>
-          {/* Current time indicator */}
-          <div className="absolute top-0 left-0 h-full w-0.5 bg-white opacity-0 group-hover:opacity-100 transition-opacity" 
-               style={{ left: `${progressPercentage}%` }} />
-        </div>
-      )}
-
-      {/* Text Message - Auto height based on content */}
-      {textMessage && (
-        <div className="w-full shrink-0 animate-[slideUp_0.5s_ease-out] mt-4">
-          <div className="bg-black/80 backdrop-blur-sm px-4 py-2 shadow-2xl rounded-lg">
-            <div className="flex flex-col items-center text-center">
-              {/* Line 1: Donor name and amount */}
-              <div className="text-white text-[30px] font-semibold break-words px-2" style={{ wordBreak: "break-word", overflowWrap: "anywhere" }}>
-                <span className="text-[#FFB703]">
-                  {textMessage.donorName}
-                </span>{" "}
-                baru saja memberikan{" "}
-                {textMessage.paymentMethod === "crypto" && textMessage.plisioCurrency && textMessage.plisioAmount ? (
-                  <span className="text-[#FFB703]">
-                    {parseFloat(textMessage.plisioAmount).toLocaleString("id-ID", {
-                      minimumFractionDigits: 0,
-                      maximumFractionDigits: 8,
-                    })}{" "}
-                    {textMessage.plisioCurrency}
-                  </span>
-                ) : (
-                  <span className="text-[#FFB703]">
-                    Rp{textMessage.amount.toLocaleString("id-ID")}
-                  </span>
+        )}
+
+        {/* Text Message - Auto height based on content */}
+        {textMessage && (
+          <div
+            key={textMessage.id}
+            className={`w-full shrink-0 mt-4 ${textMessage.tier ? ALERT_ANIMATION_CLASSES[textMessage.tier.animation] : "animate-[slideUp_0.5s_ease-out]"}`}
+          >
+            <div className={`${theme.card} px-4 py-2 shadow-2xl rounded-lg`}>
+              <div className="flex flex-col items-center text-center">
+                {/* Tier GIF/image */}
+                {textMessage.tier?.imageUrl && (
+                  <Image
+                    src={textMessage.tier.imageUrl}
+                    alt=""
+                    width={0}
+                    height={0}
+                    className="w-auto mb-2"
+                    style={{ height: 120 * config.fontScale }}
+                    unoptimized
+                  />
                 )}
-              </div>
-
-              {/* Line 2: Optional message - moved down */}
-              {textMessage.message && textMessage.message.trim().length > 0 && (
-                <div className="text-zinc-300 text-[30px] mt-2 break-words max-w-full px-4" style={{ wordBreak: "break-word", overflowWrap: "anywhere" }}>
-                  {textMessage.message}
+                {/* Line 1: Donor name and amount */}
+                <div className={`${theme.text} font-semibold break-words px-2`} style={{ fontSize: 30 * config.fontScale, wordBreak: "break-word", overflowWrap: "anywhere" }}>
+                  <span style={{ color: alertColor }}>
+                    {textMessage.donorName}
+                  </span>{" "}
+                  baru saja memberikan{" "}
+                  <OverlayAmount
+                    amount={textMessage.amount}
+                    paymentMethod={textMessage.paymentMethod}
+                    plisioAmount={textMessage.plisioAmount}
+                    plisioCurrency={textMessage.plisioCurrency}
+                    fxRate={fxRate}
+                    color={alertColor}
+                    mutedClassName={theme.muted}
+                  />
                 </div>
-              )}
+
+                {/* Line 2: Optional message - moved down */}
+                {textMessage.message && textMessage.message.trim().length > 0 && (
+                  <div className={`${theme.muted} mt-2 break-words max-w-full px-4`} style={{ fontSize: 30 * config.fontScale, wordBreak: "break-word", overflowWrap: "anywhere" }}>
+                    {textMessage.message}
+                  </div>
+                )}
+              </div>
             </div>
           </div>
-        </div>
-      )}
+        )}
+      </div>
+      <SocketDebugPanel />
     </div>
   );
 }
-
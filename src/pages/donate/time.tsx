@@ -1,20 +1,30 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
-
-interface TimeLeft {
-  days: number;
-  hours: number;
-  minutes: number;
-  seconds: number;
-}
-
-interface TimeMessage {
-  type: string;
-  targetTime?: string;
-}
+import React, { useState, useEffect } from "react";
+import { useDonationSocket } from "@/hooks/use-donation-socket";
+import { SocketDebugPanel } from "@/components/ui/SocketDebugPanel";
+import { useOverlayConfig } from "@/hooks/use-overlay-config";
+import { useSubathon } from "@/hooks/use-subathon";
+import {
+  OVERLAY_ANCHOR_CLASSES,
+  OVERLAY_FONT_CLASSES,
+  getOverlayThemeClasses,
+} from "@/lib/overlay-config";
+import {
+  formatExtension,
+  isSubathonCapped,
+  splitDuration,
+  type DurationParts,
+} from "@/lib/subathon";
+
+type TimeLeft = DurationParts;
+
+// How long the "+X menit" pop stays on screen
+const EXTENSION_POP_DURATION = 3000;
 
 export default function TimePage() {
+  const config = useOverlayConfig("time");
+  const theme = getOverlayThemeClasses(config.theme);
   const [targetDateTime, setTargetDateTime] = useState<string | null>(null);
   const [timeLeft, setTimeLeft] = useState<TimeLeft>({
     days: 0,
@@ -24,90 +34,31 @@ export default function TimePage() {
   });
   const [isExpired, setIsExpired] = useState(false);
   const [isVisible, setIsVisible] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [hiddenExtensionId, setHiddenExtensionId] = useState<number | null>(null);
+
+  const isSubathon = config.timerMode === "subathon";
+  const subathon = useSubathon({ enabled: isSubathon, preview: config.preview });
 
   // WebSocket connection
-  useEffect(() => {
-    const connectWebSocket = () => {
-      const wsProtocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      let wsHost = process.env.NEXT_PUBLIC_WS_HOST || "localhost:5000";
-      // Remove protocol if present (http:// or https://)
-      wsHost = wsHost.replace(/^https?:\/\//, "");
-      const wsUrl = `${wsProtocol}//${wsHost}/ws`;
-
-      try {
-        const ws = new WebSocket(wsUrl);
-
-        ws.onopen = () => {
-          if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
-            reconnectTimeoutRef.current = null;
-          }
-        };
-
-        ws.onmessage = (event) => {
-          try {
-            // Handle single message or multiple messages separated by newline
-            const rawData = event.data.toString().trim();
-            if (!rawData) return;
-
-            const messages = rawData.includes('\n') 
-              ? rawData.split('\n').filter((msg: string) => msg.trim())
-              : [rawData];
-            
-            for (const message of messages) {
-              const trimmed = message.trim();
-              if (!trimmed) continue;
-              
-              try {
-                const data: TimeMessage = JSON.parse(trimmed);
-
-                if (data.type === "time" && data.targetTime) {
-                  setTargetDateTime(data.targetTime);
-                  setIsVisible(true);
-                }
-              } catch {
-                // Skip invalid JSON messages
-                console.warn("Invalid JSON message:", trimmed.substring(0, 100));
-              }
-            }
-          } catch (error) {
-            console.error("Error processing WebSocket message:", error);
-          }
-        };
-
-        ws.onerror = () => {
-          // Silent error handling
-        };
-
-        ws.onclose = () => {
-          // Reconnect after 3 seconds
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connectWebSocket();
-          }, 3000);
-        };
-
-        wsRef.current = ws;
-      } catch {
-        // Retry connection after 3 seconds
-        reconnectTimeoutRef.current = setTimeout(() => {
-          connectWebSocket();
-        }, 3000);
+  useDonationSocket({
+    time: (data) => {
+      if (data.targetTime) {
+        setTargetDateTime(data.targetTime);
+        setIsVisible(true);
       }
-    };
+    },
+  });
 
-    connectWebSocket();
+  // Preview mode: count down to one hour from now
+  useEffect(() => {
+    if (!config.preview || isSubathon) return;
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-    };
-  }, []);
+    const timeout = setTimeout(() => {
+      setTargetDateTime(new Date(Date.now() + 60 * 60 * 1000).toISOString());
+      setIsVisible(true);
+    }, 0);
+    return () => clearTimeout(timeout);
+  }, [config.preview, isSubathon]);
 
   // Countdown timer
   useEffect(() => {
@@ -125,44 +76,86 @@ export default function TimePage() {
       }
 
       setIsExpired(false);
-      setTimeLeft({
-        days: Math.floor(difference / (1000 * 60 * 60 * 24)),
-        hours: Math.floor((difference % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60)),
-        minutes: Math.floor((difference % (1000 * 60 * 60)) / (1000 * 60)),
-        seconds: Math.floor((difference % (1000 * 60)) / 1000),
-      });
+      setTimeLeft(splitDuration(difference));
     }, 1000);
 
     return () => clearInterval(interval);
   }, [targetDateTime]);
 
+  // Hide the "+X menit" pop after a few seconds
+  useEffect(() => {
+    const extension = subathon.lastExtension;
+    if (!extension) return;
+
+    const timeout = setTimeout(() => setHiddenExtensionId(extension.id), EXTENSION_POP_DURATION);
+    return () => clearTimeout(timeout);
+  }, [subathon.lastExtension]);
+
   const formatNumber = (num: number): string => {
     return num.toString().padStart(2, "0");
   };
 
+  // Subathon mode reads the backend-owned clock instead of targetTime
+  const subathonState = subathon.state;
+  const displayTimeLeft = isSubathon ? splitDuration(subathon.remainingMs) : timeLeft;
+  const displayExpired = isSubathon
+    ? subathonState?.status === "ended" || (subathonState?.status === "running" && subathon.remainingMs <= 0)
+    : isExpired;
+  const extensionPop =
+    isSubathon && subathon.lastExtension && subathon.lastExtension.id !== hiddenExtensionId
+      ? subathon.lastExtension
+      : null;
+
+  const getSubtitle = (): string => {
+    if (!isSubathon || !subathonState) {
+      return isExpired ? "Waktu telah habis" : "Menuju target waktu";
+    }
+    if (displayExpired) return "Subathon selesai";
+    if (subathonState.status === "paused") return "Dijeda";
+    if (isSubathonCapped(subathonState)) return "Batas waktu maksimal tercapai";
+    return "Setiap donasi menambah waktu";
+  };
+
   // Completely hidden when not visible
-  if (!isVisible || !targetDateTime) {
-    return <div className="hidden" />;
+  if (isSubathon ? !subathonState : !isVisible || !targetDateTime) {
+    return <SocketDebugPanel />;
   }
 
   return (
-    <div className="flex min-h-screen flex-col bg-zinc-50 dark:bg-black">
-      <main className="flex-1 flex items-center justify-center px-4 py-8">
-        <div className="w-full max-w-5xl">
+    <div className={`flex min-h-screen flex-col ${theme.page} ${OVERLAY_FONT_CLASSES[config.fontFamily]}`}>
+      <main className={`flex-1 flex flex-col items-center ${OVERLAY_ANCHOR_CLASSES[config.anchor]} px-4 py-8`}>
+        <div className="w-full max-w-5xl" style={{ zoom: config.fontScale }}>
           {/* Header */}
           <div className="text-center mb-12">
             <div className="flex items-center justify-center gap-3 mb-4">
               <h1 className="text-5xl font-bold text-black dark:text-zinc-50">
-                Countdown Timer
+                {isSubathon ? "Subathon" : "Countdown Timer"}
               </h1>
             </div>
             <p className="text-lg text-zinc-600 dark:text-zinc-400">
-              {isExpired ? "Waktu telah habis" : "Menuju target waktu"}
+              {getSubtitle()}
             </p>
           </div>
 
+          {/* Subathon extension pop */}
+          {extensionPop && (
+            <div
+              key={extensionPop.id}
+              className="mb-6 text-center animate-in fade-in zoom-in-75 slide-in-from-bottom-4 duration-500"
+            >
+              <span className="text-5xl font-extrabold" style={{ color: extensionPop.addedMs < 0 ? "#EF4444" : config.accentColor }}>
+                {formatExtension(extensionPop.addedMs)}
+              </span>
+              {extensionPop.donorName && (
+                <p className="mt-1 text-xl font-semibold text-zinc-700 dark:text-zinc-300">
+                  dari {extensionPop.donorName}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Countdown Display */}
-          {isExpired ? (
+          {displayExpired ? (
             <div className="text-center py-16 bg-white dark:bg-zinc-900 rounded-2xl shadow-lg border border-zinc-200 dark:border-zinc-800">
               <div className="text-7xl font-bold text-red-600 dark:text-red-400 mb-4">
                 Time&apos;s Up!
@@ -175,8 +168,8 @@ export default function TimePage() {
             <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
               {/* Days */}
               <div className="text-center p-8 bg-white dark:bg-zinc-900 rounded-xl shadow-lg border border-zinc-200 dark:border-zinc-800 transform transition-all hover:scale-105">
-                <div className="text-6xl font-bold text-orange-500 dark:text-orange-400 mb-3">
-                  {formatNumber(timeLeft.days)}
+                <div className="text-6xl font-bold mb-3" style={{ color: config.accentColor }}>
+                  {formatNumber(displayTimeLeft.days)}
                 </div>
                 <div className="text-lg font-semibold text-zinc-700 dark:text-zinc-300 uppercase tracking-wide">
                   Hari
@@ -185,8 +178,8 @@ export default function TimePage() {
 
               {/* Hours */}
               <div className="text-center p-8 bg-white dark:bg-zinc-900 rounded-xl shadow-lg border border-zinc-200 dark:border-zinc-800 transform transition-all hover:scale-105">
-                <div className="text-6xl font-bold text-orange-500 dark:text-orange-400 mb-3">
-                  {formatNumber(timeLeft.hours)}
+                <div className="text-6xl font-bold mb-3" style={{ color: config.accentColor }}>
+                  {formatNumber(displayTimeLeft.hours)}
                 </div>
                 <div className="text-lg font-semibold text-zinc-700 dark:text-zinc-300 uppercase tracking-wide">
                   Jam
@@ -195,8 +188,8 @@ export default function TimePage() {
 
               {/* Minutes */}
               <div className="text-center p-8 bg-white dark:bg-zinc-900 rounded-xl shadow-lg border border-zinc-200 dark:border-zinc-800 transform transition-all hover:scale-105">
-                <div className="text-6xl font-bold text-orange-500 dark:text-orange-400 mb-3">
-                  {formatNumber(timeLeft.minutes)}
+                <div className="text-6xl font-bold mb-3" style={{ color: config.accentColor }}>
+                  {formatNumber(displayTimeLeft.minutes)}
                 </div>
                 <div className="text-lg font-semibold text-zinc-700 dark:text-zinc-300 uppercase tracking-wide">
                   Menit
@@ -205,8 +198,8 @@ export default function TimePage() {
 
               {/* Seconds */}
               <div className="text-center p-8 bg-white dark:bg-zinc-900 rounded-xl shadow-lg border border-zinc-200 dark:border-zinc-800 transform transition-all hover:scale-105 animate-pulse">
-                <div className="text-6xl font-bold text-orange-500 dark:text-orange-400 mb-3">
-                  {formatNumber(timeLeft.seconds)}
+                <div className="text-6xl font-bold mb-3" style={{ color: config.accentColor }}>
+                  {formatNumber(displayTimeLeft.seconds)}
                 </div>
                 <div className="text-lg font-semibold text-zinc-700 dark:text-zinc-300 uppercase tracking-wide">
                   Detik
@@ -216,7 +209,7 @@ export default function TimePage() {
           )}
 
           {/* Target Date Info */}
-          {!isExpired && targetDateTime && (
+          {!isSubathon && !isExpired && targetDateTime && (
             <div className="mt-8 text-center">
               <p className="text-sm text-zinc-500 dark:text-zinc-500">
                 Target: {new Date(targetDateTime).toLocaleString("id-ID", {
@@ -232,6 +225,7 @@ export default function TimePage() {
           )}
         </div>
       </main>
+      <SocketDebugPanel />
     </div>
   );
 }
@@ -0,0 +1,7 @@
+"use client";
+
+import LeaderboardPage from "@/components/Layout/Leaderboard";
+
+export default function Leaderboard() {
+  return <LeaderboardPage />;
+}
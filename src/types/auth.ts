@@ -25,6 +25,17 @@ export interface AuthResponse {
   verification_token?: string;
 }
 
+export interface RefreshTokenRequest {
+  refresh_token: string;
+}
+
+// Refresh tokens rotate: the old one stops working once this is returned
+export interface RefreshTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
 export interface RegisterRequest {
   full_name: string;
   email: string;
@@ -0,0 +1,38 @@
+// Donation records as returned by the backend REST API (/hit/history).
+
+export interface DonationHistory {
+  id: string;
+  type: "gif" | "text";
+  mediaUrl?: string;
+  mediaType?: string;
+  startTime?: number;
+  endTime?: number;
+  donorName: string;
+  donorEmail?: string; // Only present for admin requests
+  amount: number;
+  message?: string;
+  createdAt: string;
+  payment?: {
+    paymentMethod?: string;
+    paymentType?: string;
+    plisioCurrency?: string;
+    plisioSourceAmount?: number;
+  };
+}
+
+export interface HistoryResponse {
+  success: boolean;
+  data: DonationHistory[];
+  limit: number;
+  offset: number;
+}
+
+// Fundraising goal shown by the /donate/goal overlay.
+// Dates are local calendar days (YYYY-MM-DD); the end day is inclusive.
+export interface DonationGoal {
+  id: string;
+  title: string;
+  targetAmount: number; // IDR
+  startDate: string;
+  endDate?: string;
+}
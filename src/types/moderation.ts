@@ -0,0 +1,26 @@
+// Media donations held for review (backend /hit/moderation API).
+
+export type ModerationStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+export interface ModerationItem {
+  id: string;
+  status: ModerationStatus;
+  donorName: string;
+  amount: number;
+  message?: string;
+  mediaUrl: string;
+  mediaType?: string;
+  startTime?: number;
+  endTime?: number;
+  reason?: string;
+  createdAt: string;
+  payment?: {
+    paymentMethod?: string;
+    plisioCurrency?: string;
+    plisioSourceAmount?: number;
+  };
+}
+
+export interface ModerationSettings {
+  enabled: boolean; // Hold media donations for review
+}
@@ -0,0 +1,82 @@
+// Payment records and requests for the backend /payment API.
+
+export type PaymentStatus = "PENDING" | "SUCCESS" | "FAILED" | "CANCELLED" | "EXPIRED";
+
+export type PaymentMethod = "bank_transfer" | "gopay" | "qris" | "crypto" | "credit_card";
+
+export interface Payment {
+  id: string;
+  orderId: string;
+  donorName: string;
+  donorEmail?: string;
+  amount: number;
+  totalAmount: number;
+  status: PaymentStatus;
+  paymentMethod: string;
+  donationType: "gif" | "text";
+  mediaUrl?: string;
+  mediaType?: string;
+  startTime?: number;
+  endTime?: number;
+  message?: string;
+  notes?: string;
+  vaNumber?: string;
+  bankType?: string;
+  qrCodeUrl?: string;
+  redirectUrl?: string;
+  maskedCard?: string;
+  cardType?: string;
+  expiryTime?: string;
+  plisioCurrency?: string;
+  plisioPsysCid?: string;
+  createdAt: string;
+  updatedAt: string;
+  history?: {
+    id: string;
+    type: string;
+    donorName: string;
+    amount: number;
+    message?: string;
+  };
+}
+
+export interface CreatePaymentRequest {
+  donorName: string;
+  donorEmail?: string;
+  amount: number; // IDR, or USD cents for crypto
+  donationType: "gif" | "text";
+  message?: string;
+  notes?: string;
+  paymentMethod: PaymentMethod;
+  bank?: string;
+  currency?: string; // Plisio currency id for crypto
+  mediaUrl?: string;
+  mediaType?: string;
+  startTime?: number; // Seconds
+  endTime?: number; // Seconds, YouTube clips stop here
+  cardTokenId?: string;
+  saveCard?: boolean;
+}
+
+// The backend has returned the created payment in a few shapes over time
+export interface CreatePaymentResult {
+  id?: string;
+  orderId?: string;
+  payment?: Payment;
+  redirectUrl?: string; // 3DS page for card payments
+  invoiceUrl?: string; // Plisio invoice for crypto
+  invoice?: { invoiceUrl?: string };
+}
+
+// Plisio currency as listed by /payment/plisio/currencies
+export interface CryptoCurrency {
+  cid: string;
+  name: string;
+  currency: string;
+  icon: string;
+  fiat_rate?: string;
+  min_sum_in?: string;
+  invoice_commission_percentage?: string;
+  hidden?: boolean;
+  maintenance?: boolean;
+}
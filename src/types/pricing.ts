@@ -0,0 +1,28 @@
+// Donation pricing served by the backend (/payment/pricing).
+
+import type { PaymentMethod } from "@/types/payment";
+
+export interface PricingConfig {
+  // Screen time per Rp1.000, keyed by media type (a media provider id such as
+  // "youtube") with the donation type ("gif" or "text") as fallback
+  secondsPerThousand: Record<string, number>;
+  minDurationSeconds: number;
+  maxDurationSeconds?: number; // No cap when absent
+  // Minimum amount per payment method: IDR, or USD for crypto
+  minAmount: Record<PaymentMethod, number>;
+  usdToIdrRate: number;
+}
+
+// Current USD→IDR quote served by /payment/fx-rate
+export interface FxRateQuote {
+  rate: number;
+  updatedAt: string; // ISO time of the quote
+}
+
+// Rate the pages convert crypto amounts with: the live quote or, when there
+// is none, the pricing config's usdToIdrRate
+export interface FxRate {
+  rate: number;
+  source: "live" | "config";
+  updatedAt?: string; // Set for live quotes
+}
@@ -0,0 +1,167 @@
+// WebSocket protocol types for the backend /ws endpoint.
+// Every frame is a JSON object with a `type` discriminator; several frames may
+// arrive in one WebSocket message separated by newlines.
+// Frames are validated against lib/donation-socket-schema before dispatch,
+// so required fields here are guaranteed at runtime.
+
+export interface DonationSocketPaymentInfo {
+  paymentMethod?: string; // crypto, bank_transfer, gopay, etc
+  paymentType?: string; // plisio, midtrans
+  plisioCurrency?: string; // BTC, ETH, SOL, etc
+  plisioAmount?: string; // Crypto amount (e.g., "0.001", "0.5")
+}
+
+export interface DonationSocketDonation extends DonationSocketPaymentInfo {
+  type: "donation";
+  id: string; // UUID for tracking this donation
+  donorName: string;
+  amount: number; // Integer amount (in IDR for duration calculation)
+  message?: string;
+  duration?: number; // Display duration in milliseconds (from backend)
+  remainingMs?: number; // When reconnecting: remaining time in ms so web only displays, no replay from start
+  replay?: boolean; // Re-sent by an admin from history; plays again even if already shown
+}
+
+export interface DonationSocketMedia {
+  type: "media";
+  id: string;
+  mediaUrl: string;
+  mediaType?: string;
+  startTime?: number; // Start time in seconds for YouTube videos (legacy)
+  targetTime?: string | number; // Start time in seconds for YouTube videos (can be string or number)
+  endTime?: number; // Seconds; YouTube clips stop here instead of playing to the end
+  duration?: number;
+  remainingMs?: number;
+  replay?: boolean;
+}
+
+export interface DonationSocketText extends DonationSocketPaymentInfo {
+  type: "text";
+  id: string;
+  donorName: string;
+  amount: number;
+  message?: string;
+  duration?: number;
+}
+
+export interface DonationSocketVisibility {
+  type: "visibility";
+  id?: string;
+  visible: boolean;
+}
+
+// Admin remote control for the donation currently on screen.
+// `id` targets a specific donation; without it the action applies to the active one.
+export interface DonationSocketControl {
+  type: "control";
+  action: "skip" | "pause" | "resume";
+  id?: string;
+}
+
+export interface DonationSocketClearQueue {
+  type: "clear_queue";
+}
+
+export interface DonationSocketTime {
+  type: "time";
+  targetTime: string;
+}
+
+// Subathon timer state, broadcast by the backend on every change.
+// The backend owns the clock: donations extend it server-side using
+// `secondsPer1000`, admins pause/resume/adjust it through /hit/subathon.
+export interface DonationSocketSubathon {
+  type: "subathon";
+  status: "running" | "paused" | "ended";
+  startedAt: string;
+  endsAt: string; // Only meaningful while running
+  remainingMs: number; // Frozen value while paused
+  secondsPer1000: number; // Seconds added per Rp1.000 donated
+  totalMs: number; // Length of the subathon so far (initial + extensions)
+  capMs?: number; // Max total length; extensions past it are dropped
+  addedMs?: number; // Extension that caused this frame (negative for manual minus)
+  reason?: "donation" | "manual" | "start" | "pause" | "resume" | "stop";
+  donorName?: string;
+}
+
+export interface DonationSocketHistory extends DonationSocketPaymentInfo {
+  type: "history";
+  id: string;
+  donorName: string;
+  amount: number;
+  message?: string;
+  mediaUrl?: string;
+  mediaType?: string;
+  startTime?: number;
+  endTime?: number;
+  createdAt?: string;
+}
+
+export interface DonationSocketPaymentStatus {
+  type: "payment_status";
+  paymentId?: string;
+  orderId?: string;
+  status: "PENDING" | "SUCCESS" | "FAILED" | "CANCELLED" | "EXPIRED";
+  vaNumber?: string;
+  bankType?: string;
+  qrCodeUrl?: string;
+  expiryTime?: string;
+  donorName?: string;
+  amount?: number;
+  donationType?: string;
+  message?: string;
+  mediaUrl?: string;
+  mediaType?: string;
+  startTime?: number;
+}
+
+// Media donation held for review (only sent while moderation mode is on)
+export interface DonationSocketModeration extends DonationSocketPaymentInfo {
+  type: "moderation";
+  id: string;
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  donorName: string;
+  amount: number;
+  message?: string;
+  mediaUrl: string;
+  mediaType?: string;
+  startTime?: number;
+  endTime?: number;
+  reason?: string; // Rejection reason
+  createdAt?: string;
+}
+
+export type DonationSocketMessage =
+  | DonationSocketDonation
+  | DonationSocketMedia
+  | DonationSocketText
+  | DonationSocketVisibility
+  | DonationSocketClearQueue
+  | DonationSocketControl
+  | DonationSocketTime
+  | DonationSocketSubathon
+  | DonationSocketHistory
+  | DonationSocketPaymentStatus
+  | DonationSocketModeration;
+
+export type DonationSocketMessageType = DonationSocketMessage["type"];
+
+export type DonationSocketMessageOf<T extends DonationSocketMessageType> = Extract<
+  DonationSocketMessage,
+  { type: T }
+>;
+
+export type DonationSocketStatus = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+export interface DonationSocketRejection {
+  at: number;
+  reason: string;
+  raw: string;
+}
+
+export interface DonationSocketStats {
+  accepted: number;
+  rejected: number;
+  ignored: number; // Valid JSON with a type this client doesn't handle (e.g. pong)
+  recentRejections: DonationSocketRejection[];
+}
@@ -9,6 +9,7 @@ declare module "next-auth" {
     isVerified?: boolean;
     userType?: string;
     loginType?: string;
+    expiresIn?: number;
   }
 
   interface Session {
@@ -25,6 +26,7 @@ declare module "next-auth" {
     isVerified?: boolean;
     userType?: string;
     loginType?: string;
+    error?: "RefreshAccessTokenError";
   }
 }
 
@@ -36,6 +38,7 @@ declare module "next-auth/jwt" {
     userType?: string;
     loginType?: string;
     accessTokenExpires?: number;
+    error?: "RefreshAccessTokenError";
   }
 }
 
@@ -1,53 +1,58 @@
 // YouTube IFrame API type definitions
-declare namespace YT {
-  interface PlayerState {
-    UNSTARTED: -1;
-    ENDED: 0;
-    PLAYING: 1;
-    PAUSED: 2;
-    BUFFERING: 3;
-    CUED: 5;
-  }
-
-  interface OnStateChangeEvent {
-    data: number;
-    target: Player;
-  }
-
-  interface OnReadyEvent {
-    target: Player;
-  }
-
-  interface PlayerVars {
-    autoplay?: 0 | 1;
-    mute?: 0 | 1;
-    controls?: 0 | 1;
-    rel?: 0 | 1;
-    modestbranding?: 0 | 1;
-    playsinline?: 0 | 1;
-    start?: number;
-    enablejsapi?: 0 | 1;
-  }
-
-  interface PlayerOptions {
-    videoId?: string;
-    playerVars?: PlayerVars;
-    events?: {
-      onStateChange?: (event: OnStateChangeEvent) => void;
-      onReady?: (event: OnReadyEvent) => void;
-    };
-  }
-
-  class Player {
-    constructor(element: HTMLElement | string, options?: PlayerOptions);
-    getDuration(): number;
-    pauseVideo(): void;
-    playVideo(): void;
-    destroy(): void;
+declare global {
+  namespace YT {
+    interface PlayerState {
+      UNSTARTED: -1;
+      ENDED: 0;
+      PLAYING: 1;
+      PAUSED: 2;
+      BUFFERING: 3;
+      CUED: 5;
+    }
+
+    interface OnStateChangeEvent {
+      data: number;
+      target: Player;
+    }
+
+    interface OnReadyEvent {
+      target: Player;
+    }
+
+    interface PlayerVars {
+      autoplay?: 0 | 1;
+      mute?: 0 | 1;
+      controls?: 0 | 1;
+      rel?: 0 | 1;
+      modestbranding?: 0 | 1;
+      playsinline?: 0 | 1;
+      start?: number;
+      end?: number;
+      enablejsapi?: 0 | 1;
+    }
+
+    interface PlayerOptions {
+      videoId?: string;
+      width?: number | string;
+      height?: number | string;
+      playerVars?: PlayerVars;
+      events?: {
+        onStateChange?: (event: OnStateChangeEvent) => void;
+        onReady?: (event: OnReadyEvent) => void;
+      };
+    }
+
+    class Player {
+      constructor(element: HTMLElement | string, options?: PlayerOptions);
+      getDuration(): number;
+      getCurrentTime(): number;
+      seekTo(seconds: number, allowSeekAhead: boolean): void;
+      pauseVideo(): void;
+      playVideo(): void;
+      destroy(): void;
+    }
   }
-}
 
-declare global {
   interface Window {
     YT: typeof YT;
     onYouTubeIframeAPIReady?: () => void;